@@ -23,12 +23,102 @@ interface ScoringResults {
   approvalProbability: number;
   rfeProbability: number;
   denialRisk: number;
+  calibrated?: {
+    approvalProbability?: number;
+    rfeProbability?: number;
+    cases: number;
+    fittedAt: string;
+  };
   criteriaScores: Array<{
     criterionNumber: number;
     criterionName: string;
     rating: string;
     score: number;
     officerConcerns: string[];
+    strengths?: string[];
+    suggestions?: string[];
+    citations?: Array<{
+      quote: string;
+      fileName: string;
+      page?: number;
+      finding: string;
+      verified: boolean;
+    }>;
+  }>;
+  finalMerits?: {
+    outcome: 'Favorable' | 'Borderline' | 'Unfavorable';
+    score: number;
+    criteriaMet: number;
+    criteriaRequired: number;
+    sustainedAcclaim: string;
+    topOfField: string;
+    totalityOfEvidence: string;
+    rationale: string;
+  };
+  ensemble?: {
+    runs: number;
+    overallScores: number[];
+    confidenceInterval: { level: number; low: number; high: number };
+    ratingAgreement: number;
+    disagreement: 'Low' | 'Moderate' | 'High';
+  };
+  rfeIssues?: Array<{
+    issueNumber: number;
+    topic: string;
+    request: string;
+    status: 'Resolved' | 'Partially Resolved' | 'Unresolved';
+    score: number;
+    responseSummary: string;
+    matchedExhibits: string[];
+    remainingConcerns: string[];
+  }>;
+  contractTerms?: {
+    parties: Array<{ name: string; role: string; address?: string }>;
+    termStart?: string;
+    termEnd?: string;
+    compensation: Array<{ description: string }>;
+    engagements: Array<{
+      description: string;
+      startDate?: string;
+      endDate?: string;
+      venue?: string;
+      location?: string;
+      employer?: string;
+    }>;
+    agentIsPetitioner: boolean;
+    gaps: Array<{ field: string; severity: 'critical' | 'high'; citation: string; message: string }>;
+  };
+  mediaEvidence?: Array<{
+    fileName: string;
+    exhibitLabel?: string;
+    outlet: string;
+    title?: string;
+    publishedDate?: string;
+    author?: string;
+    aboutBeneficiary: boolean;
+    tier: 1 | 2 | 3 | 4;
+    tierSource: 'registry' | 'officer';
+  }>;
+  letterAnalysis?: {
+    letters: Array<{
+      fileName: string;
+      author: string;
+      title?: string;
+      affiliation?: string;
+      relationship: string;
+      relationshipDetail: string;
+      specificity: 'Specific' | 'General' | 'Vague';
+      credibilityScore: number;
+      concerns: string[];
+    }>;
+    boilerplateGroups: string[][];
+  };
+  consistencyConflicts?: Array<{
+    factType: string;
+    subject: string;
+    severity: 'High' | 'Medium' | 'Low';
+    explanation: string;
+    occurrences: Array<{ value: string; quote: string; fileName: string; page?: number }>;
   }>;
   evidenceQuality: {
     tier1Count: number;
@@ -61,6 +151,33 @@ interface ChatMessage {
 
 type SessionStatus = 'queued' | 'processing' | 'scoring' | 'completed' | 'error';
 
+interface ExhibitIndex {
+  exhibits: Array<{
+    label: string;
+    title?: string;
+    fileName: string;
+    startPage: number;
+    endPage: number;
+    packetStartPage: number;
+    packetEndPage: number;
+    citationCount: number;
+  }>;
+  briefFiles: string[];
+  issues: Array<{
+    type: 'missing_exhibit' | 'uncited_exhibit' | 'duplicate_label';
+    label: string;
+    message: string;
+  }>;
+}
+
+interface StageEvent {
+  id: string;
+  stage: string;
+  progress: number;
+  message: string;
+  fileName?: string;
+}
+
 export default function ScoringResultsPage() {
   const params = useParams();
   const sessionId = params.id as string;
@@ -73,6 +190,10 @@ export default function ScoringResultsPage() {
   const [status, setStatus] = useState<SessionStatus>('queued');
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('Loading...');
+  const [stageEvents, setStageEvents] = useState<StageEvent[]>([]);
+  const [partialReport, setPartialReport] = useState('');
+  const [exhibitIndex, setExhibitIndex] = useState<ExhibitIndex | null>(null);
+  const [isIndexing, setIsIndexing] = useState(false);
 
   // Chat state
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
@@ -129,21 +250,76 @@ export default function ScoringResultsPage() {
     }
   }, [sessionId]);
 
-  // Initial fetch and polling setup
+  // Initial fetch, then live progress over SSE with polling as the fallback
   useEffect(() => {
     // Initial fetch
     fetchResults();
 
-    // Start polling every 2 seconds
-    pollingRef.current = setInterval(fetchResults, 2000);
+    // Poll every 2 seconds
+    const startPolling = () => {
+      if (!pollingRef.current) {
+        pollingRef.current = setInterval(fetchResults, 2000);
+      }
+    };
+
+    let source: EventSource | null = null;
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      source = new EventSource(`/api/score/stream?sessionId=${sessionId}`);
+      let failures = 0;
+
+      source.addEventListener('status', (e) => {
+        failures = 0;
+        const data = JSON.parse((e as MessageEvent).data);
+        setStatus(data.status);
+        setProgress(data.progress || 0);
+        setProgressMessage(data.message || '');
+      });
+
+      source.addEventListener('stage', (e) => {
+        failures = 0;
+        const event = e as MessageEvent;
+        const data = JSON.parse(event.data);
+        setStageEvents((prev) =>
+          prev.some((s) => s.id === event.lastEventId) ? prev : [...prev, { id: event.lastEventId, ...data }]
+        );
+      });
+
+      source.addEventListener('report', (e) => {
+        failures = 0;
+        const data = JSON.parse((e as MessageEvent).data);
+        setPartialReport((prev) => (data.reset ? data.text : prev + data.text));
+      });
+
+      // Final results (or the error) come from /api/score
+      const finish = () => {
+        source?.close();
+        fetchResults();
+      };
+      source.addEventListener('complete', finish);
+      source.addEventListener('failed', finish);
+
+      // EventSource retries on its own; give up on the stream if it keeps failing
+      source.onerror = () => {
+        failures++;
+        if (source?.readyState === EventSource.CLOSED || failures >= 3) {
+          source?.close();
+          startPolling();
+        }
+      };
+    }
 
     // Cleanup on unmount
     return () => {
+      source?.close();
       if (pollingRef.current) {
         clearInterval(pollingRef.current);
+        pollingRef.current = null;
       }
     };
-  }, [fetchResults]);
+  }, [fetchResults, sessionId]);
 
   // Fetch chat history when results are loaded
   useEffect(() => {
@@ -164,6 +340,43 @@ export default function ScoringResultsPage() {
     fetchChatHistory();
   }, [sessionId, results]);
 
+  // Fetch the exhibit index when results are loaded
+  useEffect(() => {
+    if (!results) return;
+
+    async function fetchExhibitIndex() {
+      try {
+        const response = await fetch(`/api/exhibits?sessionId=${sessionId}`);
+        if (response.ok) {
+          setExhibitIndex(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch exhibit index:', err);
+      }
+    }
+
+    fetchExhibitIndex();
+  }, [sessionId, results]);
+
+  // Rebuild the exhibit index from the session's current files
+  const rebuildExhibitIndex = async () => {
+    setIsIndexing(true);
+    try {
+      const response = await fetch('/api/exhibits', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId }),
+      });
+      if (response.ok) {
+        setExhibitIndex(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to rebuild exhibit index:', err);
+    } finally {
+      setIsIndexing(false);
+    }
+  };
+
   // Auto-scroll chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -247,7 +460,7 @@ export default function ScoringResultsPage() {
   if (loading && status !== 'completed') {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gray-50">
-        <div className="text-center max-w-md mx-auto px-4">
+        <div className={`text-center ${partialReport ? 'max-w-2xl' : 'max-w-md'} mx-auto px-4`}>
           <div className="w-24 h-24 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6">
             {status === 'queued' ? (
               <Clock className="w-12 h-12 text-blue-600" />
@@ -276,6 +489,32 @@ export default function ScoringResultsPage() {
 
           <p className="text-sm text-gray-500">{progress}% complete</p>
 
+          {stageEvents.length > 0 && (
+            <ul className="mt-6 space-y-1 text-left text-sm">
+              {stageEvents.slice(-6).map((event, i, shown) => (
+                <li key={event.id} className="flex items-start gap-2 text-gray-600">
+                  {event.stage === 'Extraction Failed' ? (
+                    <XCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                  ) : i === shown.length - 1 ? (
+                    <Loader2 className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5 animate-spin" />
+                  ) : (
+                    <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0 mt-0.5" />
+                  )}
+                  <span>{event.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {partialReport && (
+            <div className="mt-6 text-left">
+              <p className="text-sm font-medium text-gray-700 mb-2">Officer&apos;s report so far</p>
+              <div className="max-h-64 overflow-y-auto p-4 bg-white rounded-xl border border-gray-200 text-sm text-gray-700 whitespace-pre-wrap">
+                {partialReport}
+              </div>
+            </div>
+          )}
+
           <div className="mt-8 p-4 bg-blue-50 rounded-xl border border-blue-200">
             <p className="text-sm text-blue-700">
               <strong>Large documents take longer to process.</strong><br />
@@ -355,13 +594,57 @@ export default function ScoringResultsPage() {
               </div>
             </div>
 
+            {/* Probabilities from past outcomes (score calibration) */}
+            {results.calibrated && (
+              <div className="mb-6 p-4 rounded-xl border border-gray-200 bg-gray-50 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <div className="font-semibold text-gray-900">Calibrated to Past Outcomes</div>
+                {results.calibrated.approvalProbability !== undefined && (
+                  <div className="text-gray-700">
+                    Approval: <span className="font-medium">{results.calibrated.approvalProbability}%</span>
+                  </div>
+                )}
+                {results.calibrated.rfeProbability !== undefined && (
+                  <div className="text-gray-700">
+                    RFE: <span className="font-medium">{results.calibrated.rfeProbability}%</span>
+                  </div>
+                )}
+                <div className="text-gray-500">
+                  Fitted to {results.calibrated.cases} decided case{results.calibrated.cases === 1 ? '' : 's'} on{' '}
+                  {new Date(results.calibrated.fittedAt).toLocaleDateString()}
+                </div>
+              </div>
+            )}
+
+            {/* Score Stability (ensemble scoring) */}
+            {results.ensemble && (
+              <div className="mb-6 p-4 rounded-xl border border-gray-200 bg-gray-50 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <div className="font-semibold text-gray-900">Score Stability</div>
+                <div className="text-gray-700">
+                  {Math.round(results.ensemble.confidenceInterval.level * 100)}% confidence interval:{' '}
+                  <span className="font-medium">{results.ensemble.confidenceInterval.low}-{results.ensemble.confidenceInterval.high}</span>
+                </div>
+                <div className="text-gray-700">
+                  Runs: <span className="font-medium">{results.ensemble.overallScores.join(', ')}</span>
+                </div>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  results.ensemble.disagreement === 'Low'
+                    ? 'bg-green-50 text-green-700 border-green-200'
+                    : results.ensemble.disagreement === 'Moderate'
+                    ? 'bg-amber-50 text-amber-700 border-amber-200'
+                    : 'bg-red-50 text-red-700 border-red-200'
+                }`}>
+                  {results.ensemble.disagreement} officer disagreement
+                </span>
+              </div>
+            )}
+
             {/* Filing Recommendation */}
             <div className={`p-4 rounded-xl border ${getRatingColor(results.overallRating)}`}>
               <div className="font-semibold mb-1">Filing Recommendation</div>
               <div className="text-sm">
-                {results.overallScore >= 70
+                {results.overallRating === 'Approve'
                   ? 'This petition appears ready to file. Minor improvements may still be beneficial.'
-                  : results.overallScore >= 50
+                  : results.overallRating === 'RFE Likely'
                   ? 'Consider strengthening the petition before filing. RFE is likely with current evidence.'
                   : 'Major revision recommended. Significant weaknesses need to be addressed before filing.'}
               </div>
@@ -412,6 +695,52 @@ export default function ScoringResultsPage() {
                           <li className="text-sm text-gray-500">No specific concerns noted</li>
                         )}
                       </ul>
+                      {criterion.strengths && criterion.strengths.length > 0 && (
+                        <>
+                          <h4 className="text-sm font-semibold text-green-600 mt-4 mb-2">Strengths:</h4>
+                          <ul className="space-y-2">
+                            {criterion.strengths.map((strength, i) => (
+                              <li key={i} className="text-sm text-gray-700 flex items-start gap-2">
+                                <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                                {strength}
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                      {criterion.suggestions && criterion.suggestions.length > 0 && (
+                        <>
+                          <h4 className="text-sm font-semibold text-blue-600 mt-4 mb-2">Suggestions:</h4>
+                          <ul className="space-y-2">
+                            {criterion.suggestions.map((suggestion, i) => (
+                              <li key={i} className="text-sm text-gray-700">• {suggestion}</li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                      {criterion.citations && criterion.citations.length > 0 && (
+                        <>
+                          <h4 className="text-sm font-semibold text-gray-700 mt-4 mb-2">Evidence Relied On:</h4>
+                          <ul className="space-y-3">
+                            {criterion.citations.map((citation, i) => (
+                              <li key={i} className="text-sm">
+                                <div className="text-gray-900 font-medium">{citation.finding}</div>
+                                <blockquote className="mt-1 pl-3 border-l-2 border-gray-300 text-gray-600 italic">
+                                  &ldquo;{citation.quote}&rdquo;
+                                </blockquote>
+                                <div className="mt-1 text-xs text-gray-500 flex items-center gap-1">
+                                  <FileText className="w-3 h-3" />
+                                  {citation.fileName}
+                                  {citation.page ? `, p. ${citation.page}` : ''}
+                                  {!citation.verified && (
+                                    <span className="ml-2 text-amber-600">Not found verbatim in extracted text</span>
+                                  )}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
                     </div>
                   )}
                 </div>
@@ -419,6 +748,401 @@ export default function ScoringResultsPage() {
             </div>
           </div>
 
+          {/* Final Merits (Kazarian Step 2) */}
+          {results.finalMerits && (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Final Merits Determination</h2>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  results.finalMerits.outcome === 'Favorable'
+                    ? 'bg-green-50 text-green-700 border-green-200'
+                    : results.finalMerits.outcome === 'Borderline'
+                    ? 'bg-amber-50 text-amber-700 border-amber-200'
+                    : 'bg-red-50 text-red-700 border-red-200'
+                }`}>
+                  {results.finalMerits.outcome} ({results.finalMerits.score}/100)
+                </span>
+              </div>
+              <p className="text-sm text-gray-500 mb-4">
+                Kazarian step 2 - {results.finalMerits.criteriaMet} of {results.finalMerits.criteriaRequired} required criteria met in step 1
+              </p>
+              <div className="space-y-3 text-sm text-gray-700">
+                <div><span className="font-semibold text-gray-900">Sustained acclaim:</span> {results.finalMerits.sustainedAcclaim}</div>
+                <div><span className="font-semibold text-gray-900">Top of the field:</span> {results.finalMerits.topOfField}</div>
+                <div><span className="font-semibold text-gray-900">Totality of the evidence:</span> {results.finalMerits.totalityOfEvidence}</div>
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">{results.finalMerits.rationale}</div>
+              </div>
+            </div>
+          )}
+
+          {/* RFE Issue Checklist (RFE responses) */}
+          {results.rfeIssues && results.rfeIssues.length > 0 && (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">RFE Issue Checklist</h2>
+                <span className="text-sm text-gray-500">
+                  {results.rfeIssues.filter((i) => i.status === 'Resolved').length} of {results.rfeIssues.length} resolved
+                </span>
+              </div>
+              <div className="space-y-3">
+                {results.rfeIssues.map((issue) => (
+                  <div key={issue.issueNumber} className="p-4 border border-gray-200 rounded-xl">
+                    <div className="flex items-start justify-between gap-4 mb-2">
+                      <div className="flex items-start gap-2">
+                        {issue.status === 'Resolved' ? (
+                          <CheckCircle className="w-5 h-5 text-green-500 mt-0.5 flex-shrink-0" />
+                        ) : issue.status === 'Partially Resolved' ? (
+                          <AlertTriangle className="w-5 h-5 text-amber-500 mt-0.5 flex-shrink-0" />
+                        ) : (
+                          <XCircle className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" />
+                        )}
+                        <span className="font-semibold text-gray-900">
+                          {issue.issueNumber}. {issue.topic}
+                        </span>
+                      </div>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap ${
+                        issue.status === 'Resolved'
+                          ? 'bg-green-50 text-green-700 border-green-200'
+                          : issue.status === 'Partially Resolved'
+                          ? 'bg-amber-50 text-amber-700 border-amber-200'
+                          : 'bg-red-50 text-red-700 border-red-200'
+                      }`}>
+                        {issue.status} ({issue.score}/100)
+                      </span>
+                    </div>
+                    <div className="space-y-2 text-sm text-gray-700 pl-7">
+                      <div><span className="font-semibold text-gray-900">Requested:</span> {issue.request}</div>
+                      <div><span className="font-semibold text-gray-900">Response:</span> {issue.responseSummary}</div>
+                      {issue.matchedExhibits.length > 0 && (
+                        <div><span className="font-semibold text-gray-900">Exhibits:</span> {issue.matchedExhibits.join(', ')}</div>
+                      )}
+                      {issue.remainingConcerns.length > 0 && (
+                        <ul className="list-disc list-inside text-red-700">
+                          {issue.remainingConcerns.map((concern, i) => (
+                            <li key={i}>{concern}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Contract Terms */}
+          {results.contractTerms && (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Contract Terms</h2>
+                {results.contractTerms.agentIsPetitioner && (
+                  <span className="px-3 py-1 rounded-full text-xs font-medium border bg-blue-50 text-blue-700 border-blue-200">
+                    Filed by an agent
+                  </span>
+                )}
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-4 text-sm text-gray-700 mb-4">
+                <div>
+                  <div className="font-semibold text-gray-900 mb-1">Parties</div>
+                  {results.contractTerms.parties.length > 0 ? (
+                    results.contractTerms.parties.map((party, i) => (
+                      <div key={i}>{party.name} <span className="text-gray-500">({party.role})</span></div>
+                    ))
+                  ) : (
+                    <div className="text-red-600">None identified</div>
+                  )}
+                </div>
+                <div>
+                  <div className="font-semibold text-gray-900 mb-1">Term</div>
+                  <div>{results.contractTerms.termStart || 'Not stated'} to {results.contractTerms.termEnd || 'not stated'}</div>
+                  <div className="font-semibold text-gray-900 mt-3 mb-1">Compensation</div>
+                  {results.contractTerms.compensation.length > 0 ? (
+                    results.contractTerms.compensation.map((c, i) => <div key={i}>{c.description}</div>)
+                  ) : (
+                    <div className="text-red-600">Not stated</div>
+                  )}
+                </div>
+              </div>
+
+              {results.contractTerms.engagements.length > 0 && (
+                <div className="overflow-x-auto mb-4">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="py-2 pr-4 font-medium">Event</th>
+                        <th className="py-2 pr-4 font-medium">Dates</th>
+                        <th className="py-2 font-medium">Venue / Location</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.contractTerms.engagements.map((engagement, i) => (
+                        <tr key={i} className="border-b border-gray-100">
+                          <td className="py-2 pr-4 text-gray-900">{engagement.description}</td>
+                          <td className={`py-2 pr-4 ${engagement.startDate ? 'text-gray-600' : 'text-red-600'}`}>
+                            {engagement.startDate
+                              ? engagement.endDate && engagement.endDate !== engagement.startDate
+                                ? `${engagement.startDate} to ${engagement.endDate}`
+                                : engagement.startDate
+                              : 'Undated'}
+                          </td>
+                          <td className="py-2 text-gray-600">
+                            {[engagement.venue, engagement.location].filter(Boolean).join(', ') || '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {results.contractTerms.gaps.length > 0 ? (
+                <ul className="space-y-2">
+                  {results.contractTerms.gaps.map((gap, i) => (
+                    <li key={i} className="flex items-start gap-2 text-sm">
+                      {gap.severity === 'critical' ? (
+                        <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                      )}
+                      <span className="text-gray-700">
+                        <span className="font-medium text-gray-900">[{gap.citation}]</span> {gap.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle className="w-4 h-4" />
+                  The contract shows every term the visa requirements call for.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Published Material */}
+          {results.mediaEvidence && results.mediaEvidence.length > 0 && (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Published Material</h2>
+                <span className="text-sm text-gray-500">Evidence: {results.evidenceQuality.overallAssessment}</span>
+              </div>
+              <div className="grid grid-cols-4 gap-3 mb-4">
+                {[
+                  { tier: 1, label: 'Major media', count: results.evidenceQuality.tier1Count },
+                  { tier: 2, label: 'Trade', count: results.evidenceQuality.tier2Count },
+                  { tier: 3, label: 'Online', count: results.evidenceQuality.tier3Count },
+                  { tier: 4, label: 'Self-published', count: results.evidenceQuality.tier4Count },
+                ].map(({ tier, label, count }) => (
+                  <div key={tier} className="text-center p-3 bg-gray-50 rounded-xl">
+                    <div className="text-2xl font-bold text-gray-900">{count}</div>
+                    <div className="text-xs text-gray-500">Tier {tier} - {label}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Tier</th>
+                      <th className="py-2 pr-4 font-medium">Outlet</th>
+                      <th className="py-2 pr-4 font-medium">Title</th>
+                      <th className="py-2 font-medium">Date</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...results.mediaEvidence].sort((a, b) => a.tier - b.tier).map((item, i) => (
+                      <tr key={i} className="border-b border-gray-100">
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+                            item.tier <= 2
+                              ? 'bg-green-50 text-green-700 border-green-200'
+                              : item.tier === 3
+                              ? 'bg-amber-50 text-amber-700 border-amber-200'
+                              : 'bg-red-50 text-red-700 border-red-200'
+                          }`} title={item.tierSource === 'registry' ? 'From the outlet registry' : "Set by the officer"}>
+                            {item.tier}{item.tierSource === 'officer' ? '*' : ''}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-900">{item.outlet}</td>
+                        <td className="py-2 pr-4 text-gray-600">
+                          {item.title || '-'}
+                          {!item.aboutBeneficiary && <span className="text-amber-600"> (not about the beneficiary)</span>}
+                        </td>
+                        <td className="py-2 text-gray-600">{item.publishedDate || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">* Tier set by the officer - the outlet is not in the registry, or the item is paid or self-published.</p>
+            </div>
+          )}
+
+          {/* Consistency Check */}
+          {results.consistencyConflicts && results.consistencyConflicts.length > 0 && (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Consistency Check</h2>
+                <span className="text-sm text-gray-500">
+                  {results.consistencyConflicts.length} inconsistenc{results.consistencyConflicts.length === 1 ? 'y' : 'ies'}
+                </span>
+              </div>
+              <div className="space-y-4">
+                {results.consistencyConflicts.map((conflict, i) => (
+                  <div key={i} className="p-4 rounded-xl border border-gray-200">
+                    <div className="flex items-start justify-between gap-4 mb-2">
+                      <span className="font-semibold text-gray-900">{conflict.subject}</span>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap ${
+                        conflict.severity === 'High'
+                          ? 'bg-red-50 text-red-700 border-red-200'
+                          : conflict.severity === 'Medium'
+                          ? 'bg-amber-50 text-amber-700 border-amber-200'
+                          : 'bg-gray-50 text-gray-700 border-gray-200'
+                      }`}>
+                        {conflict.severity}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700 mb-2">{conflict.explanation}</p>
+                    <ul className="space-y-1 text-sm">
+                      {conflict.occurrences.map((occurrence, j) => (
+                        <li key={j} className="text-gray-600">
+                          <span className="font-medium text-gray-900">{occurrence.value}</span>
+                          {' - '}
+                          {occurrence.fileName}
+                          {occurrence.page ? `, p. ${occurrence.page}` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Support Letters */}
+          {results.letterAnalysis && results.letterAnalysis.letters.length > 0 && (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Support Letters</h2>
+              {results.letterAnalysis.boilerplateGroups.map((group, i) => (
+                <div key={i} className="flex items-start gap-2 p-3 mb-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-800">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{group.join(', ')} share near-identical language - officers give template letters little weight.</span>
+                </div>
+              ))}
+              <div className="space-y-3">
+                {[...results.letterAnalysis.letters]
+                  .sort((a, b) => b.credibilityScore - a.credibilityScore)
+                  .map((letter, i) => (
+                    <div key={i} className="p-4 rounded-xl border border-gray-200">
+                      <div className="flex items-start justify-between gap-4 mb-2">
+                        <div>
+                          <div className="font-semibold text-gray-900">{letter.author}</div>
+                          <div className="text-sm text-gray-500">
+                            {[letter.title, letter.affiliation].filter(Boolean).join(', ') || letter.fileName}
+                          </div>
+                        </div>
+                        <span className={`text-lg font-bold ${getScoreColor(letter.credibilityScore)}`}>
+                          {letter.credibilityScore}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2 text-xs mb-2">
+                        <span className={`px-2 py-0.5 rounded-full border ${
+                          letter.relationship === 'Independent'
+                            ? 'bg-green-50 text-green-700 border-green-200'
+                            : 'bg-amber-50 text-amber-700 border-amber-200'
+                        }`}>
+                          {letter.relationship}
+                        </span>
+                        <span className="px-2 py-0.5 rounded-full border bg-gray-50 text-gray-700 border-gray-200">
+                          {letter.specificity}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700">{letter.relationshipDetail}</p>
+                      {letter.concerns.length > 0 && (
+                        <ul className="list-disc list-inside text-sm text-red-700 mt-2">
+                          {letter.concerns.map((concern, j) => (
+                            <li key={j}>{concern}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {/* Exhibit Index */}
+          {exhibitIndex && exhibitIndex.exhibits.length > 0 && (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Exhibit Index</h2>
+                <button
+                  onClick={rebuildExhibitIndex}
+                  disabled={isIndexing}
+                  className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {isIndexing && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Re-check
+                </button>
+              </div>
+
+              {exhibitIndex.issues.length > 0 ? (
+                <ul className="space-y-2 mb-4">
+                  {exhibitIndex.issues.map((issue, i) => (
+                    <li key={i} className="flex items-start gap-2 text-sm">
+                      {issue.type === 'missing_exhibit' ? (
+                        <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                      )}
+                      <span className="text-gray-700">{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-green-700 mb-4">
+                  <CheckCircle className="w-4 h-4" />
+                  {exhibitIndex.briefFiles.length > 0
+                    ? 'Every exhibit cited in the brief was found, and every exhibit is cited.'
+                    : 'No legal brief was found to cross-check against.'}
+                </p>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Exhibit</th>
+                      <th className="py-2 pr-4 font-medium">File</th>
+                      <th className="py-2 pr-4 font-medium">Pages</th>
+                      <th className="py-2 font-medium">Cited</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {exhibitIndex.exhibits.map((exhibit, i) => (
+                      <tr key={i} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-900">
+                          <span className="font-medium">{exhibit.label}</span>
+                          {exhibit.title && <span className="text-gray-500"> - {exhibit.title}</span>}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600">{exhibit.fileName}</td>
+                        <td className="py-2 pr-4 text-gray-600">
+                          {exhibit.packetStartPage === exhibit.packetEndPage
+                            ? exhibit.packetStartPage
+                            : `${exhibit.packetStartPage}-${exhibit.packetEndPage}`}
+                        </td>
+                        <td className={`py-2 ${exhibit.citationCount === 0 ? 'text-amber-600' : 'text-gray-600'}`}>
+                          {exhibit.citationCount}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* RFE Predictions */}
           {results.rfePredictions.length > 0 && (
             <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Upload,
@@ -12,9 +12,18 @@ import {
   CheckCircle,
 } from 'lucide-react';
 import { uploadFileSimple } from '@/app/lib/database/supabase-client';
+import { VisaType } from '@/app/lib/types';
+import { VISA_REGISTRY, VISA_TYPES } from '@/app/lib/data/visa-registry';
+import type { CriterionTemplate, ComparableEvidenceTemplate } from '@/app/lib/data/criterion-templates';
 
 type DocumentType = 'full_petition' | 'rfe_response' | 'exhibit_packet' | 'contract_deal_memo';
-type VisaType = 'O-1A' | 'O-1B' | 'P-1A' | 'EB-1A';
+
+interface VisaTemplates {
+  visaType: VisaType;
+  minimumCriteria: number;
+  criteria: CriterionTemplate[];
+  comparableEvidence: ComparableEvidenceTemplate | null;
+}
 
 interface UploadedFile {
   file: File;
@@ -30,10 +39,30 @@ export default function NewScoringPage() {
   const [documentType, setDocumentType] = useState<DocumentType>('full_petition');
   const [visaType, setVisaType] = useState<VisaType>('O-1A');
   const [beneficiaryName, setBeneficiaryName] = useState('');
+  const [criterionPasses, setCriterionPasses] = useState(false);
+  const [ensembleRuns, setEnsembleRuns] = useState(1);
+  const [ensembleMixProviders, setEnsembleMixProviders] = useState(false);
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isScoring, setIsScoring] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<VisaTemplates | null>(null);
+
+  // Evidence guidance for the selected visa type
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/templates?visaType=${encodeURIComponent(visaType)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setTemplates(data?.visaTypes?.[0] || null);
+      })
+      .catch(() => {
+        if (!cancelled) setTemplates(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visaType]);
 
   const documentTypes: { value: DocumentType; label: string; description: string }[] = [
     { value: 'full_petition', label: 'Full Petition', description: 'Complete visa petition package' },
@@ -42,12 +71,10 @@ export default function NewScoringPage() {
     { value: 'contract_deal_memo', label: 'Contract/Deal Memo', description: 'Employment agreements and deal memos' },
   ];
 
-  const visaTypes: { value: VisaType; label: string }[] = [
-    { value: 'O-1A', label: 'O-1A (Extraordinary Ability)' },
-    { value: 'O-1B', label: 'O-1B (Arts/Entertainment)' },
-    { value: 'P-1A', label: 'P-1A (Internationally Recognized Athlete)' },
-    { value: 'EB-1A', label: 'EB-1A (Extraordinary Ability Green Card)' },
-  ];
+  const visaTypes: { value: VisaType; label: string }[] = VISA_TYPES.map((value) => ({
+    value,
+    label: VISA_REGISTRY[value].label,
+  }));
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
@@ -133,6 +160,7 @@ export default function NewScoringPage() {
           visaType,
           beneficiaryName: beneficiaryName || undefined,
           files: uploadedFiles,
+          options: { criterionPasses, ensembleRuns, ensembleMixProviders },
         }),
       });
 
@@ -209,6 +237,44 @@ export default function NewScoringPage() {
             </button>
           ))}
         </div>
+
+        {templates?.visaType === visaType && templates.criteria.length > 0 && (
+          <details className="mt-4 pt-4 border-t border-gray-100">
+            <summary className="text-sm font-medium text-blue-700 cursor-pointer">
+              What the officer looks for ({templates.minimumCriteria} of {templates.criteria.length} criteria required)
+            </summary>
+            <div className="mt-3 space-y-3">
+              {templates.criteria.map((criterion) => (
+                <div key={criterion.number} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="text-sm font-medium text-gray-900">
+                    {criterion.number}. {criterion.name}
+                  </div>
+                  <div className="text-sm text-gray-600 mt-1">
+                    Evidence: {criterion.evidenceTypes.join(', ')}
+                  </div>
+                  <ul className="text-sm text-gray-500 mt-1 list-disc list-inside">
+                    {criterion.tips.map((tip) => (
+                      <li key={tip}>{tip}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {templates.comparableEvidence && (
+                <div className="p-3 bg-blue-50 rounded-lg">
+                  <div className="text-sm font-medium text-gray-900">
+                    Comparable evidence ({templates.comparableEvidence.citation})
+                  </div>
+                  <div className="text-sm text-gray-600 mt-1">{templates.comparableEvidence.description}</div>
+                  <ul className="text-sm text-gray-500 mt-1 list-disc list-inside">
+                    {templates.comparableEvidence.tips.map((tip) => (
+                      <li key={tip}>{tip}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </details>
+        )}
       </div>
 
       {/* Beneficiary Name */}
@@ -223,6 +289,62 @@ export default function NewScoringPage() {
         />
       </div>
 
+      {/* Scoring Options */}
+      <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-6">
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={criterionPasses}
+            onChange={(e) => {
+              setCriterionPasses(e.target.checked);
+              // The criterion review replaces the criteria scores an ensemble would compare
+              if (e.target.checked) setEnsembleRuns(1);
+            }}
+            className="mt-1 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <div>
+            <div className="font-medium text-gray-900">Detailed criterion review</div>
+            <div className="text-sm text-gray-500">
+              The officer reviews each criterion separately and quotes the exhibit passages behind every finding. Takes longer.
+            </div>
+          </div>
+        </label>
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <div className="font-medium text-gray-900">Independent evaluations</div>
+          <div className="text-sm text-gray-500 mb-3">
+            Score the petition several times and report how stable the score is, with a confidence interval.
+            {criterionPasses && ' Not available with the detailed criterion review.'}
+          </div>
+          <div className="flex items-center gap-2">
+            {[1, 3, 5].map((runs) => (
+              <button
+                key={runs}
+                onClick={() => setEnsembleRuns(runs)}
+                disabled={criterionPasses && runs > 1}
+                className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                  ensembleRuns === runs
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                }`}
+              >
+                {runs === 1 ? 'Single run' : `${runs} runs`}
+              </button>
+            ))}
+          </div>
+          {ensembleRuns > 1 && (
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={ensembleMixProviders}
+                onChange={(e) => setEnsembleMixProviders(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Alternate between Claude and OpenAI officers
+            </label>
+          )}
+        </div>
+      </div>
+
       {/* File Upload */}
       <div className="bg-white rounded-2xl border border-gray-200 p-6 mb-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload Documents</h2>
@@ -3,23 +3,102 @@
  *
  * Allows scoring multiple petitions in one request.
  * Requires paid plan with sufficient credits or active subscription.
+ *
+ * Each petition becomes its own scoring session; the sessions are fanned
+ * out to Inngest as scoring/requested events (concurrency is limited on
+ * the scoring function) and linked by a batch_jobs record for polling.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createFingerprint, hasFreeScoringAvailable, needsPayment } from '@/app/lib/stripe/usage-tracker';
-import { isSupabaseConfigured } from '@/app/lib/database/supabase';
+import { inngest } from '@/app/lib/inngest/client';
+import { createFingerprint, needsBatchPayment, recordScoringUsage } from '@/app/lib/stripe/usage-tracker';
+import { detectDocumentCategory } from '@/app/lib/ai/mistral-ocr';
+import { getBatchJobSummary } from '@/app/lib/batch/batch-jobs';
+import { VISA_TYPES, isVisaType, getVisaDefinition } from '@/app/lib/data/visa-registry';
+import { DocumentType } from '@/app/lib/types';
+import {
+  createBatchJob,
+  updateBatchJob,
+  createScoringSession,
+  createUploadedFile,
+  updateUploadedFile,
+  isSupabaseConfigured,
+} from '@/app/lib/database/supabase';
+
+const MAX_BATCH_SIZE = 10;
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Check if Inngest is configured
+function isInngestConfigured(): boolean {
+  return process.env.NODE_ENV === 'development' || !!process.env.INNGEST_SIGNING_KEY;
+}
+
+interface BatchPetition {
+  documentType: string;
+  visaType: string;
+  beneficiaryName?: string;
+  documentContent?: string;
+  files?: { filename: string; fileType?: string; fileSize?: number; storagePath: string }[];
+}
+
+/**
+ * Validate one petition in the batch, returning an error message or null
+ */
+function validatePetition(petition: BatchPetition, index: number): string | null {
+  const validDocTypes = ['full_petition', 'rfe_response', 'exhibit_packet', 'contract_deal_memo'];
+
+  if (!petition || typeof petition !== 'object') {
+    return `sessions[${index}] must be an object`;
+  }
+  if (!isVisaType(petition.visaType)) {
+    return `sessions[${index}].visaType must be one of: ${VISA_TYPES.join(', ')}`;
+  }
+  if (!validDocTypes.includes(petition.documentType)) {
+    return `sessions[${index}].documentType must be one of: ${validDocTypes.join(', ')}`;
+  }
+  if (!getVisaDefinition(petition.visaType).documentTypes.includes(petition.documentType as DocumentType)) {
+    return `sessions[${index}].documentType ${petition.documentType} is not scored for ${petition.visaType}`;
+  }
+
+  const hasContent = typeof petition.documentContent === 'string' && petition.documentContent.trim().length > 0;
+  const hasFiles = Array.isArray(petition.files) && petition.files.length > 0;
+  if (!hasContent && !hasFiles) {
+    return `sessions[${index}] needs documentContent or uploaded files`;
+  }
+  if (hasFiles && petition.files!.some((f) => !f.filename || !f.storagePath)) {
+    return `sessions[${index}].files entries need filename and storagePath`;
+  }
+
+  return null;
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sessions } = body; // Array of { documentType, visaType, documentContent }
+    const { sessions } = body; // Array of { documentType, visaType, beneficiaryName?, documentContent? | files? }
 
     if (!Array.isArray(sessions) || sessions.length === 0) {
       return NextResponse.json({ error: 'sessions array is required' }, { status: 400 });
     }
 
-    if (sessions.length > 10) {
-      return NextResponse.json({ error: 'Maximum 10 sessions per batch' }, { status: 400 });
+    if (sessions.length > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `Maximum ${MAX_BATCH_SIZE} sessions per batch` }, { status: 400 });
+    }
+
+    for (let i = 0; i < sessions.length; i++) {
+      const validationError = validatePetition(sessions[i], i);
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+    }
+
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+    }
+
+    if (!isInngestConfigured()) {
+      return NextResponse.json({ error: 'Background processing not configured' }, { status: 503 });
     }
 
     // Check payment status
@@ -27,7 +106,7 @@ export async function POST(request: NextRequest) {
     const userAgent = request.headers.get('user-agent') || 'unknown';
     const fingerprint = createFingerprint(ip, userAgent);
 
-    const paymentCheck = await needsPayment(fingerprint);
+    const paymentCheck = await needsBatchPayment(fingerprint, sessions.length);
 
     if (paymentCheck.needsPayment) {
       return NextResponse.json({
@@ -38,18 +117,85 @@ export async function POST(request: NextRequest) {
       }, { status: 402 });
     }
 
-    // For now, return a placeholder response
-    // Full implementation would:
-    // 1. Create sessions for each petition
-    // 2. Queue them in Inngest for background processing
-    // 3. Return job IDs for polling
+    // Create the batch record, then one scoring session per petition
+    const batchJob = await createBatchJob({
+      fingerprint,
+      totalSessions: sessions.length,
+    });
+
+    const sessionIds: string[] = [];
+    const events = [];
+
+    for (const petition of sessions as BatchPetition[]) {
+      const session = await createScoringSession({
+        documentType: petition.documentType,
+        visaType: petition.visaType,
+        beneficiaryName: petition.beneficiaryName || undefined,
+        batchJobId: batchJob.id,
+      });
+      sessionIds.push(session.id);
+      await recordScoringUsage(fingerprint, session.id);
+
+      // Pasted content is stored as an already-extracted text file
+      if (petition.documentContent) {
+        const fileRecord = await createUploadedFile({
+          sessionId: session.id,
+          filename: 'batch-document.txt',
+          fileType: 'text/plain',
+          fileSize: Buffer.byteLength(petition.documentContent, 'utf-8'),
+        });
+
+        await updateUploadedFile(fileRecord.id, {
+          status: 'completed',
+          extractedText: petition.documentContent,
+          wordCount: petition.documentContent.split(/\s+/).filter((w) => w.length > 0).length,
+          pageCount: Math.ceil(petition.documentContent.split(/\s+/).length / 500),
+          documentCategory: detectDocumentCategory('batch-document.txt', petition.documentContent),
+        });
+      }
+
+      // Files already uploaded to Supabase Storage by the browser
+      for (const file of petition.files || []) {
+        const fileRecord = await createUploadedFile({
+          sessionId: session.id,
+          filename: file.filename,
+          fileType: file.fileType,
+          fileSize: file.fileSize,
+        });
+
+        await updateUploadedFile(fileRecord.id, {
+          status: 'pending_extraction',
+          storagePath: file.storagePath,
+          documentCategory: detectDocumentCategory(file.filename, ''),
+        });
+      }
+
+      events.push({
+        name: 'scoring/requested' as const,
+        data: {
+          sessionId: session.id,
+          documentType: petition.documentType,
+          visaType: petition.visaType,
+          beneficiaryName: petition.beneficiaryName,
+          batchJobId: batchJob.id,
+        },
+      });
+    }
+
+    await updateBatchJob(batchJob.id, { sessionIds });
+
+    // Fan out - the scoring function's concurrency limit paces the batch
+    await inngest.send(events);
+
+    console.log(`[Batch] Queued batch ${batchJob.id} with ${sessionIds.length} sessions`);
 
     return NextResponse.json({
       success: true,
-      message: 'Batch scoring queued',
-      jobCount: sessions.length,
-      estimatedTime: `${sessions.length * 2} minutes`,
-      note: 'Full batch processing coming soon. Each petition will be scored sequentially.',
+      jobId: batchJob.id,
+      status: 'queued',
+      jobCount: sessionIds.length,
+      sessionIds,
+      message: 'Batch scoring queued. Poll /api/batch?jobId=... for progress.',
     });
   } catch (error) {
     console.error('[Batch] Error:', error);
@@ -70,10 +216,27 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
   }
 
-  // Placeholder - would check actual job status in production
-  return NextResponse.json({
-    jobId,
-    status: 'pending',
-    message: 'Batch scoring feature coming soon',
-  });
+  if (!uuidRegex.test(jobId)) {
+    return NextResponse.json({ error: 'Invalid jobId format. Must be a valid UUID.' }, { status: 400 });
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const summary = await getBatchJobSummary(jobId);
+
+    if (!summary) {
+      return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[Batch] Status check failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to get batch status' },
+      { status: 500 }
+    );
+  }
 }
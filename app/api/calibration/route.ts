@@ -0,0 +1,70 @@
+/**
+ * Calibration API Route
+ *
+ * Reliability report for each visa type - the officer's predicted approval
+ * and RFE rates against the decisions recorded through /api/outcomes -
+ * and the score-to-probability curves fitted from them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/app/lib/inngest/client';
+import { runCalibration, toCalibrationCurve } from '@/app/lib/calibration/score-calibration';
+import { getCalibrationCurves, isSupabaseConfigured } from '@/app/lib/database/supabase';
+import { VISA_CRITERIA } from '@/app/lib/types';
+
+// Check if Inngest is configured (has signing key in production)
+function isInngestConfigured(): boolean {
+  return process.env.NODE_ENV === 'development' || !!process.env.INNGEST_SIGNING_KEY;
+}
+
+/**
+ * GET: Fitted curves and reliability reports, optionally for one visa type
+ */
+export async function GET(request: NextRequest) {
+  const visaType = request.nextUrl.searchParams.get('visaType');
+
+  if (visaType && !(visaType in VISA_CRITERIA)) {
+    return NextResponse.json(
+      { error: `visaType must be one of: ${Object.keys(VISA_CRITERIA).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const rows = await getCalibrationCurves(visaType || undefined);
+    return NextResponse.json({ curves: rows.map(toCalibrationCurve) });
+  } catch (error) {
+    console.error('[Calibration] Get curves failed:', error);
+    return NextResponse.json({ error: 'Failed to get calibration curves' }, { status: 500 });
+  }
+}
+
+/**
+ * POST: Refit every curve from the recorded outcomes
+ */
+export async function POST() {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  if (isInngestConfigured()) {
+    try {
+      await inngest.send({ name: 'calibration/requested', data: {} });
+      return NextResponse.json({ success: true, status: 'queued' }, { status: 202 });
+    } catch (inngestError) {
+      console.error('[Calibration] Inngest failed, fitting synchronously:', inngestError);
+    }
+  }
+
+  try {
+    const curves = await runCalibration();
+    return NextResponse.json({ success: true, status: 'completed', curves });
+  } catch (error) {
+    console.error('[Calibration] Refit failed:', error);
+    return NextResponse.json({ error: 'Failed to fit calibration curves' }, { status: 500 });
+  }
+}
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateOfficerChatResponse } from '@/app/lib/scoring/officer-scorer';
+import { withAICallLog } from '@/app/lib/ai/ai-router';
 import {
   getScoringSession,
   getScoringResults,
@@ -12,7 +13,7 @@ import {
   saveChatMessage,
   isSupabaseConfigured,
 } from '@/app/lib/database/supabase';
-import { VisaType } from '@/app/lib/types';
+import { VisaType, RFEIssueAssessment, ContractTerms, MediaEvidenceItem, LetterAnalysis, ConsistencyConflict } from '@/app/lib/types';
 
 export async function POST(request: NextRequest) {
   try {
@@ -47,7 +48,7 @@ SCORING SUMMARY:
 - Approval Probability: ${results.approval_probability}%
 - RFE Probability: ${results.rfe_probability}%
 - Denial Risk: ${results.denial_risk}%
-
+${results.ensemble ? `- Score Stability: ${results.ensemble.runs} independent evaluations, 95% CI ${results.ensemble.confidenceInterval.low}-${results.ensemble.confidenceInterval.high}, officer disagreement ${results.ensemble.disagreement}\n` : ''}${results.final_merits ? `- Final Merits (Kazarian step 2): ${results.final_merits.outcome} (${results.final_merits.score}/100) - ${results.final_merits.rationale}\n` : ''}${results.rfe_issues ? `- RFE Issues: ${(results.rfe_issues as RFEIssueAssessment[]).map((i) => `#${i.issueNumber} ${i.topic}: ${i.status}`).join('; ')}\n` : ''}${results.contract_terms ? `- Contract Gaps: ${(results.contract_terms as ContractTerms).gaps.map((g) => g.message).join('; ') || 'None'}\n` : ''}${results.media_evidence ? `- Published Material: ${(results.media_evidence as MediaEvidenceItem[]).map((m) => `${m.outlet} (Tier ${m.tier})`).join('; ') || 'None found'}\n` : ''}${results.letter_analysis ? `- Support Letters: ${(results.letter_analysis as LetterAnalysis).letters.map((l) => `${l.author} (${l.relationship}, credibility ${l.credibilityScore}/100)`).join('; ')}${(results.letter_analysis as LetterAnalysis).boilerplateGroups.length > 0 ? ' - some letters share template language' : ''}\n` : ''}${results.consistency_conflicts?.length ? `- Record Inconsistencies: ${(results.consistency_conflicts as ConsistencyConflict[]).map((c) => `${c.subject} (${c.severity})`).join('; ')}\n` : ''}
 KEY WEAKNESSES:
 ${(results.weaknesses as string[])?.slice(0, 5).map((w: string) => `- ${w}`).join('\n') || 'None identified'}
 
@@ -74,12 +75,12 @@ ${(results.rfe_predictions as Array<{topic: string; probability: number}>)?.slic
     }
 
     // Generate officer response
-    const response = await generateOfficerChatResponse(
+    const response = await withAICallLog(sessionId, () => generateOfficerChatResponse(
       visaType,
       scoringSummary,
       chatHistory,
       message
-    );
+    ));
 
     // Save assistant response
     if (isSupabaseConfigured()) {
@@ -0,0 +1,100 @@
+/**
+ * Exhibits API Route
+ *
+ * Exhibit table of contents and brief cross-reference check for a
+ * session. The index is built during background scoring; POST rebuilds
+ * it from the session's files, e.g. after a corrected file is uploaded.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildExhibitIndex } from '@/app/lib/exhibits/exhibit-indexer';
+import {
+  getFilesForSession,
+  getExhibitIndex,
+  saveExhibitIndex,
+  isSupabaseConfigured,
+} from '@/app/lib/database/supabase';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toResponse(row: {
+  session_id: string;
+  exhibits: unknown;
+  cited_labels: string[];
+  brief_files: string[];
+  issues: unknown;
+  updated_at: string;
+}) {
+  return {
+    sessionId: row.session_id,
+    exhibits: row.exhibits,
+    citedLabels: row.cited_labels,
+    briefFiles: row.brief_files,
+    issues: row.issues,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * GET: Stored exhibit index for a session
+ */
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  if (!sessionId || !uuidRegex.test(sessionId)) {
+    return NextResponse.json({ error: 'Valid sessionId is required' }, { status: 400 });
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const index = await getExhibitIndex(sessionId);
+    if (!index) {
+      return NextResponse.json({ error: 'No exhibit index for this session yet' }, { status: 404 });
+    }
+
+    return NextResponse.json(toResponse(index));
+  } catch (error) {
+    console.error('[Exhibits] Get index failed:', error);
+    return NextResponse.json({ error: 'Failed to get exhibit index' }, { status: 500 });
+  }
+}
+
+/**
+ * POST: Rebuild the exhibit index from the session's files
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId } = await request.json();
+
+    if (!sessionId || !uuidRegex.test(sessionId)) {
+      return NextResponse.json({ error: 'Valid sessionId is required' }, { status: 400 });
+    }
+
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+    }
+
+    const files = await getFilesForSession(sessionId);
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No files found for this session' }, { status: 404 });
+    }
+
+    const index = buildExhibitIndex(
+      files.map((f: { filename: string; document_category?: string; extracted_text?: string; page_count?: number }) => ({
+        fileName: f.filename,
+        category: f.document_category || 'Document',
+        text: f.extracted_text || '',
+        pageCount: f.page_count || undefined,
+      }))
+    );
+
+    const saved = await saveExhibitIndex(sessionId, index);
+    return NextResponse.json(toResponse(saved));
+  } catch (error) {
+    console.error('[Exhibits] Rebuild index failed:', error);
+    return NextResponse.json({ error: 'Failed to build exhibit index' }, { status: 500 });
+  }
+}
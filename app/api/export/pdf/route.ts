@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getScoringSession, getScoringResults, isSupabaseConfigured } from '@/app/lib/database/supabase';
+import { FinalMeritsDetermination, RFEIssueAssessment, ContractTerms, MediaEvidenceItem, LetterAnalysis, ConsistencyConflict } from '@/app/lib/types';
 
 // UUID validation
 const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -129,6 +130,13 @@ function generatePDFHTML(session: Record<string, unknown>, results: Record<strin
     officerConcerns: string[];
   }> || [];
 
+  const finalMerits = results.final_merits as FinalMeritsDetermination | null;
+  const rfeIssues = results.rfe_issues as RFEIssueAssessment[] | null || [];
+  const contractTerms = results.contract_terms as ContractTerms | null;
+  const mediaEvidence = results.media_evidence as MediaEvidenceItem[] | null || [];
+  const letterAnalysis = results.letter_analysis as LetterAnalysis | null;
+  const consistencyConflicts = results.consistency_conflicts as ConsistencyConflict[] | null || [];
+
   const rfePredictions = results.rfe_predictions as Array<{
     topic: string;
     probability: number;
@@ -235,6 +243,95 @@ function generatePDFHTML(session: Record<string, unknown>, results: Record<strin
     `).join('')}
   </div>
 
+  ${finalMerits ? `
+  <div class="section">
+    <h2>Final Merits Determination (Kazarian Step 2)</h2>
+    <div class="criterion">
+      <div class="criterion-header">
+        <span class="criterion-name">Criteria met: ${finalMerits.criteriaMet} of ${finalMerits.criteriaRequired} required</span>
+        <span class="criterion-score">${finalMerits.score}/100 - ${finalMerits.outcome}</span>
+      </div>
+      <div class="concerns"><strong>Sustained acclaim:</strong> ${finalMerits.sustainedAcclaim}</div>
+      <div class="concerns"><strong>Top of the field:</strong> ${finalMerits.topOfField}</div>
+      <div class="concerns"><strong>Totality of the evidence:</strong> ${finalMerits.totalityOfEvidence}</div>
+      <div class="concerns"><strong>Determination:</strong> ${finalMerits.rationale}</div>
+    </div>
+  </div>
+  ` : ''}
+
+  ${rfeIssues.length > 0 ? `
+  <div class="section">
+    <h2>RFE Issue Checklist</h2>
+    ${rfeIssues.map(i => `
+      <div class="criterion">
+        <div class="criterion-header">
+          <span class="criterion-name">Issue ${i.issueNumber}: ${i.topic}</span>
+          <span class="criterion-score ${getRatingClass(i.status)}">${i.score}/100 - ${i.status}</span>
+        </div>
+        <div class="concerns"><strong>Requested:</strong> ${i.request}</div>
+        <div class="concerns"><strong>Response:</strong> ${i.responseSummary}</div>
+        ${i.matchedExhibits.length > 0 ? `<div class="concerns"><strong>Exhibits:</strong> ${i.matchedExhibits.join(', ')}</div>` : ''}
+        ${i.remainingConcerns.length > 0 ? `<div class="concerns"><strong>Still outstanding:</strong> ${i.remainingConcerns.join('; ')}</div>` : ''}
+      </div>
+    `).join('')}
+  </div>
+  ` : ''}
+
+  ${contractTerms ? `
+  <div class="section">
+    <h2>Contract Terms</h2>
+    <div class="criterion">
+      <div class="concerns"><strong>Term:</strong> ${contractTerms.termStart || 'not stated'} to ${contractTerms.termEnd || 'not stated'}</div>
+      <div class="concerns"><strong>Parties:</strong> ${contractTerms.parties.map(p => `${p.name} (${p.role})`).join(', ') || 'None identified'}</div>
+      <div class="concerns"><strong>Compensation:</strong> ${contractTerms.compensation.map(c => c.description).join('; ') || 'Not stated'}</div>
+      <div class="concerns"><strong>Engagements:</strong> ${contractTerms.engagements.length} listed${contractTerms.agentIsPetitioner ? ' (filed by an agent)' : ''}</div>
+    </div>
+    ${contractTerms.gaps.map(g => `<div class="list-item"><span class="list-icon ${g.severity === 'critical' ? 'icon-red' : 'icon-amber'}">•</span> [${g.citation}] ${g.message}</div>`).join('')}
+  </div>
+  ` : ''}
+
+  ${mediaEvidence.length > 0 ? `
+  <div class="section">
+    <h2>Published Material by Tier</h2>
+    ${[...mediaEvidence].sort((a, b) => a.tier - b.tier).map(m => `
+      <div class="list-item"><span class="list-icon ${m.tier <= 2 ? 'icon-green' : m.tier === 3 ? 'icon-amber' : 'icon-red'}">${m.tier}</span> ${m.outlet}${m.title ? ` - ${m.title}` : ''}${m.publishedDate ? ` (${m.publishedDate})` : ''}${m.aboutBeneficiary ? '' : ' - not about the beneficiary'}</div>
+    `).join('')}
+  </div>
+  ` : ''}
+
+  ${consistencyConflicts.length > 0 ? `
+  <div class="section">
+    <h2>Consistency Check</h2>
+    ${consistencyConflicts.map(c => `
+      <div class="criterion">
+        <div class="criterion-header">
+          <span class="criterion-name">${c.subject}</span>
+          <span class="criterion-score ${c.severity === 'Low' ? 'rating-adequate' : 'rating-weak'}">${c.severity}</span>
+        </div>
+        <div class="concerns">${c.explanation}</div>
+        ${c.occurrences.map(o => `<div class="concerns"><strong>${o.value}</strong> - ${o.fileName}${o.page ? ` p. ${o.page}` : ''}</div>`).join('')}
+      </div>
+    `).join('')}
+  </div>
+  ` : ''}
+
+  ${letterAnalysis && letterAnalysis.letters.length > 0 ? `
+  <div class="section">
+    <h2>Support Letters</h2>
+    ${letterAnalysis.boilerplateGroups.map(g => `<div class="list-item"><span class="list-icon icon-red">!</span> ${g.join(', ')} share near-identical language</div>`).join('')}
+    ${letterAnalysis.letters.map(l => `
+      <div class="criterion">
+        <div class="criterion-header">
+          <span class="criterion-name">${l.author}${l.affiliation ? `, ${l.affiliation}` : ''}</span>
+          <span class="criterion-score">${l.credibilityScore}/100</span>
+        </div>
+        <div class="concerns"><strong>${l.relationship}, ${l.specificity.toLowerCase()}:</strong> ${l.relationshipDetail}</div>
+        ${l.concerns.length > 0 ? `<div class="concerns"><strong>Concerns:</strong> ${l.concerns.join('; ')}</div>` : ''}
+      </div>
+    `).join('')}
+  </div>
+  ` : ''}
+
   ${rfePredictions.length > 0 ? `
   <div class="section">
     <h2>RFE Predictions</h2>
@@ -294,8 +391,8 @@ function getScoreClass(score: number): string {
 }
 
 function getRatingClass(rating: string): string {
-  if (rating === 'Strong' || rating === 'Approve') return 'rating-strong';
-  if (rating === 'Adequate' || rating === 'RFE Likely') return 'rating-adequate';
+  if (rating === 'Strong' || rating === 'Approve' || rating === 'Resolved') return 'rating-strong';
+  if (rating === 'Adequate' || rating === 'RFE Likely' || rating === 'Partially Resolved') return 'rating-adequate';
   return 'rating-weak';
 }
 
@@ -0,0 +1,137 @@
+/**
+ * Outcomes API Route
+ *
+ * Records the USCIS decisions received for a scored session - approval,
+ * RFE, NOID or denial, with the notice date - which the calibration job
+ * fits score-to-probability curves from.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/app/lib/inngest/client';
+import {
+  getScoringSession,
+  addCaseOutcome,
+  getOutcomesForSession,
+  isSupabaseConfigured,
+} from '@/app/lib/database/supabase';
+import { AdjudicationDecision, CaseOutcome } from '@/app/lib/types';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+const DECISIONS: AdjudicationDecision[] = ['approved', 'rfe', 'noid', 'denied'];
+
+// Check if Inngest is configured (has signing key in production)
+function isInngestConfigured(): boolean {
+  return process.env.NODE_ENV === 'development' || !!process.env.INNGEST_SIGNING_KEY;
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && dateRegex.test(value) && !isNaN(Date.parse(value));
+}
+
+function toOutcome(row: {
+  id: number;
+  session_id: string;
+  decision: AdjudicationDecision;
+  decision_date: string;
+  receipt_date?: string | null;
+  notes?: string | null;
+  created_at: string;
+}): CaseOutcome {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    decision: row.decision,
+    decisionDate: row.decision_date,
+    receiptDate: row.receipt_date || undefined,
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * GET: Outcomes recorded for a session, oldest notice first
+ */
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  if (!sessionId || !uuidRegex.test(sessionId)) {
+    return NextResponse.json({ error: 'Valid sessionId is required' }, { status: 400 });
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const outcomes = await getOutcomesForSession(sessionId);
+    return NextResponse.json({ sessionId, outcomes: outcomes.map(toOutcome) });
+  } catch (error) {
+    console.error('[Outcomes] Get outcomes failed:', error);
+    return NextResponse.json({ error: 'Failed to get outcomes' }, { status: 500 });
+  }
+}
+
+/**
+ * POST: Record a decision for a session and queue a calibration refit
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, decision, decisionDate, receiptDate, notes } = await request.json();
+
+    if (!sessionId || !uuidRegex.test(sessionId)) {
+      return NextResponse.json({ error: 'Valid sessionId is required' }, { status: 400 });
+    }
+
+    if (!DECISIONS.includes(decision)) {
+      return NextResponse.json(
+        { error: `decision must be one of: ${DECISIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidDate(decisionDate)) {
+      return NextResponse.json({ error: 'decisionDate is required (YYYY-MM-DD)' }, { status: 400 });
+    }
+
+    if (receiptDate !== undefined && !isValidDate(receiptDate)) {
+      return NextResponse.json({ error: 'receiptDate must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    if (receiptDate && receiptDate > decisionDate) {
+      return NextResponse.json({ error: 'receiptDate cannot be after decisionDate' }, { status: 400 });
+    }
+
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+    }
+
+    try {
+      await getScoringSession(sessionId);
+    } catch {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const outcome = await addCaseOutcome({
+      sessionId,
+      decision,
+      decisionDate,
+      receiptDate,
+      notes: typeof notes === 'string' ? notes.slice(0, 2000) : undefined,
+    });
+
+    // The curves are refit nightly anyway, so a failed send is not an error
+    if (isInngestConfigured()) {
+      try {
+        await inngest.send({ name: 'calibration/requested', data: {} });
+      } catch (inngestError) {
+        console.error('[Outcomes] Failed to queue calibration refit:', inngestError);
+      }
+    }
+
+    return NextResponse.json(toOutcome(outcome), { status: 201 });
+  } catch (error) {
+    console.error('[Outcomes] Record outcome failed:', error);
+    return NextResponse.json({ error: 'Failed to record outcome' }, { status: 500 });
+  }
+}
@@ -7,15 +7,22 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { inngest } from '@/app/lib/inngest/client';
-import { runOfficerScoring } from '@/app/lib/scoring/officer-scorer';
+import { runOfficerScoring, parseScoringOptions, getScoringOptionsError } from '@/app/lib/scoring/officer-scorer';
 import {
   getScoringSession,
   getFilesForSession,
   updateScoringSession,
   saveScoringResults,
+  getAICallsForSession,
+  getCalibrationCurves,
   isSupabaseConfigured,
 } from '@/app/lib/database/supabase';
-import { DocumentType, VisaType } from '@/app/lib/types';
+import { combineDocuments, ScoringDocument } from '@/app/lib/scoring/map-reduce-scorer';
+import { createProgressReporter } from '@/app/lib/scoring/progress-reporter';
+import { createCacheScope, withCacheScope, formatCacheStats } from '@/app/lib/cache/content-cache';
+import { withAICallLog } from '@/app/lib/ai/ai-router';
+import { calibrateProbabilities, toCalibrationCurve } from '@/app/lib/calibration/score-calibration';
+import { DocumentType, VisaType, AICallRecord } from '@/app/lib/types';
 
 // Check if Inngest is configured (has signing key in production)
 function isInngestConfigured(): boolean {
@@ -26,6 +33,9 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { sessionId, documentContent, useBackground = true } = body;
+    const options = parseScoringOptions(body.options);
+    // Re-run OCR and every AI call instead of reusing cached output
+    if (body.bypassCache === true) options.bypassCache = true;
 
     if (!sessionId) {
       return NextResponse.json(
@@ -34,6 +44,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const optionsError = getScoringOptionsError(options);
+    if (optionsError) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+
     // Get session info
     let session: {
       document_type: string;
@@ -71,6 +86,7 @@ export async function POST(request: NextRequest) {
             documentType,
             visaType,
             beneficiaryName,
+            options,
           },
         });
 
@@ -78,7 +94,7 @@ export async function POST(request: NextRequest) {
           success: true,
           sessionId,
           status: 'queued',
-          message: 'Scoring started in background. Poll /api/score?sessionId=... for progress.',
+          message: 'Scoring started in background. Stream /api/score/stream?sessionId=... or poll /api/score?sessionId=... for progress.',
           background: true,
         });
       } catch (inngestError) {
@@ -100,21 +116,33 @@ export async function POST(request: NextRequest) {
     // Synchronous processing (fallback or explicit request)
     console.log(`[Score] Running synchronous scoring for session ${sessionId}`);
 
-    let files: { extracted_text?: string; document_category?: string }[] = [];
+    let files: { filename?: string; extracted_text?: string; document_category?: string; page_count?: number }[] = [];
+    let documents: ScoringDocument[] | undefined;
     let fullDocumentContent = documentContent || '';
+    let rfeOriginalContent: string | undefined = body.rfeOriginalContent;
 
     // Get session and files from database if configured
     if (isSupabaseConfigured()) {
       files = await getFilesForSession(sessionId);
 
-      // Build document content from uploaded files if not provided
+      // RFE responses are scored against the uploaded notice
+      const noticeFiles = files.filter((f) => f.document_category === 'rfe_original');
+      if (documentType === 'rfe_response' && !rfeOriginalContent && noticeFiles.length > 0 && noticeFiles.length < files.length) {
+        rfeOriginalContent = noticeFiles.map((f) => f.extracted_text || '').join('\n\n---\n\n');
+        files = files.filter((f) => f.document_category !== 'rfe_original');
+      }
+
+      // Build document content from uploaded files if not provided. Files
+      // stay separate - records too large for one prompt are scored in
+      // map-reduce passes instead of being truncated
       if (!documentContent && files.length > 0) {
-        fullDocumentContent = files
-          .map((f) => {
-            const header = `=== FILE: ${f.document_category || 'Document'} ===`;
-            return `${header}\n${f.extracted_text || '[No text extracted]'}`;
-          })
-          .join('\n\n---\n\n');
+        documents = files.map((f): ScoringDocument => ({
+          fileName: f.filename || 'Document',
+          category: f.document_category || 'Document',
+          text: f.extracted_text || '[No text extracted]',
+          pageCount: f.page_count || undefined,
+        }));
+        fullDocumentContent = combineDocuments(documents);
       }
 
       // Update session status
@@ -132,37 +160,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Truncate very long documents to avoid AI timeout
-    const MAX_CONTENT_LENGTH = 150000;
-    if (fullDocumentContent.length > MAX_CONTENT_LENGTH) {
-      console.log(`[Score] Truncating document from ${fullDocumentContent.length} to ${MAX_CONTENT_LENGTH} characters`);
-      fullDocumentContent = fullDocumentContent.substring(0, MAX_CONTENT_LENGTH) +
-        '\n\n[... Document truncated for processing. Scoring based on first ~60 pages of content ...]';
-    }
-
     // Run the officer scoring
-    const results = await runOfficerScoring(
+    const reporter = createProgressReporter(sessionId);
+    const cacheScope = createCacheScope(options.bypassCache === true);
+    const results = await withCacheScope(cacheScope, () => withAICallLog(sessionId, () => runOfficerScoring(
       {
         sessionId,
         documentType: documentType as DocumentType,
         visaType: visaType as VisaType,
         beneficiaryName,
         documentContent: fullDocumentContent,
-        rfeOriginalContent: body.rfeOriginalContent,
+        documents,
+        rfeOriginalContent,
+        options,
       },
       async (stage, progress, message) => {
         // Update progress if database is configured
         if (isSupabaseConfigured()) {
-          await updateScoringSession(sessionId, {
-            progress,
-            progressMessage: message,
-          }).catch(console.error);
+          await reporter.stage({ stage, progress, message }).catch(console.error);
+        }
+      },
+      (text) => {
+        if (isSupabaseConfigured()) {
+          reporter.partialReport(text);
         }
       }
-    );
+    )));
+    await reporter.flush();
+    console.log(`[Score] Cache use for session ${sessionId}: ${formatCacheStats(cacheScope.stats)}`);
 
     // Save results to database
     if (isSupabaseConfigured()) {
+      await reporter.stage({ stage: 'Saving', progress: 97, message: 'Saving results...' });
+
       await saveScoringResults({
         sessionId,
         overallScore: results.overallScore,
@@ -171,6 +201,14 @@ export async function POST(request: NextRequest) {
         rfeProbability: results.rfeProbability,
         denialRisk: results.denialRisk,
         criteriaScores: results.criteriaScores,
+        finalMerits: results.finalMerits,
+        ensemble: results.ensemble,
+        rfeIssues: results.rfeIssues,
+        contractTerms: results.contractTerms,
+        mediaEvidence: results.mediaEvidence,
+        letterAnalysis: results.letterAnalysis,
+        consistencyConflicts: results.consistencyConflicts,
+        cacheStats: cacheScope.stats,
         evidenceQuality: results.evidenceQuality,
         rfePredictions: results.rfePredictions,
         weaknesses: results.weaknesses,
@@ -179,12 +217,7 @@ export async function POST(request: NextRequest) {
         fullReport: results.fullReport,
       });
 
-      await updateScoringSession(sessionId, {
-        status: 'completed',
-        progress: 100,
-        progressMessage: 'Scoring complete',
-        completedAt: new Date().toISOString(),
-      });
+      await reporter.complete('Scoring complete');
     }
 
     return NextResponse.json({
@@ -198,6 +231,14 @@ export async function POST(request: NextRequest) {
         rfeProbability: results.rfeProbability,
         denialRisk: results.denialRisk,
         criteriaScores: results.criteriaScores,
+        finalMerits: results.finalMerits,
+        ensemble: results.ensemble,
+        rfeIssues: results.rfeIssues,
+        contractTerms: results.contractTerms,
+        mediaEvidence: results.mediaEvidence,
+        letterAnalysis: results.letterAnalysis,
+        consistencyConflicts: results.consistencyConflicts,
+        cacheStats: cacheScope.stats,
         evidenceQuality: results.evidenceQuality,
         rfePredictions: results.rfePredictions,
         weaknesses: results.weaknesses,
@@ -255,6 +296,27 @@ export async function GET(request: NextRequest) {
     const session = await getScoringSession(sessionId);
     const { getScoringResults } = await import('@/app/lib/database/supabase');
     const results = await getScoringResults(sessionId);
+    const calls = await getAICallsForSession(sessionId);
+
+    // Approval and RFE probability read off the visa type's calibration curves
+    const curves = results
+      ? await getCalibrationCurves(session.visa_type).catch((error) => {
+          console.error('[Score] Failed to load calibration curves:', error);
+          return [];
+        })
+      : [];
+
+    // Provider, model, latency and token usage of every AI call for the session
+    const aiCalls: AICallRecord[] = calls.map((c) => ({
+      task: c.task,
+      provider: c.provider,
+      model: c.model,
+      latencyMs: c.latency_ms,
+      inputTokens: c.input_tokens,
+      outputTokens: c.output_tokens,
+      success: c.success,
+      error: c.error || undefined,
+    }));
 
     return NextResponse.json({
       sessionId,
@@ -268,7 +330,20 @@ export async function GET(request: NextRequest) {
             approvalProbability: results.approval_probability,
             rfeProbability: results.rfe_probability,
             denialRisk: results.denial_risk,
+            calibrated: calibrateProbabilities(
+              curves.map(toCalibrationCurve),
+              session.visa_type,
+              results.overall_score
+            ),
             criteriaScores: results.criteria_scores,
+            finalMerits: results.final_merits,
+            ensemble: results.ensemble,
+            rfeIssues: results.rfe_issues,
+            contractTerms: results.contract_terms,
+            mediaEvidence: results.media_evidence,
+            letterAnalysis: results.letter_analysis,
+            consistencyConflicts: results.consistency_conflicts,
+            cacheStats: results.cache_stats,
             evidenceQuality: results.evidence_quality,
             rfePredictions: results.rfe_predictions,
             weaknesses: results.weaknesses,
@@ -277,6 +352,7 @@ export async function GET(request: NextRequest) {
             fullReport: results.full_report,
           }
         : null,
+      aiCalls,
     });
   } catch (error) {
     console.error('[Score] Get results failed:', error);
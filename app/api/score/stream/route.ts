@@ -0,0 +1,172 @@
+/**
+ * Score Stream API Route
+ *
+ * Server-Sent Events for a scoring session: stage transitions (including
+ * per-file extraction), the report text as the officer writes it, and a
+ * final complete/failed event. Clients resume with Last-Event-ID and fall
+ * back to polling /api/score when the stream is unavailable.
+ *
+ * Events:
+ *   status   { status, progress, message }      - session progress changed
+ *   stage    { stage, progress, message, fileName?, createdAt } - id = event id
+ *   report   { text, reset }                    - report text appended (or replaced when reset)
+ *   complete { }                                - results are ready at /api/score
+ *   failed   { message }                        - scoring failed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getScoringSession,
+  getProgressEventsSince,
+  isSupabaseConfigured,
+} from '@/app/lib/database/supabase';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Streams end before request timeouts; EventSource reconnects with Last-Event-ID
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: 'sessionId is required' },
+      { status: 400 }
+    );
+  }
+
+  // Validate UUID format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sessionId)) {
+    return NextResponse.json(
+      { error: 'Invalid sessionId format. Must be a valid UUID.' },
+      { status: 400 }
+    );
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    await getScoringSession(sessionId);
+  } catch {
+    return NextResponse.json(
+      { error: 'Session not found' },
+      { status: 404 }
+    );
+  }
+
+  const lastEventId = parseInt(request.headers.get('last-event-id') || '0', 10) || 0;
+  const encoder = new TextEncoder();
+  // Set once the client disconnects or the stream ends
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let lastWrite = Date.now();
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(chunk));
+        lastWrite = Date.now();
+      };
+      const send = (event: string, data: unknown, id?: number) => {
+        write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      request.signal.addEventListener('abort', () => {
+        closed = true;
+      });
+
+      const startedAt = Date.now();
+      let afterId = lastEventId;
+      let lastStatus = '';
+      // Report text already sent on this connection
+      let sentReport = '';
+
+      try {
+        while (!closed && Date.now() - startedAt < MAX_STREAM_MS) {
+          // Session first: events are logged before the session changes,
+          // so everything up to a final status is in this batch
+          const session = await getScoringSession(sessionId);
+          const events = await getProgressEventsSince(sessionId, afterId);
+
+          for (const event of events) {
+            send(
+              'stage',
+              {
+                stage: event.stage,
+                progress: event.progress,
+                message: event.message,
+                fileName: event.file_name || undefined,
+                createdAt: event.created_at,
+              },
+              event.id
+            );
+            afterId = event.id;
+          }
+
+          const status = `${session.status}|${session.progress}|${session.progress_message}`;
+          if (status !== lastStatus) {
+            send('status', {
+              status: session.status,
+              progress: session.progress,
+              message: session.progress_message,
+            });
+            lastStatus = status;
+          }
+
+          const report: string = session.partial_report || '';
+          if (report && report !== sentReport) {
+            // A retried evaluation starts its report over
+            const reset = !sentReport || !report.startsWith(sentReport);
+            send('report', { text: reset ? report : report.slice(sentReport.length), reset });
+            sentReport = report;
+          }
+
+          if (session.status === 'completed') {
+            send('complete', {});
+            break;
+          }
+          if (session.status === 'error') {
+            send('failed', { message: session.error_message || session.progress_message || 'Scoring failed' });
+            break;
+          }
+
+          if (Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+            write(': keepalive\n\n');
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        // The client reconnects, then falls back to polling
+        console.error('[ScoreStream] Stream failed:', error);
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -15,6 +15,8 @@ import {
   updateUploadedFile,
   isSupabaseConfigured,
 } from '@/app/lib/database/supabase';
+import { parseScoringOptions, getScoringOptionsError } from '@/app/lib/scoring/officer-scorer';
+import { VISA_TYPES, isVisaType, getVisaDefinition } from '@/app/lib/data/visa-registry';
 
 // Check if Inngest is configured
 function isInngestConfigured(): boolean {
@@ -28,6 +30,7 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { documentType, visaType, beneficiaryName, files } = body;
+    const options = parseScoringOptions(body.options);
 
     // Validate required fields
     if (!documentType || !visaType) {
@@ -37,6 +40,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const optionsError = getScoringOptionsError(options);
+    if (optionsError) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+
     if (!files || files.length === 0) {
       return NextResponse.json(
         { error: 'At least one file is required' },
@@ -45,10 +53,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate visa type
-    const validVisaTypes = ['P-1A', 'O-1A', 'O-1B', 'EB-1A'];
-    if (!validVisaTypes.includes(visaType)) {
+    if (!isVisaType(visaType)) {
       return NextResponse.json(
-        { error: `Invalid visaType. Must be one of: ${validVisaTypes.join(', ')}` },
+        { error: `Invalid visaType. Must be one of: ${VISA_TYPES.join(', ')}` },
         { status: 400 }
       );
     }
@@ -61,6 +68,12 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (!getVisaDefinition(visaType).documentTypes.includes(documentType)) {
+      return NextResponse.json(
+        { error: `documentType ${documentType} is not scored for ${visaType}` },
+        { status: 400 }
+      );
+    }
 
     // Create session
     let sessionId: string;
@@ -104,6 +117,7 @@ export async function POST(request: NextRequest) {
           documentType,
           visaType,
           beneficiaryName,
+          options,
         },
       });
 
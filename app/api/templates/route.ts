@@ -0,0 +1,39 @@
+/**
+ * Criterion Templates API Route
+ *
+ * Evidence guidance for each criterion of each visa type - the evidence
+ * types, strong examples, common weaknesses and tips the officer's
+ * scoring and chat prompts are held to.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { VISA_TYPES, isVisaType, getVisaDefinition } from '@/app/lib/data/visa-registry';
+
+/**
+ * GET: Criterion templates for every visa type, or one with ?visaType=
+ */
+export async function GET(request: NextRequest) {
+  const visaType = request.nextUrl.searchParams.get('visaType');
+
+  if (visaType && !isVisaType(visaType)) {
+    return NextResponse.json(
+      { error: `visaType must be one of: ${VISA_TYPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const visaTypes = visaType && isVisaType(visaType) ? [visaType] : VISA_TYPES;
+
+  return NextResponse.json({
+    visaTypes: visaTypes.map((id) => {
+      const visa = getVisaDefinition(id);
+      return {
+        visaType: id,
+        label: visa.label,
+        minimumCriteria: visa.minimumCriteria,
+        criteria: visa.templates,
+        comparableEvidence: visa.comparableEvidence || null,
+      };
+    }),
+  });
+}
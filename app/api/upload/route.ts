@@ -5,15 +5,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { extractTextFromPDF, extractTextFromImage, detectDocumentCategory } from '@/app/lib/ai/mistral-ocr';
+import { extractTextFromPDF, extractTextFromImage, detectDocumentCategory, singlePage, getExtractionVersion } from '@/app/lib/ai/mistral-ocr';
+import { extractTextFromWord, isWordDocument } from '@/app/lib/ai/word-extractor';
 import {
   createScoringSession,
   createUploadedFile,
   updateUploadedFile,
   updateScoringSession,
+  saveFilePages,
   isSupabaseConfigured,
   getSupabase,
 } from '@/app/lib/database/supabase';
+import { sha256, getCachedExtraction, cacheExtraction } from '@/app/lib/cache/content-cache';
+import { ExtractedPage, DocumentType } from '@/app/lib/types';
+import { VISA_TYPES, isVisaType, getVisaDefinition } from '@/app/lib/data/visa-registry';
 
 // Max file size: 150MB
 const MAX_FILE_SIZE = 150 * 1024 * 1024;
@@ -49,10 +54,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate visa type
-    const validVisaTypes = ['P-1A', 'O-1A', 'O-1B', 'EB-1A'];
-    if (visaType && !validVisaTypes.includes(visaType)) {
+    if (visaType && !isVisaType(visaType)) {
       return NextResponse.json(
-        { error: `Invalid visaType. Must be one of: ${validVisaTypes.join(', ')}` },
+        { error: `Invalid visaType. Must be one of: ${VISA_TYPES.join(', ')}` },
         { status: 400 }
       );
     }
@@ -65,6 +69,12 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (documentType && isVisaType(visaType) && !getVisaDefinition(visaType).documentTypes.includes(documentType as DocumentType)) {
+      return NextResponse.json(
+        { error: `documentType ${documentType} is not scored for ${visaType}` },
+        { status: 400 }
+      );
+    }
 
     // Get files from form data
     const files: File[] = [];
@@ -121,6 +131,7 @@ export async function POST(request: NextRequest) {
       try {
         const fileId = uuidv4();
         const buffer = Buffer.from(await file.arrayBuffer());
+        const contentHash = sha256(buffer);
 
         // Create file record if Supabase is configured
         let fileRecord = null;
@@ -152,31 +163,56 @@ export async function POST(request: NextRequest) {
             await updateUploadedFile(fileRecord.id, {
               status: 'pending_extraction',
               storagePath,
+              contentHash,
             });
           }
         }
 
-        // For small files (<1MB), extract text immediately
+        // For small files (<1MB) and files extracted before, extract text immediately
         // For large files, defer to Inngest background processing
         let extractedText = '';
         let pageCount = 0;
+        let pages: ExtractedPage[] = [];
         let documentCategory = 'unknown';
         let wordCount = 0;
 
         const isSmallFile = file.size < 1 * 1024 * 1024; // 1MB threshold
 
-        if (isSmallFile) {
+        // The same file content uploaded before, in any session
+        const extractionVersion = getExtractionVersion();
+        const cached = await getCachedExtraction(contentHash, extractionVersion);
+        const extractNow = isSmallFile || cached !== null;
+
+        if (extractNow) {
           // Extract text immediately for small files
-          if (file.type === 'application/pdf') {
+          if (cached) {
+            console.log(`[Upload] Reusing cached extraction for ${file.name}`);
+            extractedText = cached.text;
+            pageCount = cached.pageCount;
+            pages = cached.pages;
+          } else if (file.type === 'application/pdf') {
             const result = await extractTextFromPDF(buffer, file.name);
             extractedText = result.text;
             pageCount = result.pageCount;
+            pages = result.pages;
           } else if (file.type.startsWith('image/')) {
-            extractedText = await extractTextFromImage(buffer, file.type, file.name);
+            const result = await extractTextFromImage(buffer, file.type, file.name);
+            extractedText = result.text;
             pageCount = 1;
+            pages = result.pages;
+          } else if (isWordDocument(file.type, file.name)) {
+            const result = await extractTextFromWord(buffer, file.type, file.name);
+            extractedText = result.text;
+            pageCount = result.pageCount;
+            pages = singlePage(extractedText, 'word');
           } else if (file.type === 'text/plain') {
             extractedText = buffer.toString('utf-8');
             pageCount = Math.ceil(extractedText.split(/\s+/).length / 500);
+            pages = singlePage(extractedText, 'plain-text');
+          }
+
+          if (!cached) {
+            await cacheExtraction(contentHash, extractionVersion, { text: extractedText, pageCount, pages });
           }
 
           documentCategory = detectDocumentCategory(file.name, extractedText);
@@ -190,6 +226,10 @@ export async function POST(request: NextRequest) {
               wordCount,
               pageCount,
               documentCategory,
+              contentHash,
+            });
+            await saveFilePages(fileRecord.id, currentSessionId, pages).catch((error) => {
+              console.error(`[Upload] Failed to save pages for ${file.name}:`, error);
             });
           }
         } else {
@@ -212,7 +252,7 @@ export async function POST(request: NextRequest) {
           wordCount,
           pageCount,
           documentCategory,
-          needsBackgroundProcessing: !isSmallFile,
+          needsBackgroundProcessing: !extractNow,
           extractedText: extractedText ? extractedText.substring(0, 500) + (extractedText.length > 500 ? '...' : '') : '[Queued for background extraction]',
         });
       } catch (fileError) {
@@ -14,8 +14,8 @@ const geistMono = Geist_Mono({
 
 export const metadata: Metadata = {
   title: "Xtra Odinary Research | Professional Visa Petition Scoring",
-  description: "Get your visa petition evaluated from the perspective of a senior USCIS adjudications officer. AI-powered scoring for O-1A, O-1B, P-1A, and EB-1A petitions.",
-  keywords: ["USCIS", "visa petition", "O-1A", "O-1B", "P-1A", "EB-1A", "immigration", "petition scoring", "Xtra Odinary Research"],
+  description: "Get your visa petition evaluated from the perspective of a senior USCIS adjudications officer. AI-powered scoring for O-1A, O-1B, P-1A, EB-1A and EB-2 NIW petitions.",
+  keywords: ["USCIS", "visa petition", "O-1A", "O-1B", "P-1A", "EB-1A", "EB-2 NIW", "immigration", "petition scoring", "Xtra Odinary Research"],
 };
 
 export default function RootLayout({
@@ -0,0 +1,276 @@
+/**
+ * AI Router
+ *
+ * Sends each AI call to the providers configured for its task, in order,
+ * falling back to the next provider when one fails. Each task has its own
+ * route, token budget and temperature; callers override the budget and
+ * temperature where a call needs something different.
+ *
+ * Routes can be replaced without a deploy: AI_ROUTE applies to every task
+ * and AI_ROUTE_<TASK> (e.g. AI_ROUTE_CHAT) to one, each a comma-separated
+ * list of provider or provider:model, e.g. "local:llama3.1,claude".
+ * Providers that are not configured are skipped.
+ *
+ * Inside withAICallLog every call - including failed ones - is logged on
+ * the session with its provider, model, latency and token usage.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import { AI_PROVIDERS, AIUsage, StructuredOutputSpec, toInputSchema } from './providers';
+import { captureResponse } from './replay-provider';
+import { withAIResponseCache } from '../cache/content-cache';
+import { logAICall, isSupabaseConfigured } from '../database/supabase';
+import { AIProviderId, AITask } from '../types';
+
+export interface AIRouteStep {
+  provider: AIProviderId;
+  model: string;
+}
+
+export interface AITaskConfig {
+  route: AIRouteStep[]; // Tried in order
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface AICallOverrides {
+  maxTokens?: number;
+  temperature?: number;
+  preferredProvider?: AIProviderId; // Tried first when on the route and configured
+}
+
+const DEFAULT_ROUTE: AIRouteStep[] = [
+  { provider: 'claude', model: AI_PROVIDERS.claude.defaultModel },
+  { provider: 'openai', model: AI_PROVIDERS.openai.defaultModel },
+];
+
+export const AI_TASK_CONFIG: Record<AITask, AITaskConfig> = {
+  // Officer evaluations, criterion passes, RFE and final merits reviews
+  scoring: { route: DEFAULT_ROUTE, maxTokens: 4096, temperature: 0.3 },
+  // Conversation with the officer - slightly more conversational
+  chat: { route: DEFAULT_ROUTE, maxTokens: 4096, temperature: 0.5 },
+  // Contract terms and record facts read out of the documents
+  extraction: { route: DEFAULT_ROUTE, maxTokens: 8192, temperature: 0.1 },
+  // Media tiers and support letter assessments
+  classification: { route: DEFAULT_ROUTE, maxTokens: 8192, temperature: 0.1 },
+};
+
+const callLogs = new AsyncLocalStorage<{ sessionId: string }>();
+
+/**
+ * Run fn with every AI call it makes logged on the session
+ */
+export function withAICallLog<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+  return callLogs.run({ sessionId }, fn);
+}
+
+/**
+ * Parse a route setting such as "local:llama3.1,claude"
+ */
+export function parseRoute(value: string): AIRouteStep[] {
+  const steps: AIRouteStep[] = [];
+  for (const entry of value.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const [provider, ...model] = entry.split(':');
+    if (!(provider in AI_PROVIDERS)) {
+      console.warn(`[AI] Ignoring unknown provider "${provider}" in route "${value}"`);
+      continue;
+    }
+    const id = provider as AIProviderId;
+    steps.push({ provider: id, model: model.join(':') || AI_PROVIDERS[id].defaultModel });
+  }
+  return steps;
+}
+
+/**
+ * Providers a task's calls go to, in order, limited to those configured.
+ * With none configured the first step is kept so the call reports why.
+ */
+export function getTaskRoute(task: AITask, preferredProvider?: AIProviderId): AIRouteStep[] {
+  const override = process.env[`AI_ROUTE_${task.toUpperCase()}`] || process.env.AI_ROUTE;
+  const parsed = override ? parseRoute(override) : [];
+  let route = parsed.length > 0 ? parsed : AI_TASK_CONFIG[task].route;
+
+  const preferred = route.find((s) => s.provider === preferredProvider);
+  if (preferred) {
+    route = [preferred, ...route.filter((s) => s !== preferred)];
+  }
+
+  const configured = route.filter((s) => AI_PROVIDERS[s.provider].isConfigured());
+  return configured.length > 0 ? configured : route.slice(0, 1);
+}
+
+function recordCall(
+  task: AITask,
+  step: AIRouteStep,
+  startedAt: number,
+  usage: AIUsage | null,
+  error?: unknown
+): void {
+  const log = callLogs.getStore();
+  if (!log || !isSupabaseConfigured()) return;
+
+  logAICall({
+    sessionId: log.sessionId,
+    task,
+    provider: step.provider,
+    model: step.model,
+    latencyMs: Date.now() - startedAt,
+    inputTokens: usage?.inputTokens || 0,
+    outputTokens: usage?.outputTokens || 0,
+    success: !error,
+    error: error ? (error instanceof Error ? error.message : String(error)).slice(0, 1000) : undefined,
+  }).catch((logError) => console.error('[AI] Failed to log call:', logError));
+}
+
+/**
+ * Try each provider on the route in turn; the first error is rethrown
+ * when every provider fails
+ */
+async function runRoute<R extends { usage: AIUsage }>(
+  task: AITask,
+  route: AIRouteStep[],
+  call: (step: AIRouteStep) => Promise<R>
+): Promise<R & { provider: AIProviderId; model: string }> {
+  let firstError: unknown;
+
+  for (const [i, step] of route.entries()) {
+    if (i > 0) {
+      console.log(`[AI] Falling back to ${step.provider} (${step.model}) for ${task}...`);
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await call(step);
+      recordCall(task, step, startedAt, result.usage);
+      return { ...result, provider: step.provider, model: step.model };
+    } catch (error) {
+      console.error(`[AI] ${step.provider} (${step.model}) failed for ${task}:`, error);
+      recordCall(task, step, startedAt, null, error);
+      if (i === 0) firstError = error;
+    }
+  }
+
+  throw firstError;
+}
+
+/**
+ * Call AI for plain text along the task's route.
+ * Cached inside a cache scope (see content-cache).
+ */
+export async function callAIWithFallback(
+  task: AITask,
+  prompt: string,
+  systemPrompt: string,
+  overrides: AICallOverrides = {}
+): Promise<{ content: string; provider: AIProviderId }> {
+  const config = AI_TASK_CONFIG[task];
+  const maxTokens = overrides.maxTokens ?? config.maxTokens;
+  const temperature = overrides.temperature ?? config.temperature;
+  const route = getTaskRoute(task, overrides.preferredProvider);
+
+  const { value, provider } = await withAIResponseCache(
+    { prompt: `${systemPrompt}\n\n${prompt}`, route, temperature },
+    async () => {
+      const result = await runRoute(task, route, (step) =>
+        AI_PROVIDERS[step.provider].complete({ prompt, systemPrompt, model: step.model, maxTokens, temperature })
+      );
+      if (result.provider !== 'replay') captureResponse({ prompt, systemPrompt }, undefined, result.content);
+      return { value: result.content, provider: result.provider, model: result.model };
+    },
+    (cached) => (typeof cached === 'string' ? cached : undefined)
+  );
+  return { content: value, provider };
+}
+
+/**
+ * Call AI for a schema-validated JSON payload along the task's route.
+ * Schema violations are sent back to the model and the request is retried
+ * up to maxAttempts times. onPartial receives the payload parsed so far
+ * while a provider that streams (Claude) generates it.
+ * Cached inside a cache scope (see content-cache); a cached payload is
+ * reported with attempts 0 and passed to onPartial once, complete.
+ */
+export async function callAIWithFallbackStructured<T>(
+  task: AITask,
+  prompt: string,
+  systemPrompt: string,
+  spec: StructuredOutputSpec<T>,
+  overrides: AICallOverrides & {
+    maxAttempts?: number;
+    onPartial?: (partial: unknown) => void;
+  } = {}
+): Promise<{ data: T; provider: AIProviderId; attempts: number }> {
+  const config = AI_TASK_CONFIG[task];
+  const maxTokens = overrides.maxTokens ?? config.maxTokens;
+  const temperature = overrides.temperature ?? config.temperature;
+  const maxAttempts = overrides.maxAttempts ?? 3;
+  const onPartial = overrides.onPartial;
+  const route = getTaskRoute(task, overrides.preferredProvider);
+
+  let attempts = 0;
+  const { value, provider, cached } = await withAIResponseCache(
+    {
+      prompt: `${systemPrompt}\n\n${prompt}\n\n${spec.name}: ${JSON.stringify(toInputSchema(spec.schema))}`,
+      route,
+      temperature,
+    },
+    async () => {
+      const result = await requestStructured(task, route, prompt, systemPrompt, spec, maxTokens, temperature, maxAttempts, onPartial);
+      attempts = result.attempts;
+      return { value: result.data, provider: result.provider, model: result.model };
+    },
+    (raw) => {
+      const parsed = spec.schema.safeParse(raw);
+      return parsed.success ? parsed.data : undefined;
+    }
+  );
+
+  if (cached) onPartial?.(value);
+  return { data: value, provider, attempts };
+}
+
+async function requestStructured<T>(
+  task: AITask,
+  route: AIRouteStep[],
+  prompt: string,
+  systemPrompt: string,
+  spec: StructuredOutputSpec<T>,
+  maxTokens: number,
+  temperature: number,
+  maxAttempts: number,
+  onPartial?: (partial: unknown) => void
+): Promise<{ data: T; provider: AIProviderId; model: string; attempts: number }> {
+  let currentPrompt = prompt;
+  let lastIssues = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { raw, provider, model } = await runRoute(task, route, (step) =>
+      AI_PROVIDERS[step.provider].completeStructured(
+        { prompt: currentPrompt, systemPrompt, model: step.model, maxTokens, temperature },
+        spec,
+        onPartial
+      )
+    );
+
+    const parsed = spec.schema.safeParse(raw);
+    if (parsed.success) {
+      if (provider !== 'replay') captureResponse({ prompt: currentPrompt, systemPrompt }, spec, raw);
+      return { data: parsed.data, provider, model, attempts: attempt };
+    }
+
+    lastIssues = z.prettifyError(parsed.error);
+    console.warn(`[AI] ${spec.name} failed schema validation (attempt ${attempt}/${maxAttempts}):\n${lastIssues}`);
+
+    currentPrompt = `${prompt}
+
+---
+
+YOUR PREVIOUS ${spec.name} SUBMISSION WAS REJECTED because it did not match the required schema:
+${lastIssues}
+
+Submit the complete payload again, correcting every issue listed above.`;
+  }
+
+  throw new Error(`${spec.name} failed schema validation after ${maxAttempts} attempts: ${lastIssues}`);
+}
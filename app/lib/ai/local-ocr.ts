@@ -0,0 +1,47 @@
+/**
+ * Local OCR
+ *
+ * Runs the Tesseract command-line engine on page images, for deployments
+ * that cannot send documents to an OCR API. Enabled with OCR_ENGINE=local;
+ * TESSERACT_PATH and TESSERACT_LANG override the binary and languages
+ * (e.g. "eng+spa").
+ */
+
+import { spawn } from 'child_process';
+
+// A dense page at 200 DPI takes a few seconds; anything near this is stuck
+const PAGE_TIMEOUT_MS = 120 * 1000;
+
+/**
+ * OCR one image (PNG, JPEG or TIFF) and return its text
+ */
+export function ocrImageLocally(image: Buffer): Promise<string> {
+  const binary = process.env.TESSERACT_PATH || 'tesseract';
+  const languages = process.env.TESSERACT_LANG || 'eng';
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, ['stdin', 'stdout', '-l', languages], { timeout: PAGE_TIMEOUT_MS });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    // A failed start or an early exit is reported by 'error' or 'close'
+    child.stdin.on('error', () => {});
+
+    child.on('error', (error) => {
+      reject(new Error(`Failed to run ${binary}: ${error.message}`));
+    });
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString('utf-8'));
+      } else if (signal) {
+        reject(new Error(`Tesseract stopped after ${PAGE_TIMEOUT_MS / 1000}s (${signal})`));
+      } else {
+        reject(new Error(`Tesseract exited with code ${code}: ${Buffer.concat(stderr).toString('utf-8').trim()}`));
+      }
+    });
+
+    child.stdin.end(image);
+  });
+}
@@ -1,11 +1,20 @@
 /**
  * PDF and Image Text Extraction
  *
- * Uses pdf-parse for reliable PDF text extraction (handles large files)
- * Falls back to Mistral OCR for image-based PDFs or images
+ * PDFs are read page by page: pages with a text layer use it directly
+ * (pdf-parse), and only image-only pages are sent to OCR. Small files go
+ * to the Mistral OCR API whole; large scanned files are rendered and
+ * OCR'd a batch of pages at a time, so their size never reaches the API.
+ * OCR_ENGINE=local swaps Mistral for a local Tesseract install.
+ *
+ * Text is kept per page, with the method that produced it and a
+ * confidence estimate, so findings can be traced back to a page. The
+ * combined text separates pages with "--- Page N ---" markers.
  */
 
 import { Mistral } from '@mistralai/mistralai';
+import { ocrImageLocally } from './local-ocr';
+import { ExtractedPage, OcrMethod } from '../types';
 
 // Polyfill for DOMMatrix which pdf-parse/pdfjs requires but doesn't exist in serverless
 if (typeof globalThis.DOMMatrix === 'undefined') {
@@ -17,11 +26,95 @@ if (typeof globalThis.DOMMatrix === 'undefined') {
   };
 }
 
+type OcrEngine = 'mistral' | 'local';
+
+const EXTRACTION_VERSION = 'paged-1';
+
+// Pages with less text than this have no usable text layer
+const MIN_PAGE_CHARS = 20;
+
+// Text layers below this confidence are too garbled to use, and are OCR'd
+const MIN_TEXT_LAYER_CONFIDENCE = 0.4;
+
+// Largest PDF sent to the Mistral OCR API as a single document
+const MISTRAL_DOCUMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+// Pages rendered and OCR'd together when the file is too large to send whole
+const OCR_BATCH_PAGES = 8;
+
+// Rendered page width - about 200 DPI for a letter-size page
+const OCR_RENDER_WIDTH = 1700;
+
+interface PDFParser {
+  getText(): Promise<{ pages: { num: number; text: string }[]; total: number }>;
+  getScreenshot(params: {
+    partial: number[];
+    desiredWidth: number;
+    imageDataUrl: boolean;
+    imageBuffer: boolean;
+  }): Promise<{ pages: { pageNumber: number; data: Uint8Array; dataUrl: string }[] }>;
+  destroy(): Promise<void>;
+}
+
 // Dynamic import for pdf-parse to avoid ESM issues
-async function parsePDF(buffer: Buffer): Promise<{ text: string; numpages: number }> {
+function openPDF(buffer: Buffer): PDFParser {
   // eslint-disable-next-line @typescript-eslint/no-require-imports
-  const pdfParse = require('pdf-parse');
-  return pdfParse(buffer);
+  const { PDFParse } = require('pdf-parse');
+  return new PDFParse({ data: buffer });
+}
+
+function getOcrEngine(): OcrEngine {
+  return process.env.OCR_ENGINE === 'local' ? 'local' : 'mistral';
+}
+
+/**
+ * Version of the extraction output, for the extraction cache. Bump
+ * EXTRACTION_VERSION when a change would extract the same file differently.
+ */
+export function getExtractionVersion(): string {
+  return `${EXTRACTION_VERSION}:${getOcrEngine()}`;
+}
+
+/**
+ * Rough confidence from how much of the text reads as words: garbled OCR
+ * and broken text layers produce runs of symbols and single letters
+ */
+export function estimateConfidence(text: string, method: OcrMethod): number {
+  const tokens = text.split(/\s+/).filter((t) => t.length > 0);
+  if (text.trim().length < MIN_PAGE_CHARS || tokens.length === 0) return 0.1;
+
+  const wordLike = tokens.filter((t) => /^[\p{P}\p{S}]*[\p{L}\p{N}][\p{L}\p{N}'’.,:;%$€£-]*[\p{P}]*$/u.test(t)).length;
+  const ceiling: Record<OcrMethod, number> = {
+    'pdf-text': 1,
+    word: 1,
+    'plain-text': 1,
+    'mistral-ocr': 0.95,
+    tesseract: 0.85,
+    // Whole-document transcription with no page alignment
+    'mistral-vision': 0.8,
+  };
+  return Math.round(ceiling[method] * (wordLike / tokens.length) * 100) / 100;
+}
+
+/**
+ * A document with no page structure (images, Word, plain text) as one page
+ */
+export function singlePage(text: string, method: OcrMethod): ExtractedPage[] {
+  return [{ pageNumber: 1, text, method, confidence: estimateConfidence(text, method) }];
+}
+
+/**
+ * Combined text with a marker ahead of each page
+ */
+export function formatPagedText(pages: ExtractedPage[]): string {
+  return pages.map((p) => `--- Page ${p.pageNumber} ---\n${p.text.trim()}`).join('\n\n');
+}
+
+/**
+ * Whether a page's text layer is missing or unusable
+ */
+function needsOcr(page: ExtractedPage): boolean {
+  return page.text.trim().length < MIN_PAGE_CHARS || page.confidence < MIN_TEXT_LAYER_CONFIDENCE;
 }
 
 let mistralClient: Mistral | null = null;
@@ -40,51 +133,129 @@ function getMistralClient(): Mistral {
 
 /**
  * Extract text from PDF
- * Uses Mistral OCR as primary method (more reliable in serverless)
- * Falls back to pdf-parse for very large files
+ * Uses the text layer where a page has one, and OCR for the rest
  */
 export async function extractTextFromPDF(
   pdfBuffer: Buffer,
   filename: string
-): Promise<{ text: string; pageCount: number }> {
+): Promise<{ text: string; pageCount: number; pages: ExtractedPage[] }> {
   const fileSizeMB = pdfBuffer.length / (1024 * 1024);
   console.log(`[PDF] Extracting text from ${filename} (${fileSizeMB.toFixed(2)}MB)`);
 
-  // For files under 10MB, use Mistral OCR (more reliable in serverless)
-  if (pdfBuffer.length < 10 * 1024 * 1024) {
-    console.log('[PDF] Using Mistral OCR for extraction...');
-    try {
-      return await extractTextFromPDFWithMistral(pdfBuffer, filename);
-    } catch (mistralError) {
-      console.error('[PDF] Mistral OCR failed:', mistralError);
-      // Fall back to pdf-parse
-      console.log('[PDF] Falling back to pdf-parse...');
+  let parser: PDFParser;
+  let pages: ExtractedPage[];
+  let pageCount: number;
+  try {
+    console.log('[PDF] Reading text layer with pdf-parse...');
+    parser = openPDF(pdfBuffer);
+    const pdfData = await parser.getText();
+
+    pages = pdfData.pages.map((page) => ({
+      pageNumber: page.num,
+      text: page.text || '',
+      method: 'pdf-text',
+      confidence: estimateConfidence(page.text || '', 'pdf-text'),
+    }));
+    pageCount = pdfData.total || pages.length || 1;
+  } catch (error) {
+    console.error('[PDF] pdf-parse failed:', error);
+
+    // Without pdf-parse nothing can be rendered - small files can still go to the OCR API whole
+    if (getOcrEngine() === 'mistral' && pdfBuffer.length < MISTRAL_DOCUMENT_MAX_BYTES) {
+      console.log('[PDF] Falling back to Mistral OCR of the whole document...');
+      return extractTextFromPDFWithMistral(pdfBuffer, filename);
     }
+    throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
-  // For large files or if Mistral failed, try pdf-parse
   try {
-    console.log('[PDF] Using pdf-parse for extraction...');
-    const pdfData = await parsePDF(pdfBuffer);
+    const imageOnly = pages.filter(needsOcr).map((p) => p.pageNumber);
+    if (imageOnly.length > 0) {
+      console.log(`[PDF] ${imageOnly.length} of ${pageCount} pages have no usable text layer, running OCR...`);
+      const ocrPages = new Map(
+        (await ocrPDFPages(pdfBuffer, parser, imageOnly, filename)).map((p) => [p.pageNumber, p])
+      );
+      // Keep the text layer where OCR failed or read less than it
+      pages = pages.map((page) => {
+        const ocr = ocrPages.get(page.pageNumber);
+        return ocr && ocr.confidence >= page.confidence ? ocr : page;
+      });
+    }
+  } finally {
+    await parser.destroy();
+  }
 
-    const text = pdfData.text || '';
-    const pageCount = pdfData.numpages || 1;
+  const textChars = pages.reduce((sum, p) => sum + p.text.trim().length, 0);
+  const ocrCount = pages.filter((p) => p.method !== 'pdf-text').length;
+  console.log(`[PDF] Extracted ${textChars} characters from ${pageCount} pages (${ocrCount} by OCR)`);
 
-    console.log(`[PDF] Extracted ${text.length} characters from ${pageCount} pages`);
+  if (textChars > 100) {
+    return { text: formatPagedText(pages), pageCount, pages };
+  }
 
-    if (text.length > 100) {
-      return { text, pageCount };
+  // Very little text extracted
+  return {
+    text: '[This PDF appears to be image-based and OCR could not read it. Check the OCR configuration or upload a text-based PDF.]',
+    pageCount,
+    pages,
+  };
+}
+
+/**
+ * OCR the given pages. Small files are sent to the OCR API whole with
+ * the page list; otherwise pages are rendered and read a batch at a time.
+ * Pages whose batch fails are left out.
+ */
+async function ocrPDFPages(
+  pdfBuffer: Buffer,
+  parser: PDFParser,
+  pageNumbers: number[],
+  filename: string
+): Promise<ExtractedPage[]> {
+  const engine = getOcrEngine();
+
+  if (engine === 'mistral' && pdfBuffer.length < MISTRAL_DOCUMENT_MAX_BYTES) {
+    try {
+      return (await extractTextFromPDFWithMistral(pdfBuffer, filename, pageNumbers)).pages;
+    } catch (mistralError) {
+      console.error('[PDF] Mistral OCR failed:', mistralError);
+      console.log('[PDF] Falling back to OCR of rendered pages...');
     }
+  }
 
-    // Very little text extracted
-    return {
-      text: '[This PDF appears to be image-based or has minimal extractable text. For best results, upload a text-based PDF or smaller file.]',
-      pageCount,
-    };
-  } catch (error) {
-    console.error('[PDF] pdf-parse also failed:', error);
-    throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  const method: OcrMethod = engine === 'local' ? 'tesseract' : 'mistral-ocr';
+  const read = async (image: { pageNumber: number; data: Uint8Array; dataUrl: string }): Promise<ExtractedPage> => {
+    const text = engine === 'local'
+      ? await ocrImageLocally(Buffer.from(image.data))
+      : await ocrImageWithMistral(image.dataUrl);
+    return { pageNumber: image.pageNumber, text, method, confidence: estimateConfidence(text, method) };
+  };
+
+  const results: ExtractedPage[] = [];
+  for (let i = 0; i < pageNumbers.length; i += OCR_BATCH_PAGES) {
+    const batch = pageNumbers.slice(i, i + OCR_BATCH_PAGES);
+    console.log(`[PDF] OCR of pages ${batch[0]}-${batch[batch.length - 1]} (${i + batch.length} of ${pageNumbers.length}) with ${engine}`);
+
+    try {
+      const { pages: images } = await parser.getScreenshot({
+        partial: batch,
+        desiredWidth: OCR_RENDER_WIDTH,
+        imageDataUrl: engine === 'mistral',
+        imageBuffer: engine === 'local',
+      });
+
+      if (engine === 'local') {
+        // One Tesseract process at a time - each one uses a full core
+        for (const image of images) results.push(await read(image));
+      } else {
+        results.push(...(await Promise.all(images.map(read))));
+      }
+    } catch (error) {
+      console.error(`[PDF] OCR of pages ${batch.join(', ')} failed:`, error);
+    }
   }
+
+  return results;
 }
 
 /**
@@ -93,8 +264,9 @@ export async function extractTextFromPDF(
  */
 async function extractTextFromPDFWithMistral(
   pdfBuffer: Buffer,
-  filename: string
-): Promise<{ text: string; pageCount: number }> {
+  filename: string,
+  pageNumbers?: number[]
+): Promise<{ text: string; pageCount: number; pages: ExtractedPage[] }> {
   const client = getMistralClient();
 
   // Convert buffer to base64
@@ -102,35 +274,25 @@ async function extractTextFromPDFWithMistral(
   const dataUri = `data:application/pdf;base64,${base64}`;
 
   try {
-    const response = await client.chat.complete({
-      model: 'pixtral-12b-2409',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image_url',
-              imageUrl: dataUri,
-            },
-            {
-              type: 'text',
-              text: `Extract ALL text from this PDF document. Return the complete text content, preserving structure where possible. Include all headings, paragraphs, bullet points, and table content. Do not summarize - extract everything.
-
-Filename: ${filename}`,
-            },
-          ],
-        },
-      ],
+    const response = await client.ocr.process({
+      model: 'mistral-ocr-latest',
+      document: {
+        type: 'document_url',
+        documentUrl: dataUri,
+        documentName: filename,
+      },
+      // The OCR API numbers pages from 0
+      pages: pageNumbers?.map((n) => n - 1),
     });
 
-    const content = response.choices?.[0]?.message?.content;
-    const text = typeof content === 'string' ? content : '';
-
-    // Estimate page count (roughly 500 words per page)
-    const wordCount = text.split(/\s+/).length;
-    const pageCount = Math.max(1, Math.ceil(wordCount / 500));
+    const pages: ExtractedPage[] = response.pages.map((page) => ({
+      pageNumber: page.index + 1,
+      text: page.markdown,
+      method: 'mistral-ocr',
+      confidence: estimateConfidence(page.markdown, 'mistral-ocr'),
+    }));
 
-    return { text, pageCount };
+    return { text: formatPagedText(pages), pageCount: Math.max(1, pages.length), pages };
   } catch (error) {
     console.error('[MistralOCR] PDF extraction failed:', error);
     throw error;
@@ -138,13 +300,33 @@ Filename: ${filename}`,
 }
 
 /**
- * Extract text from image using Mistral Vision
+ * OCR one rendered page image with Mistral OCR
+ */
+async function ocrImageWithMistral(dataUrl: string): Promise<string> {
+  const response = await getMistralClient().ocr.process({
+    model: 'mistral-ocr-latest',
+    document: {
+      type: 'image_url',
+      imageUrl: dataUrl,
+    },
+  });
+  return response.pages.map((page) => page.markdown).join('\n\n');
+}
+
+/**
+ * Extract text from image using Mistral Vision, or Tesseract when
+ * OCR_ENGINE=local
  */
 export async function extractTextFromImage(
   imageBuffer: Buffer,
   mimeType: string,
   filename: string
-): Promise<string> {
+): Promise<{ text: string; pages: ExtractedPage[] }> {
+  if (getOcrEngine() === 'local') {
+    const text = await ocrImageLocally(imageBuffer);
+    return { text, pages: singlePage(text, 'tesseract') };
+  }
+
   const client = getMistralClient();
 
   // Convert buffer to base64
@@ -174,7 +356,8 @@ Filename: ${filename}`,
     });
 
     const content = response.choices?.[0]?.message?.content;
-    return typeof content === 'string' ? content : '';
+    const text = typeof content === 'string' ? content : '';
+    return { text, pages: singlePage(text, 'mistral-vision') };
   } catch (error) {
     console.error('[MistralOCR] Image extraction failed:', error);
     throw error;
@@ -0,0 +1,325 @@
+/**
+ * AI Provider Registry
+ *
+ * One adapter per model provider, each able to make a plain completion
+ * and a schema-constrained one, and to report token usage. Providers:
+ *   claude - Anthropic (ANTHROPIC_API_KEY); tool use for structured output
+ *   openai - OpenAI (OPENAI_API_KEY); JSON mode for structured output
+ *   local  - any OpenAI-compatible server (LOCAL_AI_BASE_URL, e.g. Ollama
+ *            or vLLM) for offline testing; JSON mode for structured output
+ *   replay - recorded responses, for deterministic tests (replay-provider)
+ *
+ * Which provider and model handle a call is decided by the router.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { replayProvider } from './replay-provider';
+import { AIProviderId } from '../types';
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  systemPrompt: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * Structured output definition - the tool the model must call
+ */
+export interface StructuredOutputSpec<T> {
+  name: string;
+  description: string;
+  schema: z.ZodType<T>;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  defaultModel: string;
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<{ content: string; usage: AIUsage }>;
+  /**
+   * Raw payload for the spec, not yet validated. With onPartial the call
+   * may stream and report the partially parsed payload as it is generated.
+   */
+  completeStructured(
+    request: CompletionRequest,
+    spec: StructuredOutputSpec<unknown>,
+    onPartial?: (partial: unknown) => void
+  ): Promise<{ raw: unknown; usage: AIUsage }>;
+}
+
+// Lazy initialization
+let anthropicClient: Anthropic | null = null;
+let openaiClient: OpenAI | null = null;
+let localClient: OpenAI | null = null;
+
+function getAnthropicClient(): Anthropic {
+  if (!anthropicClient) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY is not configured');
+    }
+    anthropicClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+  return anthropicClient;
+}
+
+function getOpenAIClient(): OpenAI {
+  if (!openaiClient) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+    openaiClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openaiClient;
+}
+
+function getLocalClient(): OpenAI {
+  if (!localClient) {
+    if (!process.env.LOCAL_AI_BASE_URL) {
+      throw new Error('LOCAL_AI_BASE_URL is not configured');
+    }
+    localClient = new OpenAI({
+      baseURL: process.env.LOCAL_AI_BASE_URL,
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: process.env.LOCAL_AI_API_KEY || 'local',
+    });
+  }
+  return localClient;
+}
+
+/**
+ * Retry with exponential backoff
+ */
+async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  maxRetries: number = 3,
+  initialDelay: number = 1000
+): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      lastError = error as Error;
+      const err = error as { status?: number; code?: string };
+
+      // Don't retry on non-retryable errors
+      if (err.status === 400 || err.status === 401 || err.status === 403) {
+        throw error;
+      }
+
+      // Retryable: 429, 500, 502, 503, 504, network errors
+      const isRetryable =
+        err.status === 429 ||
+        (err.status && err.status >= 500) ||
+        err.code === 'ECONNRESET' ||
+        err.code === 'ETIMEDOUT';
+
+      if (!isRetryable || attempt === maxRetries - 1) {
+        throw error;
+      }
+
+      const delay = initialDelay * Math.pow(2, attempt);
+      console.log(`[AI] Retry ${attempt + 1}/${maxRetries} after ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Convert a zod schema into the JSON schema object sent to the providers
+ */
+export function toInputSchema(schema: z.ZodType): Anthropic.Tool.InputSchema {
+  const jsonSchema = { ...(z.toJSONSchema(schema) as Record<string, unknown>) };
+  delete jsonSchema.$schema;
+  return { ...jsonSchema, type: 'object' };
+}
+
+// ==========================================
+// CLAUDE
+// ==========================================
+
+const claudeProvider: AIProvider = {
+  id: 'claude',
+  defaultModel: 'claude-sonnet-4-20250514',
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+
+  async complete(request) {
+    const client = getAnthropicClient();
+
+    const response = await retryWithBackoff(async () => {
+      return await client.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.prompt }],
+      });
+    });
+
+    const textContent = response.content.find((c) => c.type === 'text');
+    if (!textContent || textContent.type !== 'text') {
+      throw new Error('No text content in Claude response');
+    }
+
+    return {
+      content: textContent.text,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+    };
+  },
+
+  /**
+   * Forced tool call; the tool input is the payload
+   */
+  async completeStructured(request, spec, onPartial) {
+    const client = getAnthropicClient();
+
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.systemPrompt,
+      tools: [
+        {
+          name: spec.name,
+          description: spec.description,
+          input_schema: toInputSchema(spec.schema),
+        },
+      ],
+      tool_choice: { type: 'tool', name: spec.name },
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+
+    const response = await retryWithBackoff(async () => {
+      if (!onPartial) {
+        return await client.messages.create(params);
+      }
+
+      const stream = client.messages.stream(params);
+      stream.on('inputJson', (_delta, snapshot) => onPartial(snapshot));
+      return await stream.finalMessage();
+    });
+
+    const toolUse = response.content.find((c) => c.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error(`No ${spec.name} tool call in Claude response`);
+    }
+
+    return {
+      raw: toolUse.input,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+    };
+  },
+};
+
+// ==========================================
+// OPENAI-COMPATIBLE
+// ==========================================
+
+/**
+ * Adapter for the OpenAI chat completions API, used for OpenAI itself
+ * and for local servers that implement the same API
+ */
+function createOpenAICompatibleProvider(
+  id: AIProviderId,
+  defaultModel: string,
+  isConfigured: () => boolean,
+  getClient: () => OpenAI
+): AIProvider {
+  const toUsage = (usage?: OpenAI.CompletionUsage): AIUsage => ({
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+  });
+
+  return {
+    id,
+    defaultModel,
+    isConfigured,
+
+    async complete(request) {
+      const response = await retryWithBackoff(() =>
+        getClient().chat.completions.create({
+          model: request.model,
+          max_tokens: Math.min(request.maxTokens, 16384),
+          temperature: request.temperature,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            { role: 'user', content: request.prompt },
+          ],
+        })
+      );
+
+      return { content: response.choices[0]?.message?.content || '', usage: toUsage(response.usage) };
+    },
+
+    /**
+     * JSON mode, with the schema in the system prompt
+     */
+    async completeStructured(request, spec) {
+      const response = await retryWithBackoff(() =>
+        getClient().chat.completions.create({
+          model: request.model,
+          max_tokens: Math.min(request.maxTokens, 16384),
+          temperature: request.temperature,
+          response_format: { type: 'json_object' },
+          messages: [
+            {
+              role: 'system',
+              content: `${request.systemPrompt}
+
+Respond ONLY with a JSON object (${spec.name}: ${spec.description}) that conforms to this JSON schema:
+${JSON.stringify(toInputSchema(spec.schema))}`,
+            },
+            { role: 'user', content: request.prompt },
+          ],
+        })
+      );
+
+      const content = response.choices[0]?.message?.content || '';
+      let raw: unknown;
+      try {
+        raw = JSON.parse(content);
+      } catch {
+        // Let schema validation report the problem so the caller can re-prompt
+        raw = content;
+      }
+      return { raw, usage: toUsage(response.usage) };
+    },
+  };
+}
+
+const openaiProvider = createOpenAICompatibleProvider(
+  'openai',
+  'gpt-4o',
+  () => !!process.env.OPENAI_API_KEY,
+  getOpenAIClient
+);
+
+const localProvider = createOpenAICompatibleProvider(
+  'local',
+  process.env.LOCAL_AI_MODEL || 'llama3.1',
+  () => !!process.env.LOCAL_AI_BASE_URL,
+  getLocalClient
+);
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  claude: claudeProvider,
+  openai: openaiProvider,
+  local: localProvider,
+  replay: replayProvider,
+};
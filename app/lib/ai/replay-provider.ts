@@ -0,0 +1,147 @@
+/**
+ * Replay AI Provider
+ *
+ * Deterministic, offline stand-in for the model providers: answers each
+ * call with a recorded response, looked up by a hash of the system
+ * prompt, the prompt and the structured output tool. Used by the golden
+ * regression harness and for local runs with AI_ROUTE=replay, which load
+ * their recordings from AI_REPLAY_FILE.
+ *
+ * A prompt edit changes the hash, so a call whose exact recording is gone
+ * is answered with the next unused recording for the same tool and counted
+ * as stale. The schema, parsing and rating logic are still exercised until
+ * the recordings are captured again with live providers (startRecording),
+ * or re-keyed to the new prompts once the change is reviewed.
+ */
+
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import type { AIProvider, CompletionRequest, StructuredOutputSpec } from './providers';
+
+export interface AIRecording {
+  key: string;
+  tool: string | null; // Structured output tool, null for plain text calls
+  response: unknown;
+}
+
+export interface ReplayStats {
+  exact: number;
+  stale: string[]; // Tools answered from a recording for an older prompt
+  missing: string[]; // Tools with no recording left to replay
+}
+
+let recordings: AIRecording[] | null = null;
+let used = new Set<AIRecording>();
+let staleKeys = new Map<AIRecording, string>(); // Recording -> key of the prompt it answered
+let stats: ReplayStats = { exact: 0, stale: [], missing: [] };
+let captured: AIRecording[] | null = null;
+
+export function getRecordingKey(
+  request: Pick<CompletionRequest, 'prompt' | 'systemPrompt'>,
+  spec?: StructuredOutputSpec<unknown>
+): string {
+  return createHash('sha256')
+    .update(`${request.systemPrompt}\n\n${request.prompt}\n\n${spec?.name || ''}`)
+    .digest('hex');
+}
+
+/**
+ * Replace the recordings replayed and reset the stats
+ */
+export function loadRecordings(list: AIRecording[]): void {
+  recordings = list;
+  used = new Set();
+  staleKeys = new Map();
+  stats = { exact: 0, stale: [], missing: [] };
+}
+
+export function getReplayStats(): ReplayStats {
+  return stats;
+}
+
+/**
+ * Key the recordings replayed as stale to the prompts they answered,
+ * returning how many changed
+ */
+export function rekeyStaleRecordings(): number {
+  for (const [recording, key] of staleKeys) {
+    recording.key = key;
+  }
+  return staleKeys.size;
+}
+
+function getRecordings(): AIRecording[] {
+  if (!recordings) {
+    const file = process.env.AI_REPLAY_FILE;
+    loadRecordings(file ? (JSON.parse(readFileSync(file, 'utf-8')) as AIRecording[]) : []);
+  }
+  return recordings!;
+}
+
+/**
+ * Capture every successful provider response from here on
+ */
+export function startRecording(): void {
+  captured = [];
+}
+
+/**
+ * Stop capturing and return what was captured
+ */
+export function stopRecording(): AIRecording[] {
+  const result = captured || [];
+  captured = null;
+  return result;
+}
+
+/**
+ * Called by the router with each successful response from a live provider
+ */
+export function captureResponse(
+  request: Pick<CompletionRequest, 'prompt' | 'systemPrompt'>,
+  spec: StructuredOutputSpec<unknown> | undefined,
+  response: unknown
+): void {
+  captured?.push({ key: getRecordingKey(request, spec), tool: spec?.name || null, response });
+}
+
+function replay(request: CompletionRequest, spec?: StructuredOutputSpec<unknown>): unknown {
+  const key = getRecordingKey(request, spec);
+  const tool = spec?.name || null;
+  const available = getRecordings().filter((r) => !used.has(r));
+
+  const exact = available.find((r) => r.key === key);
+  const recording = exact || available.find((r) => r.tool === tool);
+  const label = tool || 'text completion';
+
+  if (!recording) {
+    stats.missing.push(label);
+    throw new Error(`No recorded response to replay for ${label} (${key.slice(0, 12)})`);
+  }
+
+  used.add(recording);
+  if (exact) {
+    stats.exact++;
+  } else {
+    stats.stale.push(label);
+    staleKeys.set(recording, key);
+  }
+  return recording.response;
+}
+
+export const replayProvider: AIProvider = {
+  id: 'replay',
+  defaultModel: 'replay',
+  isConfigured: () => recordings !== null || !!process.env.AI_REPLAY_FILE,
+
+  async complete(request) {
+    const response = replay(request);
+    return { content: typeof response === 'string' ? response : JSON.stringify(response), usage: { inputTokens: 0, outputTokens: 0 } };
+  },
+
+  async completeStructured(request, spec, onPartial) {
+    const raw = replay(request, spec);
+    onPartial?.(raw);
+    return { raw, usage: { inputTokens: 0, outputTokens: 0 } };
+  },
+};
@@ -0,0 +1,332 @@
+/**
+ * Word Document Text Extraction
+ *
+ * .docx files are ZIP packages of WordprocessingML; we read word/document.xml
+ * directly and keep headings, list items, tables and footnotes.
+ * Legacy binary .doc files fall back to recovering the text runs stored in
+ * the file, which loses formatting but keeps the prose.
+ */
+
+import zlib from 'zlib';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DOC_MIME = 'application/msword';
+
+/**
+ * Check whether a file is a Word document by MIME type or extension
+ */
+export function isWordDocument(mimeType: string | undefined, filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return (
+    mimeType === DOCX_MIME ||
+    mimeType === DOC_MIME ||
+    lower.endsWith('.docx') ||
+    lower.endsWith('.doc')
+  );
+}
+
+/**
+ * Extract text from a .docx or .doc file
+ */
+export async function extractTextFromWord(
+  buffer: Buffer,
+  mimeType: string | undefined,
+  filename: string
+): Promise<{ text: string; pageCount: number }> {
+  const sizeMB = buffer.length / (1024 * 1024);
+  console.log(`[Word] Extracting text from ${filename} (${sizeMB.toFixed(2)}MB)`);
+
+  // .docx is a ZIP archive ("PK" signature); anything else is treated as legacy .doc
+  const isZip = buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+
+  try {
+    const result = isZip ? extractFromDocx(buffer) : extractFromLegacyDoc(buffer);
+    console.log(`[Word] Extracted ${result.text.length} characters from ${result.pageCount} pages`);
+    return result;
+  } catch (error) {
+    console.error('[Word] Extraction failed:', error);
+    throw new Error(`Failed to extract text from Word document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ==========================================
+// DOCX
+// ==========================================
+
+function extractFromDocx(buffer: Buffer): { text: string; pageCount: number } {
+  const entries = readZipEntries(buffer);
+
+  const documentXml = entries.get('word/document.xml');
+  if (!documentXml) {
+    throw new Error('word/document.xml not found - not a valid .docx file');
+  }
+
+  const body = parseWordprocessingML(documentXml.toString('utf-8'));
+
+  const notes = [
+    ...parseNotes(entries.get('word/footnotes.xml'), 'footnote'),
+    ...parseNotes(entries.get('word/endnotes.xml'), 'endnote'),
+  ];
+
+  const text = notes.length > 0
+    ? `${body}\n\nFOOTNOTES:\n${notes.join('\n')}`
+    : body;
+
+  // Word records page and word counts in docProps/app.xml when it saves
+  const appXml = entries.get('docProps/app.xml')?.toString('utf-8') || '';
+  const pagesMatch = appXml.match(/<Pages>(\d+)<\/Pages>/);
+  const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length;
+  const pageCount = pagesMatch
+    ? parseInt(pagesMatch[1], 10)
+    : Math.max(1, Math.ceil(wordCount / 500));
+
+  return { text, pageCount };
+}
+
+/**
+ * Read every entry of a ZIP archive via its central directory
+ */
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+
+  // End of central directory record is in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('ZIP end of central directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    // Only the XML parts are needed - skip embedded media
+    if (name.endsWith('.xml')) {
+      const localNameLength = buffer.readUInt16LE(localHeader + 26);
+      const localExtraLength = buffer.readUInt16LE(localHeader + 28);
+      const dataStart = localHeader + 30 + localNameLength + localExtraLength;
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) {
+        entries.set(name, data);
+      } else if (method === 8) {
+        entries.set(name, zlib.inflateRawSync(data));
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert WordprocessingML into markdown-like text:
+ * headings become "#" lines, list paragraphs "- " items, tables pipe rows
+ */
+function parseWordprocessingML(xml: string): string {
+  const tokenPattern =
+    /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<(\/?)(w:p|w:tbl|w:tr|w:tc)(?=[\s>/])[^>]*?(\/?)>|<w:(tab|br|cr)\/>|<w:pStyle w:val="([^"]+)"\/>|<w:numPr>|<w:(footnoteReference|endnoteReference) w:id="(-?\d+)"\/>/g;
+
+  const lines: string[] = [];
+  let paragraph = '';
+  let headingLevel = 0;
+  let isListItem = false;
+
+  // Table state - a stack so nested tables are flattened into their cell
+  const tables: { rows: string[][]; row: string[]; cell: string[] }[] = [];
+
+  const endParagraph = () => {
+    const text = paragraph.replace(/[ \t]+/g, ' ').trim();
+    const table = tables[tables.length - 1];
+
+    if (table) {
+      if (text) table.cell.push(text);
+    } else if (text) {
+      if (headingLevel > 0) {
+        lines.push('', `${'#'.repeat(Math.min(headingLevel, 6))} ${text}`);
+      } else if (isListItem) {
+        lines.push(`- ${text}`);
+      } else {
+        lines.push(text);
+      }
+    }
+
+    paragraph = '';
+    headingLevel = 0;
+    isListItem = false;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const [, textRun, closing, tag, selfClosing, breakTag, style, noteType, noteId] = match;
+
+    if (textRun !== undefined) {
+      paragraph += decodeXmlEntities(textRun);
+    } else if (breakTag) {
+      paragraph += breakTag === 'tab' ? '\t' : ' ';
+    } else if (style) {
+      const heading = style.match(/^(?:Heading|heading)\s?(\d)$/);
+      if (heading) headingLevel = parseInt(heading[1], 10);
+      else if (style === 'Title') headingLevel = 1;
+      else if (/List/i.test(style)) isListItem = true;
+    } else if (match[0] === '<w:numPr>') {
+      isListItem = true;
+    } else if (noteType) {
+      if (parseInt(noteId, 10) > 0) paragraph += `[^${noteId}]`;
+    } else if (tag === 'w:p') {
+      if (closing || selfClosing) endParagraph();
+    } else if (tag === 'w:tbl') {
+      if (!closing) {
+        endParagraph();
+        tables.push({ rows: [], row: [], cell: [] });
+      } else {
+        const table = tables.pop();
+        if (table && table.rows.length > 0) {
+          const rendered = renderTable(table.rows);
+          const parent = tables[tables.length - 1];
+          if (parent) parent.cell.push(rendered.replace(/\n/g, ' '));
+          else lines.push('', rendered, '');
+        }
+      }
+    } else if (tag === 'w:tr' && tables.length > 0) {
+      const table = tables[tables.length - 1];
+      if (!closing) table.row = [];
+      else table.rows.push(table.row);
+    } else if (tag === 'w:tc' && tables.length > 0) {
+      const table = tables[tables.length - 1];
+      if (!closing) table.cell = [];
+      else table.row.push(table.cell.join(' '));
+    }
+  }
+  endParagraph();
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function renderTable(rows: string[][]): string {
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (row[i] || '').replace(/\|/g, '/')).join(' | ')} |`;
+
+  return [
+    pad(rows[0]),
+    `|${' --- |'.repeat(width)}`,
+    ...rows.slice(1).map(pad),
+  ].join('\n');
+}
+
+/**
+ * Parse footnotes.xml / endnotes.xml into "[^id]: text" lines,
+ * skipping Word's separator notes
+ */
+function parseNotes(xml: Buffer | undefined, kind: 'footnote' | 'endnote'): string[] {
+  if (!xml) return [];
+
+  const notes: string[] = [];
+  const notePattern = new RegExp(`<w:${kind}\\b([^>]*)>([\\s\\S]*?)</w:${kind}>`, 'g');
+
+  let match: RegExpExecArray | null;
+  while ((match = notePattern.exec(xml.toString('utf-8'))) !== null) {
+    const [, attributes, content] = match;
+    if (/w:type="(separator|continuationSeparator|continuationNotice)"/.test(attributes)) continue;
+
+    const id = attributes.match(/w:id="(-?\d+)"/)?.[1];
+    const text = parseWordprocessingML(content).replace(/\n+/g, ' ').trim();
+    if (id && text) {
+      notes.push(`[^${id}]: ${text}`);
+    }
+  }
+
+  return notes;
+}
+
+// ==========================================
+// LEGACY .DOC
+// ==========================================
+
+/**
+ * Best-effort recovery for binary .doc files. Word 97-2003 stores body
+ * text either as UTF-16LE or as 8-bit runs inside the WordDocument stream;
+ * we collect the long printable runs of both encodings and keep whichever
+ * yields more text.
+ */
+function extractFromLegacyDoc(buffer: Buffer): { text: string; pageCount: number } {
+  const utf16Runs = collectRuns(buffer, 2);
+  const ansiRuns = collectRuns(buffer, 1);
+
+  const utf16Text = utf16Runs.join('\n');
+  const ansiText = ansiRuns.join('\n');
+  const text = (utf16Text.length >= ansiText.length ? utf16Text : ansiText)
+    .replace(/\r/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (text.length < 20) {
+    throw new Error('No readable text found in legacy .doc file');
+  }
+
+  const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length;
+  return { text, pageCount: Math.max(1, Math.ceil(wordCount / 500)) };
+}
+
+/**
+ * Collect printable text runs of at least MIN_RUN characters.
+ * step = 2 reads UTF-16LE code units, step = 1 reads single bytes.
+ */
+function collectRuns(buffer: Buffer, step: 1 | 2): string[] {
+  const MIN_RUN = 40;
+  const runs: string[] = [];
+  let current = '';
+
+  const isPrintable = (code: number) =>
+    code === 0x09 || code === 0x0d || code === 0x0a ||
+    (code >= 0x20 && code < 0x7f) ||
+    (code >= 0xa0 && code <= 0x24f) || // Latin-1 supplement and extended Latin
+    (code >= 0x2010 && code <= 0x2027); // dashes, quotes, bullets
+
+  for (let i = 0; i + step <= buffer.length; i += step) {
+    const code = step === 2 ? buffer.readUInt16LE(i) : buffer[i];
+
+    if (isPrintable(code)) {
+      current += String.fromCharCode(code);
+    } else {
+      if (current.trim().length >= MIN_RUN && /[a-z]{3,}/i.test(current)) {
+        runs.push(current.trim());
+      }
+      current = '';
+    }
+  }
+  if (current.trim().length >= MIN_RUN && /[a-z]{3,}/i.test(current)) {
+    runs.push(current.trim());
+  }
+
+  return runs;
+}
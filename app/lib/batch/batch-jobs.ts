@@ -0,0 +1,149 @@
+/**
+ * Batch Job Status
+ *
+ * A batch job is a set of scoring sessions fanned out through Inngest.
+ * Its status is derived from the sessions it links, and persisted once
+ * every session has finished.
+ */
+
+import {
+  getBatchJob,
+  getSessionsForBatch,
+  getResultsForSessions,
+  updateBatchJob,
+} from '../database/supabase';
+
+export type BatchJobStatus = 'queued' | 'processing' | 'completed' | 'partial' | 'error';
+
+export interface BatchSessionSummary {
+  sessionId: string;
+  beneficiaryName?: string;
+  visaType: string;
+  documentType: string;
+  status: string;
+  progress: number;
+  progressMessage?: string;
+  errorMessage?: string;
+  results: {
+    overallScore: number;
+    overallRating: string;
+    approvalProbability: number;
+    rfeProbability: number;
+    denialRisk: number;
+  } | null;
+}
+
+export interface BatchJobSummary {
+  jobId: string;
+  status: BatchJobStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  progress: number;
+  createdAt: string;
+  completedAt?: string;
+  sessions: BatchSessionSummary[];
+}
+
+interface SessionRow {
+  id: string;
+  beneficiary_name?: string;
+  visa_type: string;
+  document_type: string;
+  status: string;
+  progress?: number;
+  progress_message?: string;
+  error_message?: string;
+}
+
+interface ResultRow {
+  session_id: string;
+  overall_score: number;
+  overall_rating: string;
+  approval_probability: number;
+  rfe_probability: number;
+  denial_risk: number;
+}
+
+/**
+ * Derive the batch status from its sessions
+ */
+function deriveBatchStatus(sessions: SessionRow[], total: number): BatchJobStatus {
+  const completed = sessions.filter((s) => s.status === 'completed').length;
+  const failed = sessions.filter((s) => s.status === 'error').length;
+
+  if (completed + failed < total) {
+    const started = sessions.some((s) => s.status !== 'queued' && s.status !== 'uploading');
+    return started ? 'processing' : 'queued';
+  }
+  if (failed === 0) return 'completed';
+  if (completed === 0) return 'error';
+  return 'partial';
+}
+
+/**
+ * Load a batch job with per-session status, progress and final scores.
+ * Returns null when the job does not exist.
+ */
+export async function getBatchJobSummary(jobId: string): Promise<BatchJobSummary | null> {
+  const job = await getBatchJob(jobId);
+  if (!job) return null;
+
+  const sessions: SessionRow[] = await getSessionsForBatch(jobId);
+  const results: ResultRow[] = await getResultsForSessions(sessions.map((s) => s.id));
+  const resultsBySession = new Map(results.map((r) => [r.session_id, r]));
+
+  const total = job.total_sessions || sessions.length;
+  const status = deriveBatchStatus(sessions, total);
+  const completed = sessions.filter((s) => s.status === 'completed').length;
+  const failed = sessions.filter((s) => s.status === 'error').length;
+
+  // Finished sessions count as 100% regardless of their last progress value
+  const progressSum = sessions.reduce(
+    (sum, s) => sum + (s.status === 'completed' || s.status === 'error' ? 100 : s.progress || 0),
+    0
+  );
+
+  let completedAt: string | undefined = job.completed_at || undefined;
+
+  // Persist the terminal status the first time we observe it
+  if (status !== job.status && ['completed', 'partial', 'error'].includes(status)) {
+    completedAt = completedAt || new Date().toISOString();
+    await updateBatchJob(jobId, { status, completedAt }).catch(console.error);
+  } else if (status !== job.status) {
+    await updateBatchJob(jobId, { status }).catch(console.error);
+  }
+
+  return {
+    jobId,
+    status,
+    total,
+    completed,
+    failed,
+    progress: total > 0 ? Math.round(progressSum / total) : 0,
+    createdAt: job.created_at,
+    completedAt,
+    sessions: sessions.map((s) => {
+      const result = resultsBySession.get(s.id);
+      return {
+        sessionId: s.id,
+        beneficiaryName: s.beneficiary_name || undefined,
+        visaType: s.visa_type,
+        documentType: s.document_type,
+        status: s.status,
+        progress: s.progress || 0,
+        progressMessage: s.progress_message || undefined,
+        errorMessage: s.error_message || undefined,
+        results: result
+          ? {
+              overallScore: result.overall_score,
+              overallRating: result.overall_rating,
+              approvalProbability: result.approval_probability,
+              rfeProbability: result.rfe_probability,
+              denialRisk: result.denial_risk,
+            }
+          : null,
+      };
+    }),
+  };
+}
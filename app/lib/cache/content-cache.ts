@@ -0,0 +1,187 @@
+/**
+ * Content-Addressed Cache
+ *
+ * OCR output is cached by the file's SHA-256 and the extraction version,
+ * so a file uploaded again - in this session or any other - is not OCR'd
+ * again. AI responses are cached by a hash of the prompt, the model that
+ * answered and the temperature, so re-scoring an unchanged record makes no new calls.
+ * Both caches live in Supabase and are skipped when it is not configured;
+ * a cache that cannot be read or written never fails the run.
+ *
+ * AI responses are only cached inside a cache scope (withCacheScope),
+ * which carries the bypass flag and counts hits and misses for the run.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import {
+  getExtractionCache,
+  saveExtractionCache,
+  getAIResponseCache,
+  saveAIResponseCache,
+  recordCacheHit,
+  isSupabaseConfigured,
+} from '../database/supabase';
+import { CacheStats, ExtractedPage } from '../types';
+
+export interface CacheScope {
+  bypass: boolean; // Skip reads; fresh results are still written
+  stats: CacheStats;
+  samples: Map<string, number>; // Identical requests made so far in the run
+}
+
+export interface CachedExtraction {
+  text: string;
+  pageCount: number;
+  pages: ExtractedPage[];
+}
+
+const scopes = new AsyncLocalStorage<CacheScope>();
+
+export function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export function createCacheScope(bypass: boolean = false): CacheScope {
+  return {
+    bypass,
+    stats: { extraction: { hits: 0, misses: 0 }, ai: { hits: 0, misses: 0 } },
+    samples: new Map(),
+  };
+}
+
+/**
+ * Run fn with AI response caching, under the scope's bypass flag and counters
+ */
+export function withCacheScope<T>(scope: CacheScope, fn: () => Promise<T>): Promise<T> {
+  return scopes.run(scope, fn);
+}
+
+export function formatCacheStats(stats: CacheStats): string {
+  return `OCR ${stats.extraction.hits} hit(s)/${stats.extraction.misses} miss(es), AI ${stats.ai.hits} hit(s)/${stats.ai.misses} miss(es)`;
+}
+
+// ==========================================
+// EXTRACTION
+// ==========================================
+
+/**
+ * Extracted text for a file's content, if it was extracted before with
+ * the same extraction version
+ */
+export async function getCachedExtraction(
+  contentHash: string,
+  extractionVersion: string,
+  bypass: boolean = false
+): Promise<CachedExtraction | null> {
+  if (bypass || !isSupabaseConfigured()) return null;
+
+  try {
+    const row = await getExtractionCache(contentHash, extractionVersion);
+    if (!row) return null;
+
+    recordCacheHit(
+      'extraction_cache',
+      { content_hash: contentHash, extraction_version: extractionVersion },
+      row.hit_count
+    ).catch((error) => console.error('[Cache] Failed to record extraction hit:', error));
+
+    return { text: row.extracted_text, pageCount: row.page_count || 1, pages: row.pages || [] };
+  } catch (error) {
+    console.error('[Cache] Extraction cache read failed:', error);
+    return null;
+  }
+}
+
+export async function cacheExtraction(
+  contentHash: string,
+  extractionVersion: string,
+  extraction: CachedExtraction
+): Promise<void> {
+  // Empty results are not worth keeping - the next attempt may do better
+  if (!isSupabaseConfigured() || !extraction.text.trim()) return;
+
+  try {
+    await saveExtractionCache({
+      contentHash,
+      extractionVersion,
+      extractedText: extraction.text,
+      pageCount: extraction.pageCount,
+      pages: extraction.pages,
+    });
+  } catch (error) {
+    console.error('[Cache] Extraction cache write failed:', error);
+  }
+}
+
+// ==========================================
+// AI RESPONSES
+// ==========================================
+
+/**
+ * Return the cached response for a request, or make the call and cache
+ * its result. Outside a cache scope the call is always made.
+ *
+ * Each step on the route is looked up in order, and a fresh result is
+ * stored under the step that answered it - a fallback's response is never
+ * replayed as the first provider's.
+ *
+ * Identical requests within one run (ensemble evaluations) are cached as
+ * separate samples, so a re-score replays each run rather than the first.
+ * parse rejects a cached response that no longer fits the expected shape.
+ */
+export async function withAIResponseCache<T, P extends string>(
+  request: { prompt: string; route: { provider: P; model: string }[]; temperature: number },
+  call: () => Promise<{ value: T; provider: P; model: string }>,
+  parse: (cached: unknown) => T | undefined
+): Promise<{ value: T; provider: P; cached: boolean }> {
+  const scope = scopes.getStore();
+  if (!scope || !isSupabaseConfigured()) {
+    const { value, provider } = await call();
+    return { value, provider, cached: false };
+  }
+
+  const promptHash = sha256(request.prompt);
+  const sampleKey = `${promptHash}|${request.temperature}`;
+  const sample = scope.samples.get(sampleKey) || 0;
+  scope.samples.set(sampleKey, sample + 1);
+  const cacheKeyFor = (model: string) => sha256(`${promptHash}|${model}|${request.temperature}|${sample}`);
+
+  if (!scope.bypass) {
+    for (const step of request.route) {
+      const cacheKey = cacheKeyFor(step.model);
+      try {
+        const row = await getAIResponseCache(cacheKey);
+        const value = row && row.provider === step.provider ? parse(row.response) : undefined;
+        if (row && value !== undefined) {
+          scope.stats.ai.hits++;
+          recordCacheHit('ai_response_cache', { cache_key: cacheKey }, row.hit_count).catch((error) =>
+            console.error('[Cache] Failed to record AI response hit:', error)
+          );
+          return { value, provider: step.provider, cached: true };
+        }
+      } catch (error) {
+        console.error('[Cache] AI response cache read failed:', error);
+      }
+    }
+  }
+
+  scope.stats.ai.misses++;
+  const { value, provider, model } = await call();
+
+  try {
+    await saveAIResponseCache({
+      cacheKey: cacheKeyFor(model),
+      promptHash,
+      model,
+      temperature: request.temperature,
+      sample,
+      response: value,
+      provider,
+    });
+  } catch (error) {
+    console.error('[Cache] AI response cache write failed:', error);
+  }
+
+  return { value, provider, cached: false };
+}
@@ -0,0 +1,321 @@
+/**
+ * Score Calibration
+ *
+ * Fits overall score to approval and RFE probability from the USCIS
+ * decisions users record against scored sessions, per visa type, and
+ * reports how the officer's own probabilities compare with what happened.
+ *
+ * Each curve is a logistic regression on the overall score. A case counts
+ * towards the approval curve once it has a final decision (its last
+ * approval or denial) and towards the RFE curve once it has any notice;
+ * an RFE or NOID counts as an RFE issued. Curves are only fitted with
+ * MIN_CASES_FOR_CURVE cases and a few of each outcome - until then the
+ * reliability report is kept, and probabilities stay the officer's.
+ */
+
+import {
+  getAllCaseOutcomes,
+  getSessionsByIds,
+  getResultsForSessions,
+  saveCalibrationCurve,
+} from '../database/supabase';
+import {
+  AdjudicationDecision,
+  CalibratedProbabilities,
+  CalibrationCurve,
+  CalibrationTarget,
+  ReliabilityBin,
+  ReliabilityReport,
+  VisaType,
+  VISA_CRITERIA,
+} from '../types';
+
+const MIN_CASES_FOR_CURVE = 20;
+const MIN_CASES_PER_OUTCOME = 3; // Each of positive and negative, or the curve runs off to 0 or 100
+const BIN_WIDTH = 10;
+const RIDGE = 1; // Keeps the slope finite when the scores separate the outcomes
+const LOOKUP_BATCH = 200; // Session ids per lookup query
+
+export interface CalibrationCase {
+  sessionId: string;
+  visaType: VisaType;
+  overallScore: number;
+  approvalProbability: number;
+  rfeProbability: number;
+  approved?: boolean; // Unset until the case has a final decision
+  rfeIssued: boolean;
+}
+
+interface CalibrationPoint {
+  score: number;
+  predicted: number; // 0-100
+  positive: boolean;
+}
+
+/**
+ * Reduce each session's notices to what the curves are fitted on
+ */
+export function labelOutcomes(
+  outcomes: { session_id: string; decision: string; decision_date: string }[]
+): Map<string, { approved?: boolean; rfeIssued: boolean }> {
+  const labels = new Map<string, { approved?: boolean; rfeIssued: boolean }>();
+  const ordered = [...outcomes].sort((a, b) => a.decision_date.localeCompare(b.decision_date));
+
+  for (const outcome of ordered) {
+    const label = labels.get(outcome.session_id) || { rfeIssued: false };
+    const decision = outcome.decision as AdjudicationDecision;
+
+    if (decision === 'rfe' || decision === 'noid') {
+      label.rfeIssued = true;
+    } else {
+      label.approved = decision === 'approved';
+    }
+    labels.set(outcome.session_id, label);
+  }
+
+  return labels;
+}
+
+function toX(score: number): number {
+  return (score - 50) / 10;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Ridge-regularized logistic regression of outcome on score, by Newton's method
+ */
+export function fitLogisticCurve(points: { score: number; positive: boolean }[]): { intercept: number; slope: number } {
+  let intercept = 0;
+  let slope = 0;
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    // Gradient and Hessian of the penalized negative log-likelihood
+    let g0 = 0;
+    let g1 = RIDGE * slope;
+    let h00 = 0;
+    let h01 = 0;
+    let h11 = RIDGE;
+
+    for (const point of points) {
+      const x = toX(point.score);
+      const p = sigmoid(intercept + slope * x);
+      const residual = p - (point.positive ? 1 : 0);
+      const weight = Math.max(p * (1 - p), 1e-9);
+      g0 += residual;
+      g1 += residual * x;
+      h00 += weight;
+      h01 += weight * x;
+      h11 += weight * x * x;
+    }
+
+    const determinant = h00 * h11 - h01 * h01;
+    if (determinant <= 0) break;
+
+    const step0 = (h11 * g0 - h01 * g1) / determinant;
+    const step1 = (h00 * g1 - h01 * g0) / determinant;
+    intercept -= step0;
+    slope -= step1;
+
+    if (Math.abs(step0) < 1e-8 && Math.abs(step1) < 1e-8) break;
+  }
+
+  return { intercept, slope };
+}
+
+/**
+ * Probability (0-100) the curve gives an overall score
+ */
+export function predictFromCurve(fit: { intercept: number; slope: number }, score: number): number {
+  return Math.round(sigmoid(fit.intercept + fit.slope * toX(score)) * 100);
+}
+
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function brier(predictions: number[], points: CalibrationPoint[]): number {
+  return round(mean(points.map((p, i) => Math.pow(predictions[i] / 100 - (p.positive ? 1 : 0), 2))), 4);
+}
+
+/**
+ * Predicted versus actual rate, binned on the officer's probability
+ */
+export function buildReliabilityReport(
+  points: CalibrationPoint[],
+  fit?: { intercept: number; slope: number }
+): ReliabilityReport {
+  const calibrated = fit ? points.map((p) => predictFromCurve(fit, p.score)) : undefined;
+  const bins: ReliabilityBin[] = [];
+  let weightedGap = 0;
+
+  for (let from = 0; from < 100; from += BIN_WIDTH) {
+    const to = from + BIN_WIDTH;
+    // The top bin includes 100
+    const inBin = points
+      .map((point, i) => ({ point, i }))
+      .filter(({ point }) => point.predicted >= from && (point.predicted < to || (to === 100 && point.predicted === 100)));
+    if (inBin.length === 0) continue;
+
+    const meanPredicted = mean(inBin.map(({ point }) => point.predicted));
+    const actualRate = (inBin.filter(({ point }) => point.positive).length / inBin.length) * 100;
+    weightedGap += inBin.length * Math.abs(meanPredicted - actualRate);
+
+    bins.push({
+      from,
+      to,
+      cases: inBin.length,
+      meanPredicted: round(meanPredicted, 1),
+      meanCalibrated: calibrated ? round(mean(inBin.map(({ i }) => calibrated[i])), 1) : undefined,
+      actualRate: round(actualRate, 1),
+    });
+  }
+
+  const positives = points.filter((p) => p.positive).length;
+
+  return {
+    cases: points.length,
+    positives,
+    baseRate: points.length > 0 ? round((positives / points.length) * 100, 1) : 0,
+    bins,
+    brierModel: points.length > 0 ? brier(points.map((p) => p.predicted), points) : 0,
+    brierCurve: calibrated && points.length > 0 ? brier(calibrated, points) : undefined,
+    calibrationError: points.length > 0 ? round(weightedGap / points.length, 1) : 0,
+  };
+}
+
+function fitTarget(
+  visaType: VisaType,
+  target: CalibrationTarget,
+  points: CalibrationPoint[],
+  fittedAt: string
+): CalibrationCurve {
+  const positives = points.filter((p) => p.positive).length;
+  const enough =
+    points.length >= MIN_CASES_FOR_CURVE &&
+    positives >= MIN_CASES_PER_OUTCOME &&
+    points.length - positives >= MIN_CASES_PER_OUTCOME;
+
+  const fit = enough ? fitLogisticCurve(points) : undefined;
+  return {
+    visaType,
+    target,
+    fit: fit && { intercept: round(fit.intercept, 6), slope: round(fit.slope, 6) },
+    reliability: buildReliabilityReport(points, fit),
+    fittedAt,
+  };
+}
+
+/**
+ * Approval and RFE curves for every visa type with decided cases
+ */
+export function fitCalibrationCurves(cases: CalibrationCase[], fittedAt: string): CalibrationCurve[] {
+  const curves: CalibrationCurve[] = [];
+
+  for (const visaType of Object.keys(VISA_CRITERIA) as VisaType[]) {
+    const forVisa = cases.filter((c) => c.visaType === visaType);
+    if (forVisa.length === 0) continue;
+
+    const approvalPoints = forVisa
+      .filter((c) => c.approved !== undefined)
+      .map((c) => ({ score: c.overallScore, predicted: c.approvalProbability, positive: !!c.approved }));
+    if (approvalPoints.length > 0) {
+      curves.push(fitTarget(visaType, 'approval', approvalPoints, fittedAt));
+    }
+
+    const rfePoints = forVisa.map((c) => ({ score: c.overallScore, predicted: c.rfeProbability, positive: c.rfeIssued }));
+    curves.push(fitTarget(visaType, 'rfe', rfePoints, fittedAt));
+  }
+
+  return curves;
+}
+
+/**
+ * Probabilities the visa type's fitted curves give an overall score,
+ * or undefined when neither curve has been fitted yet
+ */
+export function calibrateProbabilities(
+  curves: CalibrationCurve[],
+  visaType: VisaType,
+  overallScore: number
+): CalibratedProbabilities | undefined {
+  const approval = curves.find((c) => c.visaType === visaType && c.target === 'approval' && c.fit);
+  const rfe = curves.find((c) => c.visaType === visaType && c.target === 'rfe' && c.fit);
+  if (!approval && !rfe) return undefined;
+
+  return {
+    approvalProbability: approval?.fit ? predictFromCurve(approval.fit, overallScore) : undefined,
+    rfeProbability: rfe?.fit ? predictFromCurve(rfe.fit, overallScore) : undefined,
+    cases: approval?.reliability.cases ?? 0,
+    fittedAt: (approval || rfe)!.fittedAt,
+  };
+}
+
+/**
+ * Map a calibration_curves row onto CalibrationCurve
+ */
+export function toCalibrationCurve(row: {
+  visa_type: string;
+  target: string;
+  intercept: number | null;
+  slope: number | null;
+  reliability: ReliabilityReport;
+  fitted_at: string;
+}): CalibrationCurve {
+  return {
+    visaType: row.visa_type as VisaType,
+    target: row.target as CalibrationTarget,
+    fit: row.intercept !== null && row.slope !== null ? { intercept: row.intercept, slope: row.slope } : undefined,
+    reliability: row.reliability,
+    fittedAt: row.fitted_at,
+  };
+}
+
+/**
+ * Load every scored session with a recorded outcome, refit the curves
+ * and save them
+ */
+export async function runCalibration(): Promise<CalibrationCurve[]> {
+  const labels = labelOutcomes(await getAllCaseOutcomes());
+  const sessionIds = [...labels.keys()];
+
+  const cases: CalibrationCase[] = [];
+  for (let i = 0; i < sessionIds.length; i += LOOKUP_BATCH) {
+    const ids = sessionIds.slice(i, i + LOOKUP_BATCH);
+    const [sessions, results] = await Promise.all([getSessionsByIds(ids), getResultsForSessions(ids)]);
+    const visaTypes = new Map(sessions.map((s: { id: string; visa_type: string }) => [s.id, s.visa_type as VisaType]));
+
+    for (const result of results) {
+      const visaType = visaTypes.get(result.session_id);
+      const label = labels.get(result.session_id);
+      if (!visaType || !label || result.overall_score === null) continue;
+
+      cases.push({
+        sessionId: result.session_id,
+        visaType,
+        overallScore: result.overall_score,
+        approvalProbability: result.approval_probability ?? 0,
+        rfeProbability: result.rfe_probability ?? 0,
+        approved: label.approved,
+        rfeIssued: label.rfeIssued,
+      });
+    }
+  }
+
+  const curves = fitCalibrationCurves(cases, new Date().toISOString());
+  for (const curve of curves) {
+    await saveCalibrationCurve(curve);
+  }
+
+  console.log(
+    `[Calibration] Fitted ${curves.filter((c) => c.fit).length}/${curves.length} curve(s) from ${cases.length} case(s) with outcomes`
+  );
+  return curves;
+}
@@ -272,47 +272,215 @@ export const O1A_CRITERIA: CriterionTemplate[] = [
 export const O1B_CRITERIA: CriterionTemplate[] = [
   {
     number: 1,
-    name: 'Nomination for or receipt of significant awards',
-    shortName: 'Awards',
-    description: 'Nomination for or receipt of significant national or international awards or prizes in the field.',
+    name: 'Performed as a lead or starring participant',
+    shortName: 'Lead Roles',
+    description: 'Evidence that the beneficiary has performed, and will perform, as a lead or starring participant in productions or events with a distinguished reputation, shown by critical reviews, advertisements, publicity releases, publications, contracts or endorsements.',
     evidenceTypes: [
-      'Award nominations/wins',
-      'Award significance documentation',
-      'Competition details',
+      'Playbills, programs and posters showing billing',
+      'Contracts or deal memos naming the role',
+      'Advertisements and publicity releases',
+      'Reviews of the production naming the beneficiary',
+      'Evidence of the production or venue\'s reputation',
     ],
     strongExamples: [
-      'Academy Award, Emmy, Grammy nomination',
-      'Tony Award',
-      'Cannes Film Festival awards',
-      'National arts foundation awards',
+      'Top billing in a film with wide theatrical release',
+      'Principal dancer or soloist with a major company',
+      'Headlining tours at well-known venues or festivals',
+      'Lead role in a network or major streaming series',
     ],
     commonWeaknesses: [
-      'Local or regional awards only',
-      'Awards from unknown organizations',
-      'Participation certificates',
+      'Ensemble, chorus or supporting roles described as leads',
+      'Productions with no evidence of distinguished reputation',
+      'Only past roles, with nothing showing the beneficiary will perform as a lead',
+      'Self-produced events with no independent recognition',
     ],
     tips: [
-      'Document the prestige of the award',
-      'Show competition level',
-      'Include previous notable winners',
+      'Show billing order or credits that establish the lead role',
+      'Document the reputation of each production or event separately',
+      'Pair past leads with contracts for upcoming leads in the itinerary',
+    ],
+  },
+  {
+    number: 2,
+    name: 'Critical reviews or other published material',
+    shortName: 'Reviews/Press',
+    description: 'Evidence of national or international recognition for achievements, shown by critical reviews or other published material by or about the beneficiary in major newspapers, trade journals, magazines or other publications.',
+    evidenceTypes: [
+      'Critical reviews naming the beneficiary',
+      'Feature articles and interviews',
+      'Trade press coverage (Variety, The Hollywood Reporter, Billboard)',
+      'Circulation and readership data',
+      'Certified translations of foreign-language articles',
+    ],
+    strongExamples: [
+      'Reviews in The New York Times, The Guardian or Le Monde',
+      'Cover stories in major trade publications',
+      'Profiles in national broadcast or streaming media',
+    ],
+    commonWeaknesses: [
+      'Articles about the production that barely mention the beneficiary',
+      'Local or community press only',
+      'Blogs, social media posts or paid placements',
+      'No circulation data for the publication',
+    ],
+    tips: [
+      'Highlight the passages that discuss the beneficiary\'s work',
+      'Include the author, date and circulation for each publication',
+      'Show national or international reach, not local coverage',
+    ],
+  },
+  {
+    number: 3,
+    name: 'Performed for organizations with distinguished reputation',
+    shortName: 'Distinguished Organizations',
+    description: 'Evidence that the beneficiary has performed, and will perform, in a lead, starring or critical role for organizations and establishments that have a distinguished reputation, shown by articles, testimonials or other evidence.',
+    evidenceTypes: [
+      'Letters from the organizations describing the role',
+      'Evidence of each organization\'s reputation (awards, press, history)',
+      'Contracts for current or upcoming engagements',
+      'Credits, programs or season brochures',
+    ],
+    strongExamples: [
+      'Principal with a national opera, ballet or symphony company',
+      'Critical role at a major studio, network or label',
+      'Resident artist at a leading theater or museum',
+    ],
+    commonWeaknesses: [
+      'Organizations whose reputation is asserted but not documented',
+      'Letters that confirm employment but not a critical role',
+      'Only past engagements, with no future role shown',
+    ],
+    tips: [
+      'Explain why the role was critical to the organization\'s success',
+      'Document the organization\'s reputation with independent sources',
+      'Cover both past and upcoming engagements',
+    ],
+  },
+  {
+    number: 4,
+    name: 'Record of major commercial or critically acclaimed successes',
+    shortName: 'Commercial/Critical Success',
+    description: 'Evidence of a record of major commercial or critically acclaimed successes, shown by title, rating, standing in the field, box office receipts, motion picture or television ratings, and other occupational achievements reported in trade journals or major media.',
+    evidenceTypes: [
+      'Box office, streaming or broadcast ratings data',
+      'Chart positions and sales or certification figures',
+      'Festival selections and critics\' lists',
+      'Trade journal reports on the works\' success',
+    ],
+    strongExamples: [
+      'Films with top-ten box office openings',
+      'Gold or platinum certified recordings',
+      'Works selected for Cannes, Venice, Berlin or Sundance',
+      'Series renewed on the strength of ratings',
+    ],
+    commonWeaknesses: [
+      'Successes of the production with no link to the beneficiary\'s contribution',
+      'Raw view counts or streams without industry context',
+      'A single success rather than a record of them',
+    ],
+    tips: [
+      'Connect each success to the beneficiary\'s specific role',
+      'Benchmark figures against industry data for similar works',
+      'Show a pattern of successes over time',
+    ],
+  },
+  {
+    number: 5,
+    name: 'Received significant recognition from organizations, critics, or experts',
+    shortName: 'Recognition',
+    description: 'Evidence of significant recognition for achievements from organizations, critics, government agencies or other recognized experts in the field, in a way that clearly indicates the author\'s authority, expertise and knowledge of the beneficiary\'s achievements.',
+    evidenceTypes: [
+      'Expert testimonial letters',
+      'Award nominations and wins',
+      'Government or cultural agency recognition',
+      'Curriculum vitae of each letter writer',
+    ],
+    strongExamples: [
+      'Letters from Academy, Recording Academy or Television Academy members',
+      'Nomination for an Academy Award, Emmy, Grammy or Tony',
+      'Recognition from a national arts council or ministry of culture',
+    ],
+    commonWeaknesses: [
+      'Letters from friends or colleagues with no independent standing',
+      'Form letters with near-identical wording',
+      'Praise without specific achievements',
+    ],
+    tips: [
+      'Establish each writer\'s authority and how they know the work',
+      'Have letters cite concrete achievements, not general praise',
+      'Note that a nomination for or receipt of a significant award (e.g. an Academy Award) can substitute for the criteria entirely',
+    ],
+  },
+  {
+    number: 6,
+    name: 'High salary or substantial remuneration',
+    shortName: 'High Salary',
+    description: 'Evidence that the beneficiary has commanded, or will command, a high salary or other substantial remuneration in relation to others in the field, shown by contracts or other reliable evidence.',
+    evidenceTypes: [
+      'Contracts and deal memos',
+      'Pay stubs, tax returns or royalty statements',
+      'Union scale rates (SAG-AFTRA, AFM, AEA) for comparison',
+      'Industry compensation surveys',
+    ],
+    strongExamples: [
+      'Fees well above union scale for the role',
+      'Per-engagement fees at the top of industry surveys',
+      'Substantial royalties or backend participation',
+    ],
+    commonWeaknesses: [
+      'No comparison data for others in the field',
+      'Comparing against national averages for all occupations',
+      'Gross production budgets presented as personal pay',
+    ],
+    tips: [
+      'Compare against union scale or surveys for the same role',
+      'Document total remuneration, including royalties and backend',
+      'Include the offered fees for upcoming engagements',
     ],
   },
-  // Add more O-1B criteria...
 ];
 
 export const P1A_CRITERIA: CriterionTemplate[] = [
   {
     number: 1,
-    name: 'Significant participation in a prior season with a major U.S. sports league',
-    shortName: 'Prior US League',
-    description: 'Evidence of significant participation with a major U.S. sports league.',
+    name: 'International recognition in the sport',
+    shortName: 'International Recognition',
+    description: 'Evidence that the athlete or team has achieved international recognition in the sport, including significant honors or awards, demonstrating a high level of achievement renowned in more than one country.',
+    evidenceTypes: [
+      'International honors and awards',
+      'Medals and titles from international events',
+      'Media coverage in more than one country',
+      'Evidence of the events\' international standing',
+    ],
+    strongExamples: [
+      'Olympic, world championship or continental championship medals',
+      'International player or athlete of the year honors',
+      'Titles at internationally sanctioned tour events',
+    ],
+    commonWeaknesses: [
+      'Domestic-only recognition',
+      'Youth or amateur honors presented as elite recognition',
+      'Participation without results',
+    ],
+    tips: [
+      'Show recognition in more than one country',
+      'Document the level and field size of each event',
+      'Include coverage from international sports media',
+    ],
+  },
+  {
+    number: 2,
+    name: 'Significant participation with a major United States sports league',
+    shortName: 'Major U.S. League',
+    description: 'Evidence of significant participation in a prior season with a major United States sports league.',
     evidenceTypes: [
       'Team contracts',
       'Game statistics',
       'Roster listings',
+      'League records of appearances',
     ],
     strongExamples: [
-      'Starting player in NFL, NBA, MLB, NHL',
+      'Starting player in the NFL, NBA, MLB, NHL or MLS',
       'Regular season participation statistics',
       'All-star selections',
     ],
@@ -327,27 +495,531 @@ export const P1A_CRITERIA: CriterionTemplate[] = [
       'Include team achievements during tenure',
     ],
   },
-  // Add more P-1A criteria...
+  {
+    number: 3,
+    name: 'Significant participation in international competition',
+    shortName: 'International Competition',
+    description: 'Evidence of significant participation in international competition with a national team.',
+    evidenceTypes: [
+      'National team selection letters',
+      'Official match or event results',
+      'Federation records of caps or appearances',
+      'Evidence of the competition\'s standing',
+    ],
+    strongExamples: [
+      'Olympic Games or world championship appearances',
+      'World Cup or continental cup matches with the senior national team',
+      'Multiple caps in official international fixtures',
+    ],
+    commonWeaknesses: [
+      'Selection to a squad without appearances',
+      'Friendly or exhibition matches only',
+      'Youth national team participation only',
+    ],
+    tips: [
+      'Document minutes, starts or results, not just selection',
+      'Show the competition is officially sanctioned',
+      'Get a federation letter confirming the athlete\'s role',
+    ],
+  },
+  {
+    number: 4,
+    name: 'Significant participation in a prior season with a major U.S. college',
+    shortName: 'U.S. College',
+    description: 'Evidence of significant participation in a prior season for a U.S. college or university in intercollegiate competition.',
+    evidenceTypes: [
+      'Official NCAA or conference statistics',
+      'Letters from the athletic department',
+      'Roster listings and game logs',
+      'Conference or national honors',
+    ],
+    strongExamples: [
+      'Starter in NCAA Division I competition',
+      'All-conference or All-American selection',
+      'NCAA championship appearances',
+    ],
+    commonWeaknesses: [
+      'Redshirt or walk-on seasons with little playing time',
+      'Club or intramural sports',
+      'Lower-division play without standout results',
+    ],
+    tips: [
+      'Quantify starts, minutes and statistics for the season',
+      'Include conference and national rankings',
+      'Have the coach describe the athlete\'s role on the team',
+    ],
+  },
+  {
+    number: 5,
+    name: 'Written statement from an official of the sport',
+    shortName: 'Official Statement',
+    description: 'A written statement from an official of the governing body of the sport, or from a member of the sports media or a recognized expert, detailing how the athlete or team is internationally recognized.',
+    evidenceTypes: [
+      'Letter from the international or national federation',
+      'Letter from a league or tournament official',
+      'Letter from a recognized sports journalist or expert',
+      'Credentials of each letter writer',
+    ],
+    strongExamples: [
+      'Statement from the sport\'s international federation detailing results',
+      'Letter from a national governing body citing rankings and titles',
+      'Statement from a well-known commentator at a major network',
+    ],
+    commonWeaknesses: [
+      'Generic letters that do not explain the international recognition',
+      'Letters from the athlete\'s own coach or agent only',
+      'No evidence of the writer\'s position or expertise',
+    ],
+    tips: [
+      'Ask the writer to explain HOW the athlete is internationally recognized',
+      'Cite specific results, rankings and dates',
+      'Include the writer\'s title and role in the sport',
+    ],
+  },
+  {
+    number: 6,
+    name: 'International ranking',
+    shortName: 'Ranking',
+    description: 'Evidence that the athlete or team is ranked, if the sport has international rankings.',
+    evidenceTypes: [
+      'Official federation ranking lists',
+      'Ranking history over time',
+      'Explanation of the ranking methodology',
+    ],
+    strongExamples: [
+      'ATP, WTA, FIFA or world federation top rankings',
+      'Consistent top-100 world ranking',
+      'Highest career ranking documented by the federation',
+    ],
+    commonWeaknesses: [
+      'Unofficial or fan-compiled rankings',
+      'A ranking too low to show international recognition',
+      'A single snapshot from years ago',
+    ],
+    tips: [
+      'Use the official ranking from the governing body',
+      'Show current and peak rankings with dates',
+      'Explain how many athletes are ranked to give context',
+    ],
+  },
 ];
 
 export const EB1A_CRITERIA: CriterionTemplate[] = [
-  // Similar to O-1A but with EB-1A specific guidance
-  ...O1A_CRITERIA.map(criterion => ({
-    ...criterion,
+  {
+    number: 1,
+    name: 'Nationally or internationally recognized prizes or awards',
+    shortName: 'Awards',
+    description: 'Documentation of the beneficiary\'s receipt of lesser nationally or internationally recognized prizes or awards for excellence in the field of endeavor (8 CFR 204.5(h)(3)(i)).',
+    evidenceTypes: [
+      'Award certificates',
+      'Selection criteria and judging panels',
+      'Number of competitors or nominees',
+      'Media coverage of the award',
+      'Previous notable recipients',
+    ],
+    strongExamples: [
+      'Major professional society awards for career achievement',
+      'National science, arts or industry awards',
+      'Best paper awards at top-tier conferences',
+    ],
+    commonWeaknesses: [
+      'Student, early-career or fellowship awards',
+      'Internal company or university awards',
+      'Awards recognizing a team or organization, not the beneficiary',
+      'Awards from years ago with nothing recent',
+    ],
+    tips: [
+      'Show national or international recognition of the award itself',
+      'Document the selection criteria and competition',
+      'Show awards recent enough to support sustained acclaim',
+    ],
+  },
+  {
+    number: 2,
+    name: 'Membership in associations requiring outstanding achievements',
+    shortName: 'Memberships',
+    description: 'Documentation of membership in associations in the field which require outstanding achievements of their members, as judged by recognized national or international experts (8 CFR 204.5(h)(3)(ii)).',
+    evidenceTypes: [
+      'Membership certificates',
+      'Bylaws showing achievement requirements',
+      'Description of the election or nomination process',
+      'Identity of the experts who judged admission',
+    ],
+    strongExamples: [
+      'National Academy of Sciences, Engineering or Medicine',
+      'IEEE Fellow, ACM Fellow or equivalent elected grade',
+      'Invitation-only academies judged by recognized experts',
+    ],
+    commonWeaknesses: [
+      'Paid or open memberships',
+      'Membership requiring only a degree, years of experience or a job',
+      'No evidence of who judged admission',
+    ],
+    tips: [
+      'Quote the bylaws setting the achievement requirement',
+      'Show that recognized experts judged the admission',
+      'Give admission rates or number of members',
+    ],
+  },
+  {
+    number: 3,
+    name: 'Published material about the beneficiary',
+    shortName: 'Press/Media',
+    description: 'Published material about the beneficiary in professional or major trade publications or other major media, relating to the beneficiary\'s work in the field, including the title, date and author (8 CFR 204.5(h)(3)(iii)).',
+    evidenceTypes: [
+      'News articles and profiles',
+      'Trade publication features',
+      'Broadcast interview transcripts',
+      'Circulation and audience data',
+      'Certified translations',
+    ],
+    strongExamples: [
+      'Profiles in national newspapers or magazines',
+      'Feature coverage in leading trade publications',
+      'Documentaries or broadcast segments about the beneficiary\'s work',
+    ],
+    commonWeaknesses: [
+      'Articles about the employer that only quote the beneficiary',
+      'Press releases or paid content',
+      'Missing title, date or author',
+      'No evidence the outlet is major media',
+    ],
+    tips: [
+      'Include title, date and author for every article',
+      'Document each outlet\'s circulation and reach',
+      'Show the material is ABOUT the beneficiary and their work',
+    ],
+  },
+  {
+    number: 4,
+    name: 'Participation as a judge of others\' work',
+    shortName: 'Judging',
+    description: 'Evidence of the beneficiary\'s participation, individually or on a panel, as a judge of the work of others in the same or an allied field (8 CFR 204.5(h)(3)(iv)).',
+    evidenceTypes: [
+      'Peer review invitations and completion records',
+      'Editorial board appointments',
+      'Grant or award panel letters',
+      'Competition judging documentation',
+    ],
+    strongExamples: [
+      'Sustained peer review for top journals in the field',
+      'Editorial board or associate editor of a leading journal',
+      'Panelist for national funding agencies',
+    ],
+    commonWeaknesses: [
+      'Invitations with no proof the review was done',
+      'Judging of students or subordinates',
+      'A handful of reviews presented as sustained judging',
+    ],
+    tips: [
+      'Show completed reviews, not just invitations',
+      'Document the standing of the journals or panels',
+      'Use the judging record in final merits to show standing among peers',
+    ],
+  },
+  {
+    number: 5,
+    name: 'Original contributions of major significance',
+    shortName: 'Contributions',
+    description: 'Evidence of the beneficiary\'s original scientific, scholarly, artistic, athletic or business-related contributions of major significance in the field (8 CFR 204.5(h)(3)(v)).',
+    evidenceTypes: [
+      'Independent expert letters detailing impact',
+      'Citation analysis',
+      'Patents with licensing or adoption evidence',
+      'Evidence of commercial or clinical use',
+    ],
+    strongExamples: [
+      'Methods or technologies adopted across the field',
+      'Highly cited work that changed practice',
+      'Patents licensed and used in widely sold products',
+    ],
+    commonWeaknesses: [
+      'Originality shown but no evidence of major significance',
+      'Letters only from collaborators',
+      'Impact limited to one employer or project',
+    ],
+    tips: [
+      'Show impact on the field as a whole, not just originality',
+      'Favor letters from independent experts who adopted the work',
+      'Support letters with citations, adoption data or revenue',
+    ],
+  },
+  {
+    number: 6,
+    name: 'Authorship of scholarly articles',
+    shortName: 'Publications',
+    description: 'Evidence of the beneficiary\'s authorship of scholarly articles in the field, in professional or major trade publications or other major media (8 CFR 204.5(h)(3)(vi)).',
+    evidenceTypes: [
+      'Published papers',
+      'Journal rankings or impact factors',
+      'Citation counts and h-index',
+      'Conference proceedings in peer-reviewed venues',
+    ],
+    strongExamples: [
+      'First-author papers in leading journals of the field',
+      'Highly cited papers relative to the field',
+      'Invited reviews in major publications',
+    ],
+    commonWeaknesses: [
+      'Predatory or non-peer-reviewed venues',
+      'Publication counts with no evidence of how the field received them',
+      'Co-authorship with an unclear contribution',
+    ],
+    tips: [
+      'Show citation counts against field norms',
+      'Clarify the beneficiary\'s role in co-authored work',
+      'Use the reception of the articles in final merits',
+    ],
+  },
+  {
+    number: 7,
+    name: 'Display of work at artistic exhibitions',
+    shortName: 'Exhibitions',
+    description: 'Evidence of the display of the beneficiary\'s work in the field at artistic exhibitions or showcases (8 CFR 204.5(h)(3)(vii)).',
+    evidenceTypes: [
+      'Exhibition catalogs and programs',
+      'Gallery or museum letters',
+      'Reviews of the exhibitions',
+      'Evidence of the venues\' reputation',
+    ],
+    strongExamples: [
+      'Solo exhibitions at major museums or galleries',
+      'Selection for biennials or juried international shows',
+      'Permanent collection acquisitions',
+    ],
+    commonWeaknesses: [
+      'Non-artistic work shown at trade shows or conferences',
+      'Pay-to-exhibit or vanity galleries',
+      'Group shows with no evidence of selection',
+    ],
+    tips: [
+      'Limit this criterion to artistic work',
+      'Document the venue\'s reputation and selection process',
+      'Include reviews or attendance figures',
+    ],
+  },
+  {
+    number: 8,
+    name: 'Leading or critical role in distinguished organizations',
+    shortName: 'Leading Role',
+    description: 'Evidence that the beneficiary has performed in a leading or critical role for organizations or establishments that have a distinguished reputation (8 CFR 204.5(h)(3)(viii)).',
+    evidenceTypes: [
+      'Letters from leadership describing the role',
+      'Organizational charts',
+      'Evidence of the organization\'s reputation',
+      'Results attributable to the beneficiary',
+    ],
+    strongExamples: [
+      'Founder or executive of a recognized company',
+      'Principal investigator leading a major program',
+      'Head of a division at a leading institution',
+    ],
+    commonWeaknesses: [
+      'Senior title without evidence of the role\'s importance',
+      'Organization\'s distinguished reputation not documented',
+      'Role in a division rather than the organization, with no link to its success',
+    ],
+    tips: [
+      'Show how the role contributed to the organization\'s outcomes',
+      'Document the organization\'s reputation independently',
+      'Explain the role\'s place in the organizational hierarchy',
+    ],
+  },
+  {
+    number: 9,
+    name: 'High salary or remuneration',
+    shortName: 'High Salary',
+    description: 'Evidence that the beneficiary has commanded a high salary or other significantly high remuneration for services, in relation to others in the field (8 CFR 204.5(h)(3)(ix)).',
+    evidenceTypes: [
+      'Tax returns and W-2s',
+      'Employment contracts',
+      'Bureau of Labor Statistics or industry survey data',
+      'Equity grant and vesting documents',
+    ],
+    strongExamples: [
+      'Compensation above the 90th percentile for the occupation',
+      'Compensation comparable to recognized leaders in the field',
+      'Substantial realized equity',
+    ],
+    commonWeaknesses: [
+      'Comparison data for a different occupation or region',
+      'Unvested or speculative equity',
+      'Salary that is high only compared to national averages',
+    ],
     tips: [
-      ...criterion.tips,
-      'EB-1A requires meeting 3+ criteria with sustained national/international acclaim',
+      'Compare against the same occupation and geography',
+      'Document total realized compensation',
+      'For foreign salaries, compare within that country',
     ],
-  })),
+  },
+  {
+    number: 10,
+    name: 'Commercial successes in the performing arts',
+    shortName: 'Commercial Success',
+    description: 'Evidence of commercial successes in the performing arts, shown by box office receipts or record, cassette, compact disk or video sales (8 CFR 204.5(h)(3)(x)).',
+    evidenceTypes: [
+      'Box office reports',
+      'Sales and streaming certifications',
+      'Chart positions',
+      'Distributor or label statements',
+    ],
+    strongExamples: [
+      'Gold or platinum certifications',
+      'Top chart positions on major charts',
+      'Box office receipts above industry benchmarks',
+    ],
+    commonWeaknesses: [
+      'Raw streams or views without industry context',
+      'Success of a production with no link to the beneficiary\'s performance',
+      'Applying the criterion outside the performing arts',
+    ],
+    tips: [
+      'Benchmark sales against comparable releases',
+      'Show the success is attributable to the beneficiary',
+      'Use official certification or chart data',
+    ],
+  },
 ];
 
-export const VISA_TEMPLATES: Record<string, CriterionTemplate[]> = {
-  'O-1A': O1A_CRITERIA,
-  'O-1B': O1B_CRITERIA,
-  'P-1A': P1A_CRITERIA,
-  'EB-1A': EB1A_CRITERIA,
+export interface ComparableEvidenceTemplate {
+  citation: string;
+  description: string;
+  evidenceTypes: string[];
+  commonWeaknesses: string[];
+  tips: string[];
+}
+
+export const EB1A_COMPARABLE_EVIDENCE: ComparableEvidenceTemplate = {
+  citation: '8 CFR 204.5(h)(4)',
+  description: 'If the criteria do not readily apply to the beneficiary\'s occupation, the petitioner may submit comparable evidence to establish eligibility.',
+  evidenceTypes: [
+    'Explanation of why a specific criterion does not readily apply to the occupation',
+    'Evidence of equal significance to the criterion it replaces',
+    'Industry sources describing how achievement is recognized in the occupation',
+  ],
+  commonWeaknesses: [
+    'Offering comparable evidence because the petitioner could not meet a criterion that does apply',
+    'No explanation of why the criteria do not readily apply',
+    'Evidence of lesser weight than the criterion it stands in for',
+  ],
+  tips: [
+    'Identify the criterion being replaced and explain why it does not apply to the occupation',
+    'Show the substitute evidence carries the same weight as that criterion',
+    'Comparable evidence still counts toward the three criteria and the final merits determination',
+  ],
 };
 
-export function getTemplatesForVisa(visaType: string): CriterionTemplate[] {
-  return VISA_TEMPLATES[visaType] || O1A_CRITERIA;
-}
+export const EB2_NIW_CRITERIA: CriterionTemplate[] = [
+  {
+    number: 1,
+    name: 'Advanced degree or exceptional ability',
+    shortName: 'EB-2 Eligibility',
+    description: 'Evidence that the beneficiary holds an advanced degree (or a bachelor\'s degree plus five years of progressive post-degree experience), or has exceptional ability in the sciences, arts or business.',
+    evidenceTypes: [
+      'Diplomas and transcripts',
+      'Foreign credential evaluations',
+      'Employer letters documenting progressive experience',
+      'Professional licenses or certifications',
+      'Exceptional ability evidence under 8 CFR 204.5(k)(3)(ii)',
+    ],
+    strongExamples: [
+      'U.S. master\'s degree or Ph.D. in the field of the endeavor',
+      'Foreign degree with an evaluation confirming U.S. equivalency',
+      'Bachelor\'s degree plus dated letters covering five years of progressive experience',
+    ],
+    commonWeaknesses: [
+      'Degree in a field unrelated to the proposed endeavor',
+      'Foreign degree with no credential evaluation',
+      'Experience letters without dates, titles or duties',
+      'Experience gained before the bachelor\'s degree counted as progressive',
+    ],
+    tips: [
+      'Tie the degree field directly to the proposed endeavor',
+      'Use experience letters on letterhead with exact dates and duties',
+      'Claim exceptional ability only with at least three (k)(3)(ii) criteria',
+    ],
+  },
+  {
+    number: 2,
+    name: 'Proposed endeavor has substantial merit and national importance',
+    shortName: 'Dhanasar Prong 1',
+    description: 'Evidence that the specific proposed endeavor has substantial merit and national importance, judged by its potential prospective impact (Matter of Dhanasar prong 1).',
+    evidenceTypes: [
+      'Detailed statement of the proposed endeavor',
+      'Government reports or policy documents on the problem addressed',
+      'Industry data on the scale of the need',
+      'Expert letters on the endeavor\'s broader implications',
+    ],
+    strongExamples: [
+      'An endeavor addressing a documented national priority (e.g. public health, critical infrastructure)',
+      'Research with implications across the field, not one employer',
+      'An enterprise with potential to create jobs in an economically depressed area',
+    ],
+    commonWeaknesses: [
+      'Endeavor described only as "continuing my work" or by job title',
+      'Importance shown only for a single employer or its clients',
+      'Relying on the importance of the field rather than the specific endeavor',
+      'No evidence connecting the endeavor to national-level impact',
+    ],
+    tips: [
+      'Define the endeavor concretely - what will be done, where, and for whom',
+      'Show impact beyond the beneficiary\'s employer or local area',
+      'Cite government or industry sources establishing the national need',
+    ],
+  },
+  {
+    number: 3,
+    name: 'Well positioned to advance the proposed endeavor',
+    shortName: 'Dhanasar Prong 2',
+    description: 'Evidence that the beneficiary is well positioned to advance the proposed endeavor, based on education, skills, record of success, a plan, progress made and interest from relevant parties (Matter of Dhanasar prong 2).',
+    evidenceTypes: [
+      'Record of past achievements in the field',
+      'Business plan or research plan for the endeavor',
+      'Citations, patents, products or funding obtained',
+      'Letters of interest from customers, investors, partners or government bodies',
+      'Contracts, grants or job offers tied to the endeavor',
+    ],
+    strongExamples: [
+      'Publications with independent citations and follow-on adoption',
+      'Grants or investment secured for the proposed work',
+      'Signed letters of intent from customers or collaborators',
+    ],
+    commonWeaknesses: [
+      'Plan with no milestones, resources or funding',
+      'Past success in an area unrelated to the endeavor',
+      'Letters of support that praise the beneficiary but commit to nothing',
+    ],
+    tips: [
+      'Connect each past achievement to a step in the plan',
+      'Document concrete progress already made on the endeavor',
+      'Include third-party interest with specific commitments',
+    ],
+  },
+  {
+    number: 4,
+    name: 'On balance, beneficial to waive the job offer and labor certification',
+    shortName: 'Dhanasar Prong 3',
+    description: 'Evidence that, on balance, the United States would benefit from waiving the job offer and labor certification requirements (Matter of Dhanasar prong 3).',
+    evidenceTypes: [
+      'Explanation of why labor certification is impractical for the endeavor',
+      'Evidence of urgency or time-sensitivity of the work',
+      'Evidence the beneficiary\'s contributions exceed those of available U.S. workers',
+      'Self-employment or entrepreneurial structure of the endeavor',
+    ],
+    strongExamples: [
+      'Entrepreneur or self-employed researcher for whom labor certification is impractical',
+      'Urgent national interest such as public health or national security',
+      'Contributions that would benefit the country even if qualified U.S. workers are available',
+    ],
+    commonWeaknesses: [
+      'Arguing a worker shortage, which labor certification already addresses',
+      'Restating prongs 1 and 2 without weighing the waiver itself',
+      'No explanation of why the job offer requirement should not apply',
+    ],
+    tips: [
+      'Address each Dhanasar prong 3 factor explicitly',
+      'Explain why the endeavor cannot wait for labor certification',
+      'Weigh the national interest against the interest protected by labor certification',
+    ],
+  },
+];
@@ -0,0 +1,185 @@
+/**
+ * Media Outlet Registry
+ *
+ * Evidence tier for the outlets that appear most often in published
+ * material exhibits. Tiers follow the officer prompts:
+ *   Tier 1 - major national/international media
+ *   Tier 2 - leading trade and industry publications
+ *   Tier 3 - online, regional and aggregator sources
+ *   Tier 4 - self-published, paid placement and press releases
+ *
+ * To add an outlet, append an entry with every name it is cited under.
+ * Names are matched case-insensitively, ignoring punctuation and a
+ * leading "The"; the longest matching name wins, so paid sections of a
+ * major outlet (e.g. Forbes Councils) can be listed separately. List
+ * single-word outlets under every name they appear as, since those only
+ * match exactly.
+ */
+
+import { EvidenceTier } from '../types';
+
+export interface OutletEntry {
+  name: string;
+  aliases?: string[]; // Other names and domains it is cited under
+  tier: EvidenceTier;
+  note?: string; // Why the outlet sits where it does, where not obvious
+}
+
+export const OUTLET_REGISTRY: OutletEntry[] = [
+  // Tier 1 - major national/international media
+  { name: 'The New York Times', aliases: ['NY Times', 'NYT', 'nytimes.com'], tier: 1 },
+  { name: 'The Wall Street Journal', aliases: ['WSJ', 'wsj.com'], tier: 1 },
+  { name: 'The Washington Post', aliases: ['washingtonpost.com'], tier: 1 },
+  { name: 'USA Today', aliases: ['usatoday.com'], tier: 1 },
+  { name: 'Los Angeles Times', aliases: ['LA Times', 'latimes.com'], tier: 1 },
+  { name: 'Chicago Tribune', tier: 1 },
+  { name: 'The Boston Globe', tier: 1 },
+  { name: 'Associated Press', aliases: ['AP News', 'apnews.com'], tier: 1 },
+  { name: 'Reuters', aliases: ['reuters.com'], tier: 1 },
+  { name: 'Bloomberg', aliases: ['Bloomberg News', 'Bloomberg Businessweek', 'bloomberg.com'], tier: 1 },
+  { name: 'CNN', aliases: ['cnn.com'], tier: 1 },
+  { name: 'CNBC', aliases: ['cnbc.com'], tier: 1 },
+  { name: 'NBC News', aliases: ['NBC', 'nbcnews.com'], tier: 1 },
+  { name: 'CBS News', aliases: ['CBS', 'cbsnews.com'], tier: 1 },
+  { name: 'ABC News', aliases: ['abcnews.go.com'], tier: 1 },
+  { name: 'Fox News', aliases: ['foxnews.com'], tier: 1 },
+  { name: 'NPR', aliases: ['National Public Radio', 'npr.org'], tier: 1 },
+  { name: 'PBS', tier: 1 },
+  { name: 'ESPN', aliases: ['espn.com'], tier: 1 },
+  { name: 'Sports Illustrated', aliases: ['si.com'], tier: 1 },
+  { name: 'Time', aliases: ['Time Magazine', 'time.com'], tier: 1 },
+  { name: 'Newsweek', tier: 1 },
+  { name: 'Forbes', aliases: ['Forbes Magazine', 'forbes.com'], tier: 1 },
+  { name: 'Fortune', aliases: ['fortune.com'], tier: 1 },
+  { name: 'The Economist', aliases: ['economist.com'], tier: 1 },
+  { name: 'The Atlantic', tier: 1 },
+  { name: 'The New Yorker', aliases: ['newyorker.com'], tier: 1 },
+  { name: 'Rolling Stone', aliases: ['rollingstone.com'], tier: 1 },
+  { name: 'Vanity Fair', tier: 1 },
+  { name: 'Financial Times', aliases: ['FT', 'ft.com'], tier: 1 },
+  { name: 'BBC', aliases: ['BBC News', 'bbc.com', 'bbc.co.uk'], tier: 1 },
+  { name: 'The Guardian', aliases: ['theguardian.com'], tier: 1 },
+  { name: 'The Times', aliases: ['The Times of London', 'thetimes.co.uk'], tier: 1 },
+  { name: 'The Telegraph', aliases: ['The Daily Telegraph', 'telegraph.co.uk'], tier: 1 },
+  { name: 'The Independent', tier: 1 },
+  { name: 'Le Monde', tier: 1 },
+  { name: 'Le Figaro', tier: 1 },
+  { name: 'Der Spiegel', aliases: ['Spiegel'], tier: 1 },
+  { name: 'Frankfurter Allgemeine Zeitung', aliases: ['FAZ'], tier: 1 },
+  { name: 'El País', aliases: ['El Pais'], tier: 1 },
+  { name: 'Corriere della Sera', tier: 1 },
+  { name: 'Nikkei', aliases: ['Nikkei Asia'], tier: 1 },
+  { name: 'South China Morning Post', aliases: ['SCMP'], tier: 1 },
+  { name: 'The Times of India', tier: 1 },
+  { name: 'The Hindu', tier: 1 },
+  { name: 'Al Jazeera', tier: 1 },
+  { name: 'The Globe and Mail', tier: 1 },
+  { name: 'The Sydney Morning Herald', tier: 1 },
+  { name: 'O Globo', tier: 1 },
+  { name: 'Nature', tier: 1, note: 'Flagship journal; coverage in it is major media for the sciences' },
+  { name: 'Science', aliases: ['Science Magazine'], tier: 1 },
+
+  // Tier 2 - leading trade and industry publications
+  { name: 'Variety', aliases: ['variety.com'], tier: 2 },
+  { name: 'The Hollywood Reporter', aliases: ['hollywoodreporter.com'], tier: 2 },
+  { name: 'Deadline', aliases: ['Deadline Hollywood', 'deadline.com'], tier: 2 },
+  { name: 'Billboard', aliases: ['billboard.com'], tier: 2 },
+  { name: 'Pitchfork', tier: 2 },
+  { name: 'Vogue', aliases: ['British Vogue', 'Vogue Business'], tier: 2 },
+  { name: "Women's Wear Daily", aliases: ['WWD'], tier: 2 },
+  { name: "Harper's Bazaar", tier: 2 },
+  { name: 'Architectural Digest', tier: 2 },
+  { name: 'Dezeen', tier: 2 },
+  { name: 'ARTnews', tier: 2 },
+  { name: 'Artforum', tier: 2 },
+  { name: 'Playbill', tier: 2 },
+  { name: 'Gramophone', tier: 2 },
+  { name: 'DownBeat', tier: 2 },
+  { name: 'Dance Magazine', tier: 2 },
+  { name: 'TechCrunch', aliases: ['techcrunch.com'], tier: 2 },
+  { name: 'Wired', aliases: ['wired.com'], tier: 2 },
+  { name: 'The Verge', tier: 2 },
+  { name: 'MIT Technology Review', aliases: ['Technology Review'], tier: 2 },
+  { name: 'IEEE Spectrum', tier: 2 },
+  { name: 'VentureBeat', tier: 2 },
+  { name: 'Business Insider', aliases: ['Insider', 'businessinsider.com'], tier: 2 },
+  { name: 'Fast Company', tier: 2 },
+  { name: 'Inc.', aliases: ['Inc Magazine', 'inc.com'], tier: 2 },
+  { name: 'Harvard Business Review', aliases: ['HBR'], tier: 2 },
+  { name: 'Ad Age', aliases: ['Advertising Age'], tier: 2 },
+  { name: 'Adweek', tier: 2 },
+  { name: 'The Lancet', tier: 2 },
+  { name: 'Chemical & Engineering News', aliases: ['C&EN'], tier: 2 },
+  { name: 'The Athletic', tier: 2 },
+  { name: 'Golf Digest', tier: 2 },
+  { name: "Runner's World", tier: 2 },
+  { name: 'Tennis.com', aliases: ['Tennis Magazine'], tier: 2 },
+  { name: 'FIFA.com', tier: 2, note: 'Governing-body publication - major within the sport' },
+
+  // Tier 3 - online, regional and aggregator sources
+  { name: 'HuffPost', aliases: ['Huffington Post'], tier: 3 },
+  { name: 'BuzzFeed', aliases: ['BuzzFeed News'], tier: 3 },
+  { name: 'Vice', tier: 3 },
+  { name: 'Mashable', tier: 3 },
+  { name: 'Yahoo News', aliases: ['Yahoo', 'yahoo.com'], tier: 3, note: 'Mostly syndicated - check the original source' },
+  { name: 'MSN', aliases: ['msn.com'], tier: 3, note: 'Mostly syndicated - check the original source' },
+  { name: 'Patch', aliases: ['patch.com'], tier: 3 },
+  { name: 'Benzinga', tier: 3 },
+  { name: 'Digital Journal', tier: 3 },
+  { name: 'LA Weekly', tier: 3 },
+  { name: 'Authority Magazine', tier: 3 },
+
+  // Tier 4 - self-published, paid placement and press releases
+  { name: 'PR Newswire', aliases: ['prnewswire.com'], tier: 4, note: 'Press release distribution' },
+  { name: 'Business Wire', aliases: ['businesswire.com'], tier: 4, note: 'Press release distribution' },
+  { name: 'GlobeNewswire', aliases: ['Globe Newswire'], tier: 4, note: 'Press release distribution' },
+  { name: 'Accesswire', tier: 4, note: 'Press release distribution' },
+  { name: 'EIN Presswire', aliases: ['EIN News'], tier: 4, note: 'Press release distribution' },
+  { name: 'PRWeb', tier: 4, note: 'Press release distribution' },
+  { name: 'Forbes Councils', aliases: ['Forbes Business Council', 'Forbes Technology Council', 'Forbes Coaches Council', 'Forbes Agency Council', 'Forbes Communications Council'], tier: 4, note: 'Paid membership content, not Forbes editorial' },
+  { name: 'Entrepreneur Leadership Network', tier: 4, note: 'Contributor network, not Entrepreneur editorial' },
+  { name: 'Medium', aliases: ['medium.com'], tier: 4 },
+  { name: 'Substack', aliases: ['substack.com'], tier: 4 },
+  { name: 'LinkedIn', aliases: ['linkedin.com'], tier: 4 },
+  { name: 'Blogspot', aliases: ['Blogger', 'blogspot.com'], tier: 4 },
+  { name: 'WordPress.com', tier: 4 },
+  { name: 'YouTube', aliases: ['youtube.com'], tier: 4, note: 'Unless the channel belongs to a listed outlet' },
+  { name: 'Instagram', tier: 4 },
+  { name: 'Facebook', tier: 4 },
+  { name: 'X', aliases: ['Twitter'], tier: 4 },
+];
+
+function normalizeOutletName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^(https?:\/\/)?(www\.)?/, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9.]+/g, ' ')
+    .replace(/^the /, '')
+    .trim();
+}
+
+// Every name an outlet is cited under, longest first
+const OUTLET_NAMES = OUTLET_REGISTRY.flatMap((entry) =>
+  [entry.name, ...(entry.aliases || [])].map((name) => ({ name: normalizeOutletName(name), entry }))
+).sort((a, b) => b.name.length - a.name.length);
+
+/**
+ * Look up an outlet by the name it is cited under. Names with a section
+ * or edition ("The New York Times Magazine") match the outlet they contain.
+ */
+export function findOutlet(outlet: string): OutletEntry | undefined {
+  const normalized = normalizeOutletName(outlet);
+  if (!normalized) return undefined;
+
+  const exact = OUTLET_NAMES.find((o) => o.name === normalized);
+  if (exact) return exact.entry;
+
+  // Single-word names (Time, Science, Vice) only match exactly - they
+  // are too common inside other outlets' names
+  return OUTLET_NAMES.find(
+    (o) => /[ .]/.test(o.name) && new RegExp(`(^| )${o.name.replace(/\./g, '\\.')}( |$)`).test(normalized)
+  )?.entry;
+}
@@ -0,0 +1,264 @@
+/**
+ * Visa Type Registry
+ *
+ * Everything the app knows about each visa classification: its criteria
+ * and how many must be met, the officer's evaluation approach, criterion
+ * templates, the regulations cited against it, the documents a complete
+ * filing must include and the submissions that can be scored for it.
+ * Types, prompts, the rules engine, contract checks, route validation and
+ * the UI all read from here.
+ *
+ * To add a classification, add an entry. The VisaType union is derived
+ * from the keys, so the compiler points at anything else that needs it.
+ */
+
+import type { DocumentType } from '../types';
+import {
+  CriterionTemplate,
+  ComparableEvidenceTemplate,
+  O1A_CRITERIA,
+  O1B_CRITERIA,
+  P1A_CRITERIA,
+  EB1A_CRITERIA,
+  EB1A_COMPARABLE_EVIDENCE,
+  EB2_NIW_CRITERIA,
+} from './criterion-templates';
+
+export interface VisaCriterion {
+  number: number;
+  letter: string;
+  name: string;
+}
+
+// Documents the rules engine looks for in a complete filing
+export type VisaFiling = 'contract' | 'itinerary' | 'consultation' | 'labor-certification';
+
+export interface VisaTypeDefinition {
+  label: string; // Selector label, e.g. "O-1A (Extraordinary Ability)"
+  title: string; // Short display name, e.g. "O-1A Extraordinary Ability"
+  criteria: VisaCriterion[];
+  minimumCriteria: number;
+  criteriaCitation: string; // Provision setting the criteria threshold
+  // 'minimum-criteria': a minimum number from the list; 'dhanasar': EB-2 eligibility plus all three prongs
+  criteriaFramework: 'minimum-criteria' | 'dhanasar';
+  eligibilityCitation?: string; // Dhanasar visa types - the underlying EB-2 eligibility
+  // Set when a major internationally recognized award substitutes for the criteria: the criterion the award is rated under
+  oneTimeAchievementCriterion?: number;
+  finalMeritsStandard?: string; // Set for visa types adjudicated with the Kazarian two-step
+  officerApproach: string; // Included in the officer system prompt
+  templates: CriterionTemplate[];
+  comparableEvidence?: ComparableEvidenceTemplate; // Substitute evidence when the criteria do not readily apply
+  documentTypes: DocumentType[]; // Submissions that can be scored
+  requiredFilings: Partial<Record<VisaFiling, string>>; // Filing -> provision requiring it
+  contract: {
+    citation: string; // Provision the contract terms are checked against
+    itineraryCitation?: string; // Nature, dates and itinerary of the events
+    agentCitation?: string; // Agent petitioning for several employers
+    itineraryWithinTerm?: boolean; // Itinerary events must fall inside the contract term
+    checklist?: { requirement: string; evidence: string }[]; // Visa-specific rows in the contract review
+  };
+}
+
+const ALL_DOCUMENT_TYPES: DocumentType[] = ['full_petition', 'rfe_response', 'exhibit_packet', 'contract_deal_memo'];
+
+export const VISA_REGISTRY = {
+  'O-1A': {
+    label: 'O-1A (Extraordinary Ability)',
+    title: 'O-1A Extraordinary Ability',
+    criteria: [
+      { number: 1, letter: 'A', name: 'Nationally or internationally recognized prizes or awards' },
+      { number: 2, letter: 'B', name: 'Membership in associations requiring outstanding achievements' },
+      { number: 3, letter: 'C', name: 'Published material about the beneficiary' },
+      { number: 4, letter: 'D', name: 'Participation as a judge of others\' work' },
+      { number: 5, letter: 'E', name: 'Original contributions of major significance' },
+      { number: 6, letter: 'F', name: 'Authorship of scholarly articles' },
+      { number: 7, letter: 'G', name: 'Employment in a critical or essential capacity' },
+      { number: 8, letter: 'H', name: 'High salary or remuneration' },
+    ],
+    minimumCriteria: 3,
+    criteriaCitation: '8 CFR 214.2(o)(3)(iii)(B)',
+    criteriaFramework: 'minimum-criteria',
+    oneTimeAchievementCriterion: 1,
+    finalMeritsStandard:
+      'extraordinary ability demonstrated by sustained national or international acclaim, as one of the small percentage who have arisen to the very top of the field (8 CFR 214.2(o)(3)(ii))',
+    officerApproach: `FOR O-1A (Extraordinary Ability):
+- Apply the Kazarian two-step framework STRICTLY:
+  Step 1: Does the evidence facially satisfy each claimed criterion?
+  Step 2: Does the totality demonstrate sustained national/international acclaim?
+- Look for "extraordinary" not just "above average"
+- Question whether acclaim is truly "sustained" (not one-time events)
+- Verify that recognition is "national or international" (not regional or local)
+- Check that the beneficiary is among the "small percentage at the very top"
+- Require at least 3 of 8 criteria with STRONG evidence`,
+    templates: O1A_CRITERIA,
+    documentTypes: ALL_DOCUMENT_TYPES,
+    requiredFilings: { consultation: '8 CFR 214.2(o)(5)(i)' },
+    contract: {
+      citation: '8 CFR 214.2(o)(2)(ii)(B)',
+      itineraryCitation: '8 CFR 214.2(o)(2)(ii)(C)',
+      agentCitation: '8 CFR 214.2(o)(2)(iv)(E)',
+    },
+  },
+  'O-1B': {
+    label: 'O-1B (Arts/Entertainment)',
+    title: 'O-1B Arts/Entertainment',
+    criteria: [
+      { number: 1, letter: 'A', name: 'Performed as a lead or starring participant' },
+      { number: 2, letter: 'B', name: 'Critical reviews or other published material' },
+      { number: 3, letter: 'C', name: 'Performed for organizations with distinguished reputation' },
+      { number: 4, letter: 'D', name: 'Record of major commercial or critically acclaimed successes' },
+      { number: 5, letter: 'E', name: 'Received significant recognition from organizations, critics, or experts' },
+      { number: 6, letter: 'F', name: 'High salary or substantial remuneration' },
+    ],
+    minimumCriteria: 3,
+    criteriaCitation: '8 CFR 214.2(o)(3)(iv)(B)',
+    criteriaFramework: 'minimum-criteria',
+    oneTimeAchievementCriterion: 5,
+    officerApproach: `FOR O-1B (Arts/Entertainment):
+- Distinguish between "extraordinary ability" (arts) and "extraordinary achievement" (motion picture/TV)
+- For arts: Look for "distinction" - renown, leading, or well-known status
+- For motion picture/TV: Require demonstrated "extraordinary achievement"
+- Verify that acclaim is beyond ordinary practitioners
+- Check that evidence shows prominence in the field, not just employment
+- Require at least 3 of 6 criteria with STRONG evidence`,
+    templates: O1B_CRITERIA,
+    documentTypes: ALL_DOCUMENT_TYPES,
+    requiredFilings: { consultation: '8 CFR 214.2(o)(5)(i)' },
+    contract: {
+      citation: '8 CFR 214.2(o)(2)(ii)(B)',
+      itineraryCitation: '8 CFR 214.2(o)(2)(ii)(C)',
+      agentCitation: '8 CFR 214.2(o)(2)(iv)(E)',
+      checklist: [
+        { requirement: 'Nature of Events/Productions', evidence: 'Description' },
+        { requirement: 'Distinguished Reputation of Employers', evidence: 'Evidence' },
+        { requirement: 'Lead/Starring Role Evidence', evidence: 'Evidence' },
+      ],
+    },
+  },
+  'P-1A': {
+    label: 'P-1A (Internationally Recognized Athlete)',
+    title: 'P-1A Athletes',
+    criteria: [
+      { number: 1, letter: 'A', name: 'International recognition in the sport' },
+      { number: 2, letter: 'B', name: 'Significant participation with a major United States sports league' },
+      { number: 3, letter: 'C', name: 'Significant participation in international competition' },
+      { number: 4, letter: 'D', name: 'Significant participation in a prior season with a major U.S. college' },
+      { number: 5, letter: 'E', name: 'Written statement from an official of the sport' },
+      { number: 6, letter: 'F', name: 'International ranking' },
+    ],
+    minimumCriteria: 2,
+    criteriaCitation: '8 CFR 214.2(p)(4)(ii)(B)',
+    criteriaFramework: 'minimum-criteria',
+    officerApproach: `FOR P-1A (Internationally Recognized Athlete):
+- Focus on INTERNATIONAL recognition, not just domestic
+- Verify participation is with teams/events of "distinguished reputation"
+- Check that international competitions were at high levels
+- Look for rankings, awards, and recognition at international level
+- Require at least 2 criteria with strong international evidence
+- Verify the itinerary supports the classification`,
+    templates: P1A_CRITERIA,
+    documentTypes: ALL_DOCUMENT_TYPES,
+    requiredFilings: {
+      contract: '8 CFR 214.2(p)(2)(ii)(B)',
+      itinerary: '8 CFR 214.2(p)(2)(ii)(C)',
+    },
+    contract: {
+      citation: '8 CFR 214.2(p)(2)(ii)(B)',
+      itineraryCitation: '8 CFR 214.2(p)(2)(ii)(C)',
+      agentCitation: '8 CFR 214.2(p)(2)(iv)(E)',
+      itineraryWithinTerm: true,
+      checklist: [
+        { requirement: 'Itinerary Provided', evidence: 'Description' },
+        { requirement: 'Events of Distinguished Reputation', evidence: 'Evidence' },
+        { requirement: 'International Recognition Documented', evidence: 'Evidence' },
+        { requirement: 'Agent Authorization (if applicable)', evidence: 'Evidence' },
+      ],
+    },
+  },
+  'EB-1A': {
+    label: 'EB-1A (Extraordinary Ability Green Card)',
+    title: 'EB-1A Green Card',
+    criteria: [
+      { number: 1, letter: 'A', name: 'Nationally or internationally recognized prizes or awards' },
+      { number: 2, letter: 'B', name: 'Membership in associations requiring outstanding achievements' },
+      { number: 3, letter: 'C', name: 'Published material about the beneficiary' },
+      { number: 4, letter: 'D', name: 'Participation as a judge of others\' work' },
+      { number: 5, letter: 'E', name: 'Original contributions of major significance' },
+      { number: 6, letter: 'F', name: 'Authorship of scholarly articles' },
+      { number: 7, letter: 'G', name: 'Display of work at artistic exhibitions' },
+      { number: 8, letter: 'H', name: 'Leading or critical role in distinguished organizations' },
+      { number: 9, letter: 'I', name: 'High salary or remuneration' },
+      { number: 10, letter: 'J', name: 'Commercial successes in the performing arts' },
+    ],
+    minimumCriteria: 3,
+    criteriaCitation: '8 CFR 204.5(h)(3)',
+    criteriaFramework: 'minimum-criteria',
+    oneTimeAchievementCriterion: 1,
+    finalMeritsStandard:
+      'one of that small percentage who have risen to the very top of the field of endeavor (8 CFR 204.5(h)(2)), with sustained national or international acclaim (8 CFR 204.5(h)(3))',
+    officerApproach: `FOR EB-1A (Extraordinary Ability Green Card):
+- This is the HIGHEST standard - "one of that small percentage at the very top"
+- Apply Kazarian two-step framework EXTREMELY rigorously
+- Look for sustained NATIONAL OR INTERNATIONAL acclaim
+- Evidence must show beneficiary is among the top of their field WORLDWIDE
+- This is harder than O-1A - question everything
+- Require at least 3 of 10 criteria with EXCEPTIONAL evidence
+- Consider: Does this person's entry substantially benefit the United States?`,
+    templates: EB1A_CRITERIA,
+    comparableEvidence: EB1A_COMPARABLE_EVIDENCE,
+    documentTypes: ALL_DOCUMENT_TYPES,
+    requiredFilings: {},
+    contract: {
+      citation: '8 CFR 204.5(h)(5)',
+    },
+  },
+  'EB-2 NIW': {
+    label: 'EB-2 NIW (National Interest Waiver)',
+    title: 'EB-2 National Interest Waiver',
+    // EB-2 eligibility, then the three Matter of Dhanasar prongs - all four are required
+    criteria: [
+      { number: 1, letter: 'A', name: 'Advanced degree or exceptional ability' },
+      { number: 2, letter: 'B', name: 'Proposed endeavor has substantial merit and national importance' },
+      { number: 3, letter: 'C', name: 'Well positioned to advance the proposed endeavor' },
+      { number: 4, letter: 'D', name: 'On balance, beneficial to waive the job offer and labor certification' },
+    ],
+    minimumCriteria: 4,
+    criteriaCitation: 'Matter of Dhanasar, 26 I&N Dec. 884 (AAO 2016)',
+    criteriaFramework: 'dhanasar',
+    eligibilityCitation: '8 CFR 204.5(k)(3)',
+    officerApproach: `FOR EB-2 NIW (National Interest Waiver):
+- First confirm EB-2 eligibility: an advanced degree (or a U.S. bachelor's or foreign equivalent plus five years of progressive experience), or exceptional ability shown by at least 3 of the 8 CFR 204.5(k)(3)(ii) criteria
+- Then apply the three-prong Matter of Dhanasar, 26 I&N Dec. 884 (AAO 2016) framework - ALL THREE prongs must be met:
+  Prong 1: The proposed endeavor has both substantial merit and national importance - look at the endeavor's potential prospective impact, not the beneficiary's past importance or the size of their employer
+  Prong 2: The beneficiary is well positioned to advance the endeavor - education, skills, record of success, a model or plan, progress so far, and interest from customers, investors or government bodies
+  Prong 3: On balance it would benefit the United States to waive the job offer and labor certification - impracticality of a labor certification, urgency, or benefit even if qualified U.S. workers are available
+- The proposed endeavor must be specific; "continuing research in my field" does not define one
+- Do not confuse eligibility with the waiver - a strong degree does not establish national importance
+- Letters should describe the endeavor's impact in concrete terms, not only praise the beneficiary`,
+    templates: EB2_NIW_CRITERIA,
+    documentTypes: ALL_DOCUMENT_TYPES,
+    requiredFilings: { 'labor-certification': '8 CFR 204.5(k)(4)(ii)' },
+    contract: {
+      citation: 'Matter of Dhanasar, 26 I&N Dec. 884 (AAO 2016)',
+    },
+  },
+} satisfies Record<string, VisaTypeDefinition>;
+
+export type VisaTypeId = keyof typeof VISA_REGISTRY;
+
+export const VISA_TYPES = Object.keys(VISA_REGISTRY) as VisaTypeId[];
+
+export function isVisaType(value: unknown): value is VisaTypeId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VISA_REGISTRY, value);
+}
+
+export function getVisaDefinition(visaType: VisaTypeId): VisaTypeDefinition {
+  return VISA_REGISTRY[visaType];
+}
+
+/**
+ * Criterion templates for a visa type, or undefined for an unknown one
+ */
+export function getTemplatesForVisa(visaType: string): CriterionTemplate[] | undefined {
+  return isVisaType(visaType) ? VISA_REGISTRY[visaType].templates : undefined;
+}
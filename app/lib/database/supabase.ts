@@ -3,6 +3,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ExhibitIndex, ExtractedPage, CalibrationCurve } from '../types';
 
 let supabaseClient: SupabaseClient | null = null;
 
@@ -43,6 +44,7 @@ export async function createScoringSession(data: {
   documentType: string;
   visaType: string;
   beneficiaryName?: string;
+  batchJobId?: string;
 }) {
   const supabase = getSupabase();
   const { data: session, error } = await supabase
@@ -51,7 +53,8 @@ export async function createScoringSession(data: {
       document_type: data.documentType,
       visa_type: data.visaType,
       beneficiary_name: data.beneficiaryName,
-      status: 'uploading',
+      batch_job_id: data.batchJobId,
+      status: data.batchJobId ? 'queued' : 'uploading',
       progress: 0,
     })
     .select()
@@ -81,6 +84,7 @@ export async function updateScoringSession(
     progressMessage?: string;
     errorMessage?: string;
     completedAt?: string;
+    partialReport?: string | null;
   }
 ) {
   const supabase = getSupabase();
@@ -92,6 +96,7 @@ export async function updateScoringSession(
       progress_message: updates.progressMessage,
       error_message: updates.errorMessage,
       completed_at: updates.completedAt,
+      partial_report: updates.partialReport,
     })
     .eq('id', id)
     .select()
@@ -113,6 +118,128 @@ export async function listScoringSessions(limit: number = 20) {
   return data;
 }
 
+export async function getSessionsForBatch(batchJobId: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('scoring_sessions')
+    .select('*')
+    .eq('batch_job_id', batchJobId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getSessionsByIds(ids: string[]) {
+  if (ids.length === 0) return [];
+
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('scoring_sessions')
+    .select('id, visa_type, document_type')
+    .in('id', ids);
+
+  if (error) throw error;
+  return data;
+}
+
+// ==========================================
+// PROGRESS EVENTS
+// ==========================================
+
+export async function addProgressEvent(data: {
+  sessionId: string;
+  stage: string;
+  progress: number;
+  message: string;
+  fileName?: string;
+}) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('session_progress_events').insert({
+    session_id: data.sessionId,
+    stage: data.stage,
+    progress: data.progress,
+    message: data.message,
+    file_name: data.fileName,
+  });
+
+  if (error) throw error;
+}
+
+export async function getProgressEventsSince(sessionId: string, afterId: number = 0) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('session_progress_events')
+    .select('*')
+    .eq('session_id', sessionId)
+    .gt('id', afterId)
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+// ==========================================
+// BATCH JOBS
+// ==========================================
+
+export async function createBatchJob(data: {
+  fingerprint?: string;
+  totalSessions: number;
+}) {
+  const supabase = getSupabase();
+  const { data: job, error } = await supabase
+    .from('batch_jobs')
+    .insert({
+      fingerprint: data.fingerprint,
+      total_sessions: data.totalSessions,
+      status: 'queued',
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return job;
+}
+
+export async function getBatchJob(id: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows
+  return data;
+}
+
+export async function updateBatchJob(
+  id: string,
+  updates: {
+    status?: string;
+    sessionIds?: string[];
+    completedAt?: string;
+  }
+) {
+  const supabase = getSupabase();
+
+  const updateObj: Record<string, unknown> = {};
+  if (updates.status !== undefined) updateObj.status = updates.status;
+  if (updates.sessionIds !== undefined) updateObj.session_ids = updates.sessionIds;
+  if (updates.completedAt !== undefined) updateObj.completed_at = updates.completedAt;
+
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .update(updateObj)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
 // ==========================================
 // UPLOADED FILES
 // ==========================================
@@ -151,6 +278,7 @@ export async function updateUploadedFile(
     pageCount?: number;
     documentCategory?: string;
     storagePath?: string;
+    contentHash?: string;
   }
 ) {
   const supabase = getSupabase();
@@ -163,6 +291,7 @@ export async function updateUploadedFile(
   if (updates.pageCount !== undefined) updateObj.page_count = updates.pageCount;
   if (updates.documentCategory !== undefined) updateObj.document_category = updates.documentCategory;
   if (updates.storagePath !== undefined) updateObj.storage_path = updates.storagePath;
+  if (updates.contentHash !== undefined) updateObj.content_hash = updates.contentHash;
 
   const { data, error } = await supabase
     .from('uploaded_files')
@@ -187,6 +316,178 @@ export async function getFilesForSession(sessionId: string) {
   return data;
 }
 
+// ==========================================
+// FILE PAGES
+// ==========================================
+
+export async function saveFilePages(fileId: string, sessionId: string, pages: ExtractedPage[]) {
+  if (pages.length === 0) return;
+
+  const supabase = getSupabase();
+  const { error } = await supabase.from('file_pages').upsert(
+    pages.map((page) => ({
+      file_id: fileId,
+      session_id: sessionId,
+      page_number: page.pageNumber,
+      text: page.text,
+      ocr_method: page.method,
+      confidence: page.confidence,
+    })),
+    { onConflict: 'file_id,page_number' }
+  );
+
+  if (error) throw error;
+}
+
+export async function getFilePages(fileId: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('file_pages')
+    .select('*')
+    .eq('file_id', fileId)
+    .order('page_number', { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+// ==========================================
+// CONTENT CACHE
+// ==========================================
+
+export async function getExtractionCache(contentHash: string, extractionVersion: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('extraction_cache')
+    .select('*')
+    .eq('content_hash', contentHash)
+    .eq('extraction_version', extractionVersion)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows
+  return data;
+}
+
+export async function saveExtractionCache(data: {
+  contentHash: string;
+  extractionVersion: string;
+  extractedText: string;
+  pageCount: number;
+  pages: ExtractedPage[];
+}) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('extraction_cache').upsert(
+    {
+      content_hash: data.contentHash,
+      extraction_version: data.extractionVersion,
+      extracted_text: data.extractedText,
+      page_count: data.pageCount,
+      pages: data.pages,
+    },
+    { onConflict: 'content_hash,extraction_version' }
+  );
+
+  if (error) throw error;
+}
+
+export async function getAIResponseCache(cacheKey: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('ai_response_cache')
+    .select('*')
+    .eq('cache_key', cacheKey)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows
+  return data;
+}
+
+export async function saveAIResponseCache(data: {
+  cacheKey: string;
+  promptHash: string;
+  model: string;
+  temperature: number;
+  sample: number;
+  response: unknown;
+  provider: string;
+}) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('ai_response_cache').upsert(
+    {
+      cache_key: data.cacheKey,
+      prompt_hash: data.promptHash,
+      model: data.model,
+      temperature: data.temperature,
+      sample: data.sample,
+      response: data.response,
+      provider: data.provider,
+    },
+    { onConflict: 'cache_key' }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Count a cache hit against its entry
+ */
+export async function recordCacheHit(
+  table: 'extraction_cache' | 'ai_response_cache',
+  match: Record<string, string>,
+  hitCount: number
+) {
+  const supabase = getSupabase();
+  const { error } = await supabase
+    .from(table)
+    .update({ hit_count: hitCount + 1, last_hit_at: new Date().toISOString() })
+    .match(match);
+
+  if (error) throw error;
+}
+
+// ==========================================
+// AI CALLS
+// ==========================================
+
+export async function logAICall(data: {
+  sessionId: string;
+  task: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  success: boolean;
+  error?: string;
+}) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('ai_calls').insert({
+    session_id: data.sessionId,
+    task: data.task,
+    provider: data.provider,
+    model: data.model,
+    latency_ms: data.latencyMs,
+    input_tokens: data.inputTokens,
+    output_tokens: data.outputTokens,
+    success: data.success,
+    error: data.error,
+  });
+
+  if (error) throw error;
+}
+
+export async function getAICallsForSession(sessionId: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('ai_calls')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
 // ==========================================
 // SCORING RESULTS
 // ==========================================
@@ -199,6 +500,14 @@ export async function saveScoringResults(data: {
   rfeProbability: number;
   denialRisk: number;
   criteriaScores: unknown;
+  finalMerits?: unknown;
+  ensemble?: unknown;
+  rfeIssues?: unknown;
+  contractTerms?: unknown;
+  mediaEvidence?: unknown;
+  letterAnalysis?: unknown;
+  consistencyConflicts?: unknown;
+  cacheStats?: unknown;
   evidenceQuality: unknown;
   rfePredictions: unknown;
   weaknesses: unknown;
@@ -207,9 +516,10 @@ export async function saveScoringResults(data: {
   fullReport: string;
 }) {
   const supabase = getSupabase();
+  // One result per session - a re-score replaces the previous result
   const { data: result, error } = await supabase
     .from('scoring_results')
-    .insert({
+    .upsert({
       session_id: data.sessionId,
       overall_score: data.overallScore,
       overall_rating: data.overallRating,
@@ -217,13 +527,21 @@ export async function saveScoringResults(data: {
       rfe_probability: data.rfeProbability,
       denial_risk: data.denialRisk,
       criteria_scores: data.criteriaScores,
+      final_merits: data.finalMerits ?? null,
+      ensemble: data.ensemble ?? null,
+      rfe_issues: data.rfeIssues ?? null,
+      contract_terms: data.contractTerms ?? null,
+      media_evidence: data.mediaEvidence ?? null,
+      letter_analysis: data.letterAnalysis ?? null,
+      consistency_conflicts: data.consistencyConflicts ?? null,
+      cache_stats: data.cacheStats ?? null,
       evidence_quality: data.evidenceQuality,
       rfe_predictions: data.rfePredictions,
       weaknesses: data.weaknesses,
       strengths: data.strengths,
       recommendations: data.recommendations,
       full_report: data.fullReport,
-    })
+    }, { onConflict: 'session_id' })
     .select()
     .single();
 
@@ -231,6 +549,19 @@ export async function saveScoringResults(data: {
   return result;
 }
 
+export async function getResultsForSessions(sessionIds: string[]) {
+  if (sessionIds.length === 0) return [];
+
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('scoring_results')
+    .select('session_id, overall_score, overall_rating, approval_probability, rfe_probability, denial_risk')
+    .in('session_id', sessionIds);
+
+  if (error) throw error;
+  return data;
+}
+
 export async function getScoringResults(sessionId: string) {
   const supabase = getSupabase();
   const { data, error } = await supabase
@@ -243,6 +574,134 @@ export async function getScoringResults(sessionId: string) {
   return data;
 }
 
+// ==========================================
+// EXHIBIT INDEXES
+// ==========================================
+
+export async function saveExhibitIndex(sessionId: string, index: ExhibitIndex) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('exhibit_indexes')
+    .upsert(
+      {
+        session_id: sessionId,
+        exhibits: index.exhibits,
+        cited_labels: index.citedLabels,
+        brief_files: index.briefFiles,
+        issues: index.issues,
+      },
+      { onConflict: 'session_id' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getExhibitIndex(sessionId: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('exhibit_indexes')
+    .select('*')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows
+  return data;
+}
+
+// ==========================================
+// CASE OUTCOMES
+// ==========================================
+
+export async function addCaseOutcome(data: {
+  sessionId: string;
+  decision: string;
+  decisionDate: string;
+  receiptDate?: string;
+  notes?: string;
+}) {
+  const supabase = getSupabase();
+  const { data: outcome, error } = await supabase
+    .from('case_outcomes')
+    .insert({
+      session_id: data.sessionId,
+      decision: data.decision,
+      decision_date: data.decisionDate,
+      receipt_date: data.receiptDate,
+      notes: data.notes,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return outcome;
+}
+
+export async function getOutcomesForSession(sessionId: string) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('case_outcomes')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('decision_date', { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+// Page through every recorded outcome, for calibration
+export async function getAllCaseOutcomes(pageSize: number = 1000) {
+  const supabase = getSupabase();
+  const outcomes: { session_id: string; decision: string; decision_date: string }[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('case_outcomes')
+      .select('session_id, decision, decision_date')
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    outcomes.push(...data);
+    if (data.length < pageSize) return outcomes;
+  }
+}
+
+// ==========================================
+// CALIBRATION CURVES
+// ==========================================
+
+export async function saveCalibrationCurve(curve: CalibrationCurve) {
+  const supabase = getSupabase();
+  const { error } = await supabase.from('calibration_curves').upsert(
+    {
+      visa_type: curve.visaType,
+      target: curve.target,
+      intercept: curve.fit?.intercept ?? null,
+      slope: curve.fit?.slope ?? null,
+      reliability: curve.reliability,
+      fitted_at: curve.fittedAt,
+    },
+    { onConflict: 'visa_type,target' }
+  );
+
+  if (error) throw error;
+}
+
+export async function getCalibrationCurves(visaType?: string) {
+  const supabase = getSupabase();
+  let query = supabase.from('calibration_curves').select('*');
+  if (visaType) {
+    query = query.eq('visa_type', visaType);
+  }
+  const { data, error } = await query.order('visa_type', { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
 // ==========================================
 // CHAT MESSAGES
 // ==========================================
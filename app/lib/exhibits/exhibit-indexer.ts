@@ -0,0 +1,289 @@
+/**
+ * Exhibit Indexer
+ *
+ * Finds exhibit labels (Exhibit A-1, Ex. 12, Tab 3) across the uploaded
+ * files, builds a table of contents with page ranges, and cross-checks
+ * it against the legal brief: every exhibit the brief cites must exist,
+ * and every exhibit should be cited at least once.
+ */
+
+import { ScoringDocument } from '../scoring/map-reduce-scorer';
+import { PAGE_MARKER_PATTERN } from '../scoring/criterion-scorer';
+import { ExhibitEntry, ExhibitIndex, ExhibitReferenceIssue } from '../types';
+
+// Exhibit identifiers: A, AA, A-1, A.1, A1, 12, 12-3, 12.3, 12A
+const ID = String.raw`(?:[A-Z]{1,2}(?:[-.–]?\d+)?|\d+(?:[-.]\d+)?[A-Z]?)(?![A-Za-z0-9])`;
+
+// A line that is only an exhibit label, optionally followed by its title
+const HEADING_PATTERN = new RegExp(
+  String.raw`^[ \t]*(EXHIBIT|Exhibit|TAB|Tab)[ \t]+(${ID})[ \t]*(?:(?::|[ \t][-–—])[ \t]*(.{0,150}?))?[ \t]*$`,
+  'gm'
+);
+
+// Exhibit references in running text: "Exhibit 4", "Exs. 3, 5 and 7", "Exhibits A-1 through A-4"
+const CITATION_PATTERN = new RegExp(
+  String.raw`\b([Ee]xhibits?|EXHIBITS?|[Ee]xs?\.|EXS?\.|[Tt]abs?|TABS?)[ \t]+(${ID}(?:[ \t]*(?:,|and|&|through|-|–|—)[ \t]*${ID})*)`,
+  'g'
+);
+
+const FILENAME_PATTERN = new RegExp(String.raw`(?:^|[^a-z])(exhibit|ex|tab)(?:[ _.-]+|(?=\d))(${ID})`, 'i');
+
+const PAGE_BREAK = new RegExp(PAGE_MARKER_PATTERN.source, 'm');
+
+// A heading with less text than this (and no page break) before the
+// next heading belongs to an index of exhibits, as does the heading right
+// after it - not the start of an exhibit
+const MIN_EXHIBIT_CHARS = 200;
+
+// Ranges wider than this are treated as two separate citations
+const MAX_RANGE = 100;
+
+interface ExhibitStart {
+  label: string;
+  title?: string;
+  document: ScoringDocument;
+  documentIndex: number;
+  offset: number;
+}
+
+function normalizeKind(kind: string): 'Exhibit' | 'Tab' {
+  return kind.toLowerCase().startsWith('tab') ? 'Tab' : 'Exhibit';
+}
+
+function normalizeId(id: string): string {
+  return id
+    .toUpperCase()
+    .replace(/[.–—]/g, '-')
+    .replace(/^([A-Z]+)(\d)/, '$1-$2');
+}
+
+function labelId(label: string): string {
+  return label.slice(label.indexOf(' ') + 1);
+}
+
+/**
+ * Page of a character offset: from page markers when the text has them,
+ * otherwise estimated from the file's page count
+ */
+function pageAt(document: ScoringDocument, offset: number): number {
+  let page: number | null = null;
+  for (const marker of document.text.matchAll(PAGE_MARKER_PATTERN)) {
+    if (marker.index! > offset) break;
+    page = parseInt(marker[1], 10);
+  }
+  if (page !== null) return page;
+
+  const pageCount = getPageCount(document);
+  return Math.min(pageCount, Math.floor((offset / Math.max(1, document.text.length)) * pageCount) + 1);
+}
+
+function getPageCount(document: ScoringDocument): number {
+  const markers = [...document.text.matchAll(PAGE_MARKER_PATTERN)].map((m) => parseInt(m[1], 10));
+  return Math.max(1, document.pageCount || 0, ...markers);
+}
+
+/**
+ * Exhibit starts in one file: label headings with content after them,
+ * or a label in the file name when the file opens without a heading
+ */
+function findExhibitStarts(document: ScoringDocument, documentIndex: number): ExhibitStart[] {
+  const headings = [...document.text.matchAll(HEADING_PATTERN)];
+  const starts: ExhibitStart[] = [];
+
+  const isIndexEntry = headings.map((heading, i) => {
+    const contentEnd = i + 1 < headings.length ? headings[i + 1].index! : document.text.length;
+    const content = document.text.slice(heading.index! + heading[0].length, contentEnd);
+    return !PAGE_BREAK.test(content) && content.replace(/\s+/g, '').length < MIN_EXHIBIT_CHARS;
+  });
+
+  headings.forEach((heading, i) => {
+    if (isIndexEntry[i] || (i > 0 && isIndexEntry[i - 1])) return;
+
+    starts.push({
+      label: `${normalizeKind(heading[1])} ${normalizeId(heading[2])}`,
+      title: heading[3]?.trim() || undefined,
+      document,
+      documentIndex,
+      offset: heading.index!,
+    });
+  });
+
+  const fromName = FILENAME_PATTERN.exec(document.fileName.replace(/\.[a-z0-9]+$/i, ''));
+  const opensWithHeading = starts.length > 0 && pageAt(document, starts[0].offset) === 1 && starts[0].offset < 2000;
+  if (fromName && !opensWithHeading) {
+    starts.unshift({
+      label: `${normalizeKind(fromName[1])} ${normalizeId(fromName[2])}`,
+      document,
+      documentIndex,
+      offset: 0,
+    });
+  }
+
+  return starts;
+}
+
+function expandRange(from: string, to: string): string[] {
+  const a = /^(.*?)(\d+)$/.exec(from);
+  const b = /^(.*?)(\d+)$/.exec(to);
+  if (a && b && a[1] === b[1]) {
+    const start = parseInt(a[2], 10);
+    const end = parseInt(b[2], 10);
+    if (end >= start && end - start <= MAX_RANGE) {
+      return Array.from({ length: end - start + 1 }, (_, i) => `${a[1]}${start + i}`);
+    }
+  }
+
+  if (/^[A-Z]$/.test(from) && /^[A-Z]$/.test(to) && to >= from) {
+    return Array.from({ length: to.charCodeAt(0) - from.charCodeAt(0) + 1 }, (_, i) =>
+      String.fromCharCode(from.charCodeAt(0) + i)
+    );
+  }
+
+  return [from, to];
+}
+
+/**
+ * Every exhibit label cited in the brief text, once per citation.
+ * Lines that are only a label (an index of exhibits) are not citations.
+ */
+function findCitations(text: string): string[] {
+  const body = text.replace(HEADING_PATTERN, '');
+  const labels: string[] = [];
+  const token = new RegExp(String.raw`(${ID})|(through|-|–|—)`, 'g');
+
+  for (const match of body.matchAll(CITATION_PATTERN)) {
+    const kind = normalizeKind(match[1]);
+    const plural = /s\.?$/i.test(match[1]);
+    const ids: string[] = [];
+    let rangeFrom: string | null = null;
+
+    for (const t of match[2].matchAll(token)) {
+      if (t[2]) {
+        rangeFrom = ids.pop() ?? null;
+        continue;
+      }
+
+      // "Exhibits 3-5" is a range; "Exhibit 3-5" is one label
+      const numericRange = /^(\d+)-(\d+)$/.exec(t[1]);
+      if (plural && numericRange) {
+        ids.push(...expandRange(numericRange[1], numericRange[2]));
+      } else if (rangeFrom) {
+        ids.push(...expandRange(rangeFrom, normalizeId(t[1])));
+      } else {
+        ids.push(normalizeId(t[1]));
+      }
+      rangeFrom = null;
+    }
+
+    labels.push(...ids.map((id) => `${kind} ${id}`));
+  }
+
+  return labels;
+}
+
+/**
+ * Build the exhibit index for a session's files, in upload order
+ */
+export function buildExhibitIndex(documents: ScoringDocument[]): ExhibitIndex {
+  const starts = documents.flatMap((document, i) => findExhibitStarts(document, i));
+
+  // Packet page numbers count every file in upload order
+  const pageOffsets: number[] = [];
+  documents.reduce((total, document, i) => {
+    pageOffsets[i] = total;
+    return total + getPageCount(document);
+  }, 0);
+
+  const exhibits: ExhibitEntry[] = starts.map((start, i) => {
+    const next = starts[i + 1];
+    const startPage = pageAt(start.document, start.offset);
+    const endPage = next && next.document === start.document
+      ? Math.max(startPage, pageAt(start.document, next.offset) - 1)
+      : getPageCount(start.document);
+
+    return {
+      label: start.label,
+      title: start.title,
+      fileName: start.document.fileName,
+      startPage,
+      endPage,
+      packetStartPage: pageOffsets[start.documentIndex] + startPage,
+      packetEndPage: pageOffsets[start.documentIndex] + endPage,
+      citationCount: 0,
+    };
+  });
+
+  // The brief is the legal document(s) up to their first exhibit. A
+  // packet without one is read from the front matter of its first file.
+  const firstStart = (document: ScoringDocument) =>
+    starts.find((s) => s.document === document)?.offset ?? document.text.length;
+  let briefDocuments = documents.filter((d) => d.category === 'legal_document');
+  if (briefDocuments.length === 0 && documents.length > 0 && firstStart(documents[0]) > MIN_EXHIBIT_CHARS * 5) {
+    briefDocuments = [documents[0]];
+  }
+
+  const citedLabels = briefDocuments.flatMap((d) => findCitations(d.text.slice(0, firstStart(d))));
+
+  const byLabel = new Map<string, ExhibitEntry[]>();
+  for (const exhibit of exhibits) {
+    byLabel.set(exhibit.label, [...(byLabel.get(exhibit.label) || []), exhibit]);
+  }
+
+  // Briefs sometimes cite "Exhibit 12" for a packet tabbed "Tab 12"
+  const resolve = (label: string): ExhibitEntry | undefined => {
+    const exact = byLabel.get(label);
+    if (exact) return exact[0];
+    const sameId = exhibits.filter((e) => labelId(e.label) === labelId(label));
+    return sameId.length === 1 ? sameId[0] : undefined;
+  };
+
+  const issues: ExhibitReferenceIssue[] = [];
+  const missing = new Map<string, number>();
+  for (const label of citedLabels) {
+    const exhibit = resolve(label);
+    if (exhibit) {
+      exhibit.citationCount++;
+    } else {
+      missing.set(label, (missing.get(label) || 0) + 1);
+    }
+  }
+
+  for (const [label, count] of missing) {
+    issues.push({
+      type: 'missing_exhibit',
+      label,
+      message: `The brief cites ${label}${count > 1 ? ` (${count} times)` : ''}, but no ${label} was found in the uploaded files`,
+    });
+  }
+
+  for (const [label, entries] of byLabel) {
+    if (entries.length > 1) {
+      issues.push({
+        type: 'duplicate_label',
+        label,
+        message: `${label} is used for ${entries.length} exhibits (${entries.map((e) => `${e.fileName} p. ${e.startPage}`).join(', ')})`,
+      });
+    }
+  }
+
+  if (briefDocuments.length > 0) {
+    for (const exhibit of exhibits) {
+      if (exhibit.citationCount === 0) {
+        issues.push({
+          type: 'uncited_exhibit',
+          label: exhibit.label,
+          message: `${exhibit.label}${exhibit.title ? ` (${exhibit.title})` : ''} is never cited in the brief`,
+        });
+      }
+    }
+  }
+
+  console.log(`[ExhibitIndexer] ${exhibits.length} exhibits, ${citedLabels.length} citations, ${issues.length} issue(s)`);
+
+  return {
+    exhibits,
+    citedLabels: Array.from(new Set(citedLabels)),
+    briefFiles: briefDocuments.map((d) => d.fileName),
+    issues,
+  };
+}
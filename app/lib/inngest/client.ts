@@ -6,6 +6,7 @@
  */
 
 import { Inngest } from 'inngest';
+import { ScoringOptions } from '../types';
 
 // Create the Inngest client
 export const inngest = new Inngest({
@@ -21,9 +22,18 @@ export type ScoringRequestedEvent = {
     documentType: string;
     visaType: string;
     beneficiaryName?: string;
+    batchJobId?: string; // Set when the session was created by /api/batch
+    options?: ScoringOptions;
   };
 };
 
+// Refit the calibration curves, e.g. after outcomes are recorded
+export type CalibrationRequestedEvent = {
+  name: 'calibration/requested';
+  data: Record<string, never>;
+};
+
 export type Events = {
   'scoring/requested': ScoringRequestedEvent;
+  'calibration/requested': CalibrationRequestedEvent;
 };
@@ -7,17 +7,39 @@
 
 import { inngest } from './client';
 import { runOfficerScoring } from '../scoring/officer-scorer';
-import { extractTextFromPDF, extractTextFromImage } from '../ai/mistral-ocr';
+import { combineDocuments, ScoringDocument } from '../scoring/map-reduce-scorer';
+import { createProgressReporter } from '../scoring/progress-reporter';
+import { splitRFEDocuments } from '../scoring/rfe-analyzer';
+import { buildExhibitIndex } from '../exhibits/exhibit-indexer';
+import { extractTextFromPDF, extractTextFromImage, singlePage, getExtractionVersion } from '../ai/mistral-ocr';
+import {
+  sha256,
+  getCachedExtraction,
+  cacheExtraction,
+  createCacheScope,
+  withCacheScope,
+  formatCacheStats,
+  CachedExtraction,
+} from '../cache/content-cache';
+import { extractTextFromWord, isWordDocument } from '../ai/word-extractor';
+import { withAICallLog } from '../ai/ai-router';
 import {
   getScoringSession,
-  getFilesForSession,
   updateScoringSession,
+  getFilesForSession,
   saveScoringResults,
   updateUploadedFile,
+  saveExhibitIndex,
+  saveFilePages,
   isSupabaseConfigured,
   getSupabase,
 } from '../database/supabase';
-import { DocumentType, VisaType } from '../types';
+import { getBatchJobSummary } from '../batch/batch-jobs';
+import { runCalibration } from '../calibration/score-calibration';
+import { DocumentType, VisaType, ExtractedPage } from '../types';
+
+// Maximum petitions scored at once - batches fan out many events together
+const SCORING_CONCURRENCY = parseInt(process.env.SCORING_CONCURRENCY || '5', 10);
 
 /**
  * Download file from storage with retry logic (no timeout - let it run as long as needed)
@@ -63,6 +85,26 @@ async function downloadWithRetry(
   return { data: null, error: lastError };
 }
 
+/**
+ * Load the session's files as scoring documents. Called inside the steps
+ * that need the text - step output is size-limited, so whole records are
+ * never passed between steps.
+ */
+async function loadScoringDocuments(sessionId: string): Promise<ScoringDocument[]> {
+  const files = await getFilesForSession(sessionId);
+
+  // Keep files separate - records too large for one prompt are
+  // scored in map-reduce passes instead of being truncated
+  return files.map(
+    (f: { filename: string; document_category?: string; extracted_text?: string; page_count?: number }): ScoringDocument => ({
+      fileName: f.filename,
+      category: f.document_category || 'Document',
+      text: f.extracted_text || '[No text extracted]',
+      pageCount: f.page_count || undefined,
+    })
+  );
+}
+
 /**
  * Background scoring function
  * Triggered when a user uploads documents for scoring
@@ -73,6 +115,8 @@ export const scorePetition = inngest.createFunction(
     name: 'Score Petition Documents',
     // Retry configuration
     retries: 2,
+    // Limit parallel scoring runs so batch fan-outs don't exhaust AI rate limits
+    concurrency: { limit: SCORING_CONCURRENCY },
     // Cancel if we receive another scoring request for same session
     cancelOn: [
       {
@@ -80,26 +124,56 @@ export const scorePetition = inngest.createFunction(
         match: 'data.sessionId',
       },
     ],
+    // Retries exhausted - mark the session failed so its batch can finish
+    onFailure: async ({ event, error, step }) => {
+      const { sessionId, batchJobId } = event.data.event.data;
+      console.error(`[Inngest] Scoring failed for session ${sessionId}:`, error.message);
+
+      await step.run('mark-session-error', async () => {
+        if (isSupabaseConfigured()) {
+          // The error message is recorded before the status change the stream waits for
+          await updateScoringSession(sessionId, { errorMessage: error.message, partialReport: null });
+          await createProgressReporter(sessionId).stage({
+            stage: 'Error',
+            status: 'error',
+            progress: 100,
+            message: `Scoring failed: ${error.message}`,
+          });
+        }
+      });
+
+      if (batchJobId) {
+        await step.run('update-batch-status', async () => {
+          if (isSupabaseConfigured()) {
+            const summary = await getBatchJobSummary(batchJobId);
+            console.log(`[Inngest] Batch ${batchJobId}: ${summary?.failed}/${summary?.total} failed`);
+          }
+        });
+      }
+    },
   },
   { event: 'scoring/requested' },
   async ({ event, step }) => {
-    const { sessionId, documentType, visaType, beneficiaryName } = event.data;
+    const { sessionId, documentType, visaType, beneficiaryName, batchJobId, options } = event.data;
 
     console.log(`[Inngest] Starting background scoring for session ${sessionId}`);
 
+    const reporter = createProgressReporter(sessionId);
+
     // Step 1: Update status to processing
     await step.run('update-status-processing', async () => {
       if (isSupabaseConfigured()) {
-        await updateScoringSession(sessionId, {
+        await reporter.stage({
+          stage: 'Processing',
           status: 'processing',
           progress: 5,
-          progressMessage: 'Starting background processing...',
+          message: 'Starting background processing...',
         });
       }
     });
 
     // Step 2: Extract text from files that need it
-    await step.run('extract-text-from-files', async () => {
+    const extractionCacheStats = await step.run('extract-text-from-files', async () => {
       if (!isSupabaseConfigured()) {
         throw new Error('Database not configured');
       }
@@ -107,16 +181,53 @@ export const scorePetition = inngest.createFunction(
       const files = await getFilesForSession(sessionId);
       const supabase = getSupabase();
 
+      // Bypassing the cache re-extracts every stored file
+      const bypassCache = options?.bypassCache === true;
       const filesToProcess = files.filter(
         (f: { extracted_text?: string; storage_path?: string }) =>
-          (!f.extracted_text || f.extracted_text.length <= 100) && f.storage_path
+          (bypassCache || !f.extracted_text || f.extracted_text.length <= 100) && f.storage_path
       );
+      const extractionVersion = getExtractionVersion();
 
       console.log(`[Inngest] Found ${filesToProcess.length} files needing extraction out of ${files.length} total`);
 
       let processedCount = 0;
       let failedCount = 0;
       const errors: string[] = [];
+      const cacheStats = { hits: 0, misses: 0 };
+
+      // Store one file's text and pages, and report it
+      const completeFile = async (
+        file: { id: string; filename: string },
+        extraction: CachedExtraction,
+        contentHash: string,
+        progressPercent: number,
+        fromCache: boolean
+      ) => {
+        const wordCount = extraction.text.split(/\s+/).filter((w: string) => w.length > 0).length;
+
+        // Update file record with extracted text
+        await updateUploadedFile(file.id, {
+          status: 'completed',
+          extractedText: extraction.text,
+          wordCount,
+          pageCount: extraction.pageCount,
+          contentHash,
+        });
+        await saveFilePages(file.id, sessionId, extraction.pages).catch((error) => {
+          console.error(`[Inngest] Failed to save pages for ${file.filename}:`, error);
+        });
+
+        const verb = fromCache ? 'Reused cached text' : 'Extracted';
+        console.log(`[Inngest] ${verb} ${wordCount} words from ${file.filename}`);
+        await reporter.stage({
+          stage: 'Extracted',
+          progress: progressPercent,
+          message: `${verb} ${wordCount} words from ${file.filename} (${extraction.pageCount} page${extraction.pageCount === 1 ? '' : 's'})`,
+          fileName: file.filename,
+        });
+        processedCount++;
+      };
 
       for (const file of filesToProcess) {
         const fileIndex = processedCount + failedCount;
@@ -124,11 +235,24 @@ export const scorePetition = inngest.createFunction(
 
         console.log(`[Inngest] Processing file ${fileIndex + 1}/${filesToProcess.length}: ${file.filename}`);
 
-        await updateScoringSession(sessionId, {
+        await reporter.stage({
+          stage: 'Extracting',
           progress: progressPercent,
-          progressMessage: `Extracting text from ${file.filename} (${fileIndex + 1}/${filesToProcess.length})...`,
+          message: `Extracting text from ${file.filename} (${fileIndex + 1}/${filesToProcess.length})...`,
+          fileName: file.filename,
         });
 
+        // The same file content was extracted before - skip the download and OCR
+        const cached = file.content_hash
+          ? await getCachedExtraction(file.content_hash, extractionVersion, bypassCache)
+          : null;
+        if (cached) {
+          cacheStats.hits++;
+          await completeFile(file, cached, file.content_hash, progressPercent, true);
+          continue;
+        }
+        cacheStats.misses++;
+
         // Download file from storage with retry
         const { data: fileData, error: downloadError } = await downloadWithRetry(
           supabase,
@@ -145,39 +269,47 @@ export const scorePetition = inngest.createFunction(
           await updateUploadedFile(file.id, {
             status: 'error',
           });
+          await reporter.stage({
+            stage: 'Extraction Failed',
+            progress: progressPercent,
+            message: errorMsg,
+            fileName: file.filename,
+          });
           continue;
         }
 
         try {
           const buffer = Buffer.from(await fileData.arrayBuffer());
+          const contentHash = file.content_hash || sha256(buffer);
           let extractedText = '';
           let pageCount = 0;
+          let pages: ExtractedPage[] = [];
 
           // Extract based on file type
           if (file.file_type === 'application/pdf') {
             const result = await extractTextFromPDF(buffer, file.filename);
             extractedText = result.text;
             pageCount = result.pageCount;
+            pages = result.pages;
           } else if (file.file_type?.startsWith('image/')) {
-            extractedText = await extractTextFromImage(buffer, file.file_type, file.filename);
+            const result = await extractTextFromImage(buffer, file.file_type, file.filename);
+            extractedText = result.text;
             pageCount = 1;
+            pages = result.pages;
+          } else if (isWordDocument(file.file_type, file.filename)) {
+            const result = await extractTextFromWord(buffer, file.file_type, file.filename);
+            extractedText = result.text;
+            pageCount = result.pageCount;
+            pages = singlePage(extractedText, 'word');
           } else if (file.file_type === 'text/plain') {
             extractedText = buffer.toString('utf-8');
             pageCount = Math.ceil(extractedText.split(/\s+/).length / 500);
+            pages = singlePage(extractedText, 'plain-text');
           }
 
-          const wordCount = extractedText.split(/\s+/).filter((w: string) => w.length > 0).length;
-
-          // Update file record with extracted text
-          await updateUploadedFile(file.id, {
-            status: 'completed',
-            extractedText,
-            wordCount,
-            pageCount,
-          });
-
-          console.log(`[Inngest] Extracted ${wordCount} words from ${file.filename}`);
-          processedCount++;
+          const extraction = { text: extractedText, pageCount, pages };
+          await cacheExtraction(contentHash, extractionVersion, extraction);
+          await completeFile(file, extraction, contentHash, progressPercent, false);
         } catch (extractError) {
           const errorMsg = `Failed to extract text from ${file.filename}: ${extractError instanceof Error ? extractError.message : 'Unknown error'}`;
           console.error(`[Inngest] ${errorMsg}`);
@@ -187,6 +319,12 @@ export const scorePetition = inngest.createFunction(
           await updateUploadedFile(file.id, {
             status: 'error',
           });
+          await reporter.stage({
+            stage: 'Extraction Failed',
+            progress: progressPercent,
+            message: errorMsg,
+            fileName: file.filename,
+          });
         }
       }
 
@@ -194,10 +332,11 @@ export const scorePetition = inngest.createFunction(
 
       // If ALL files failed, throw an error to stop processing
       if (failedCount > 0 && processedCount === 0) {
-        await updateScoringSession(sessionId, {
+        await reporter.stage({
+          stage: 'Error',
           status: 'error',
           progress: 15,
-          progressMessage: `All file extractions failed: ${errors.join('; ')}`,
+          message: `All file extractions failed: ${errors.join('; ')}`,
         });
         throw new Error(`All file extractions failed: ${errors.join('; ')}`);
       }
@@ -206,75 +345,96 @@ export const scorePetition = inngest.createFunction(
       if (failedCount > 0) {
         console.warn(`[Inngest] Continuing with ${processedCount} files, ${failedCount} failed`);
       }
+
+      return cacheStats;
     });
 
-    // Step 3: Get document content from uploaded files
-    const documentContent = await step.run('get-document-content', async () => {
+    // Step 3: Check there is a record to score - the text is loaded by each step that reads it
+    await step.run('check-files', async () => {
       if (!isSupabaseConfigured()) {
         throw new Error('Database not configured');
       }
 
-      // Re-fetch files to get updated extracted text
       const files = await getFilesForSession(sessionId);
 
       if (files.length === 0) {
         throw new Error('No files found for this session');
       }
+    });
 
-      // Build document content from uploaded files
-      const content = files
-        .map((f: { document_category?: string; extracted_text?: string }) => {
-          const header = `=== FILE: ${f.document_category || 'Document'} ===`;
-          return `${header}\n${f.extracted_text || '[No text extracted]'}`;
-        })
-        .join('\n\n---\n\n');
-
-      // Truncate if too long (150k chars max)
-      const MAX_LENGTH = 150000;
-      if (content.length > MAX_LENGTH) {
-        return content.substring(0, MAX_LENGTH) +
-          '\n\n[... Document truncated for processing ...]';
+    // Step 3b: Index exhibits and check the brief's cross-references
+    await step.run('index-exhibits', async () => {
+      if (isSupabaseConfigured()) {
+        try {
+          await saveExhibitIndex(sessionId, buildExhibitIndex(await loadScoringDocuments(sessionId)));
+        } catch (error) {
+          // The index is a paralegal aid - never block scoring on it
+          console.error('[Inngest] Exhibit indexing failed:', error);
+        }
       }
-
-      return content;
     });
 
     // Step 3: Update status to scoring
     await step.run('update-status-scoring', async () => {
       if (isSupabaseConfigured()) {
-        await updateScoringSession(sessionId, {
+        await reporter.stage({
+          stage: 'Scoring',
           status: 'scoring',
           progress: 20,
-          progressMessage: 'Officer is reviewing the petition...',
+          message: 'Officer is reviewing the petition...',
         });
       }
     });
 
     // Step 4: Run the AI scoring (this is the long-running part)
     const results = await step.run('run-officer-scoring', async () => {
-      return runOfficerScoring(
+      const documents = await loadScoringDocuments(sessionId);
+
+      // RFE responses are scored against the notice they answer
+      const { notice, response } = splitRFEDocuments(documents);
+      const scoreAgainstNotice = documentType === 'rfe_response' && notice.length > 0 && response.length > 0;
+      const scoredDocuments = scoreAgainstNotice ? response : documents;
+
+      // AI responses are reused unless the request bypasses the cache;
+      // every call made is logged on the session
+      const cacheScope = createCacheScope(options?.bypassCache === true);
+      const output = await withCacheScope(cacheScope, () => withAICallLog(sessionId, () => runOfficerScoring(
         {
           sessionId,
           documentType: documentType as DocumentType,
           visaType: visaType as VisaType,
           beneficiaryName,
-          documentContent,
+          documentContent: combineDocuments(scoredDocuments),
+          documents: scoredDocuments,
+          rfeOriginalContent: scoreAgainstNotice ? combineDocuments(notice) : undefined,
+          options,
         },
         async (stage, progress, message) => {
           // Update progress in database
           if (isSupabaseConfigured()) {
-            await updateScoringSession(sessionId, {
-              progress,
-              progressMessage: message,
-            }).catch(console.error);
+            await reporter.stage({ stage, progress, message }).catch(console.error);
+          }
+        },
+        (text) => {
+          // Report text as the officer writes it, for the live stream
+          if (isSupabaseConfigured()) {
+            reporter.partialReport(text);
           }
         }
-      );
+      )));
+
+      await reporter.flush();
+
+      const cacheStats = { ...cacheScope.stats, extraction: extractionCacheStats };
+      console.log(`[Inngest] Cache use for session ${sessionId}: ${formatCacheStats(cacheStats)}`);
+      return { ...output, cacheStats };
     });
 
     // Step 5: Save results
     await step.run('save-results', async () => {
       if (isSupabaseConfigured()) {
+        await reporter.stage({ stage: 'Saving', progress: 97, message: 'Saving results...' });
+
         await saveScoringResults({
           sessionId,
           overallScore: results.overallScore,
@@ -283,6 +443,14 @@ export const scorePetition = inngest.createFunction(
           rfeProbability: results.rfeProbability,
           denialRisk: results.denialRisk,
           criteriaScores: results.criteriaScores,
+          finalMerits: results.finalMerits,
+          ensemble: results.ensemble,
+          rfeIssues: results.rfeIssues,
+          contractTerms: results.contractTerms,
+          mediaEvidence: results.mediaEvidence,
+          letterAnalysis: results.letterAnalysis,
+          consistencyConflicts: results.consistencyConflicts,
+          cacheStats: results.cacheStats,
           evidenceQuality: results.evidenceQuality,
           rfePredictions: results.rfePredictions,
           weaknesses: results.weaknesses,
@@ -291,15 +459,20 @@ export const scorePetition = inngest.createFunction(
           fullReport: results.fullReport,
         });
 
-        await updateScoringSession(sessionId, {
-          status: 'completed',
-          progress: 100,
-          progressMessage: 'Scoring complete!',
-          completedAt: new Date().toISOString(),
-        });
+        await reporter.complete('Scoring complete!');
       }
     });
 
+    // Step 6: Roll the session result up into its batch job
+    if (batchJobId) {
+      await step.run('update-batch-status', async () => {
+        if (isSupabaseConfigured()) {
+          const summary = await getBatchJobSummary(batchJobId);
+          console.log(`[Inngest] Batch ${batchJobId}: ${summary?.completed}/${summary?.total} completed`);
+        }
+      });
+    }
+
     console.log(`[Inngest] Completed scoring for session ${sessionId}`);
 
     return {
@@ -311,5 +484,32 @@ export const scorePetition = inngest.createFunction(
   }
 );
 
+/**
+ * Calibration refit
+ * Runs nightly, and on request when outcomes are recorded
+ */
+export const calibrateScores = inngest.createFunction(
+  {
+    id: 'calibrate-scores',
+    name: 'Fit Score Calibration Curves',
+    retries: 2,
+    // Every refit reads all outcomes; one at a time is enough
+    concurrency: { limit: 1 },
+  },
+  [{ event: 'calibration/requested' }, { cron: '0 3 * * *' }],
+  async ({ step }) => {
+    const fitted = await step.run('fit-calibration-curves', async () => {
+      if (!isSupabaseConfigured()) {
+        throw new Error('Database not configured');
+      }
+
+      const curves = await runCalibration();
+      return curves.map((c) => ({ visaType: c.visaType, target: c.target, cases: c.reliability.cases, fitted: !!c.fit }));
+    });
+
+    return { success: true, curves: fitted };
+  }
+);
+
 // Export all functions
-export const functions = [scorePetition];
+export const functions = [scorePetition, calibrateScores];
@@ -0,0 +1,105 @@
+/**
+ * BM25 Keyword Index
+ *
+ * Small in-memory Okapi BM25 implementation used for local retrieval.
+ * No external services - documents are tokenized and scored in-process.
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'do', 'does',
+  'for', 'from', 'has', 'have', 'he', 'her', 'his', 'if', 'in', 'into', 'is', 'it',
+  'its', 'may', 'must', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'should', 'such',
+  'that', 'the', 'their', 'them', 'there', 'these', 'they', 'this', 'those', 'to',
+  'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you',
+  'your',
+]);
+
+/**
+ * Lowercase word tokens with stop words removed. Visa labels such as
+ * "O-1A" and "EB-1A" are kept intact so they stay searchable.
+ */
+export function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) || [];
+  return tokens.filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+export interface BM25Document<T> {
+  id: number;
+  tokens: string[];
+  payload: T;
+}
+
+export interface BM25Match<T> {
+  payload: T;
+  score: number;
+}
+
+export class BM25Index<T> {
+  private documents: BM25Document<T>[] = [];
+  private documentFrequency = new Map<string, number>();
+  private termFrequencies: Map<string, number>[] = [];
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1: number = 1.5,
+    private readonly b: number = 0.75
+  ) {}
+
+  add(text: string, payload: T): void {
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    for (const term of frequencies.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+
+    this.documents.push({ id: this.documents.length, tokens, payload });
+    this.termFrequencies.push(frequencies);
+
+    this.totalLength += tokens.length;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(
+    query: string,
+    limit: number = 5,
+    filter?: (payload: T) => boolean,
+    weight?: (payload: T) => number
+  ): BM25Match<T>[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const total = this.documents.length;
+    const averageLength = this.totalLength / Math.max(1, total);
+    const matches: BM25Match<T>[] = [];
+
+    for (const doc of this.documents) {
+      if (filter && !filter(doc.payload)) continue;
+
+      const frequencies = this.termFrequencies[doc.id];
+      let score = 0;
+
+      for (const term of terms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        const norm = tf + this.k1 * (1 - this.b + this.b * (doc.tokens.length / averageLength));
+        score += idf * ((tf * (this.k1 + 1)) / norm);
+      }
+
+      if (score > 0) {
+        matches.push({ payload: doc.payload, score: score * (weight ? weight(doc.payload) : 1) });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
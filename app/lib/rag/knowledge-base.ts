@@ -0,0 +1,248 @@
+/**
+ * Visa Knowledge Base Retrieval
+ *
+ * Chunks the markdown files in RAG/ by heading, indexes them with BM25
+ * and retrieves the passages relevant to a visa type and its criteria.
+ * Retrieved passages are numbered [KB-n] so the officer can cite them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BM25Index } from './bm25';
+import {
+  KNOWLEDGE_SOURCES,
+  KnowledgeSource,
+  SOURCE_KIND_LABELS,
+  SOURCE_KIND_WEIGHTS,
+} from './sources';
+import { VisaType, VISA_CRITERIA } from '../types';
+
+const MAX_CHUNK_CHARS = 1800;
+const MIN_CHUNK_CHARS = 200;
+
+export interface KnowledgeChunk {
+  source: KnowledgeSource;
+  heading: string;
+  text: string;
+}
+
+export interface KnowledgePassage extends KnowledgeChunk {
+  citationId: string; // e.g. "KB-3"
+}
+
+let knowledgeIndex: BM25Index<KnowledgeChunk> | null = null;
+
+function getKnowledgeDir(): string {
+  return process.env.RAG_KNOWLEDGE_DIR || path.join(process.cwd(), 'RAG');
+}
+
+/**
+ * Repair the Windows-1252 mojibake and markdown escapes found in the exports
+ */
+function normalizeMarkdown(text: string): string {
+  return text
+    .replace(/â€™|â€˜/g, "'")
+    .replace(/â€œ|â€�|â€\u009D/g, '"')
+    .replace(/â€”|â€“/g, '-')
+    .replace(/\\([[\]().#*_-])/g, '$1')
+    .replace(/\r\n/g, '\n');
+}
+
+function cleanHeading(line: string): string {
+  return line.replace(/^#+\s*/, '').replace(/\*\*/g, '').replace(/\{#[^}]*\}/g, '').trim();
+}
+
+/**
+ * Split a markdown document into heading-scoped chunks no larger than
+ * MAX_CHUNK_CHARS. Files without headings are split on paragraphs.
+ */
+export function chunkMarkdown(source: KnowledgeSource, markdown: string): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+  let heading = source.title;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const body = buffer.join('\n').trim();
+    buffer = [];
+    if (!body) return;
+
+    // Split oversized sections on paragraph boundaries
+    let current = '';
+    for (const paragraph of body.split(/\n{2,}/)) {
+      if (current && current.length + paragraph.length > MAX_CHUNK_CHARS) {
+        chunks.push({ source, heading, text: current.trim() });
+        current = '';
+      }
+      current += (current ? '\n\n' : '') + paragraph.slice(0, MAX_CHUNK_CHARS);
+    }
+    if (current.trim()) {
+      const last = chunks[chunks.length - 1];
+      // Fold tiny trailing fragments into the previous chunk of the same section
+      if (current.length < MIN_CHUNK_CHARS && last && last.heading === heading) {
+        last.text += `\n\n${current.trim()}`;
+      } else {
+        chunks.push({ source, heading, text: current.trim() });
+      }
+    }
+  };
+
+  for (const line of normalizeMarkdown(markdown).split('\n')) {
+    if (/^#{1,4}\s/.test(line)) {
+      flush();
+      heading = cleanHeading(line) || heading;
+    } else {
+      buffer.push(line);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Build (once) the BM25 index over every cataloged knowledge source
+ */
+function getKnowledgeIndex(): BM25Index<KnowledgeChunk> {
+  if (!knowledgeIndex) {
+    const index = new BM25Index<KnowledgeChunk>();
+    const dir = getKnowledgeDir();
+
+    for (const source of KNOWLEDGE_SOURCES) {
+      const filePath = path.join(dir, source.file);
+      if (!fs.existsSync(filePath)) {
+        console.warn(`[RAG] Knowledge source missing: ${source.file}`);
+        continue;
+      }
+
+      const markdown = fs.readFileSync(filePath, 'utf-8');
+      for (const chunk of chunkMarkdown(source, markdown)) {
+        index.add(`${chunk.heading}\n${chunk.text}`, chunk);
+      }
+    }
+
+    console.log(`[RAG] Indexed ${index.size} knowledge chunks from ${dir}`);
+    knowledgeIndex = index;
+  }
+  return knowledgeIndex;
+}
+
+/**
+ * Retrieve the passages most relevant to a query for a visa type
+ */
+export function searchKnowledgeBase(
+  query: string,
+  visaType: VisaType,
+  limit: number = 4
+): KnowledgeChunk[] {
+  return getKnowledgeIndex()
+    .search(
+      `${visaType} ${query}`,
+      limit,
+      (chunk) => chunk.source.visaTypes.includes(visaType),
+      (chunk) => SOURCE_KIND_WEIGHTS[chunk.source.kind]
+    )
+    .map((match) => match.payload);
+}
+
+/**
+ * Number passages for citation, dropping duplicates and keeping query order
+ */
+function toPassages(groups: KnowledgeChunk[][], maxPassages: number): KnowledgePassage[] {
+  const seen = new Set<KnowledgeChunk>();
+  const passages: KnowledgePassage[] = [];
+
+  // Round-robin across queries so every criterion gets coverage
+  const depth = Math.max(0, ...groups.map((g) => g.length));
+  for (let rank = 0; rank < depth && passages.length < maxPassages; rank++) {
+    for (const group of groups) {
+      const chunk = group[rank];
+      if (!chunk || seen.has(chunk)) continue;
+      seen.add(chunk);
+      passages.push({ ...chunk, citationId: `KB-${passages.length + 1}` });
+      if (passages.length >= maxPassages) break;
+    }
+  }
+
+  return passages;
+}
+
+/**
+ * Passages for a scoring run: the visa's overall standard plus each criterion
+ */
+export function getScoringReferences(
+  visaType: VisaType,
+  maxPassages: number = 14
+): KnowledgePassage[] {
+  try {
+    const queries = [
+      `${visaType} regulatory standard evidentiary requirements adjudication`,
+      `${visaType} request for evidence common RFE issues denial reasons`,
+      ...VISA_CRITERIA[visaType].map((c) => `${c.name} evidence criterion`),
+    ];
+
+    return toPassages(
+      queries.map((q) => searchKnowledgeBase(q, visaType, 3)),
+      maxPassages
+    );
+  } catch (error) {
+    console.error('[RAG] Retrieval failed, scoring without references:', error);
+    return [];
+  }
+}
+
+/**
+ * Passages for an officer chat reply, driven by the user's question
+ */
+export function getChatReferences(
+  visaType: VisaType,
+  question: string,
+  maxPassages: number = 4
+): KnowledgePassage[] {
+  try {
+    return toPassages([searchKnowledgeBase(question, visaType, maxPassages)], maxPassages);
+  } catch (error) {
+    console.error('[RAG] Retrieval failed, chatting without references:', error);
+    return [];
+  }
+}
+
+export function describeSource(passage: KnowledgeChunk): string {
+  return `${SOURCE_KIND_LABELS[passage.source.kind]}: ${passage.source.title} - "${passage.heading}"`;
+}
+
+/**
+ * Render passages as a prompt section
+ */
+export function formatReferencesForPrompt(passages: KnowledgePassage[]): string {
+  if (passages.length === 0) return '';
+
+  return `
+REFERENCE MATERIAL (internal knowledge base - cite as [KB-n]):
+
+${passages
+  .map((p) => `[${p.citationId}] ${describeSource(p)}\n${p.text}`)
+  .join('\n\n')}
+
+When a concern, rating or recommendation is supported by one of these references, cite it inline
+using its identifier, e.g. "The memberships do not require outstanding achievement [KB-4]".
+Only cite references that actually support the point.
+`;
+}
+
+/**
+ * Sources appendix for the report - lists only the references the officer
+ * cited in the given text (report narrative, concerns, recommendations)
+ */
+export function formatCitedSources(citingText: string, passages: KnowledgePassage[]): string {
+  const cited = passages.filter((p) => citingText.includes(`[${p.citationId}]`));
+  if (cited.length === 0) return '';
+
+  return `
+
+---
+
+## SOURCES CITED
+
+${cited.map((p) => `- **[${p.citationId}]** ${describeSource(p)}`).join('\n')}
+`;
+}
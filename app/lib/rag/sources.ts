@@ -0,0 +1,149 @@
+/**
+ * Knowledge Base Source Catalog
+ *
+ * Describes each markdown file in RAG/ so retrieval can filter by visa
+ * type and reports can cite the document a passage came from.
+ * Files not listed here (usage guides, generation prompts) are not indexed.
+ */
+
+import { VisaType } from '../types';
+import { VISA_TYPES, getVisaDefinition } from '../data/visa-registry';
+
+export type KnowledgeSourceKind =
+  | 'policy_memo'
+  | 'knowledge_base'
+  | 'evaluation_guide'
+  | 'itinerary_guide'
+  | 'brief_template'
+  | 'case_analysis';
+
+export interface KnowledgeSource {
+  file: string;
+  title: string;
+  kind: KnowledgeSourceKind;
+  visaTypes: VisaType[];
+}
+
+// Criteria-list visa types - EB-2 NIW is decided on the Dhanasar prongs instead
+const CRITERIA_VISA_TYPES: VisaType[] = VISA_TYPES.filter(
+  (visaType) => getVisaDefinition(visaType).criteriaFramework === 'minimum-criteria'
+);
+
+export const KNOWLEDGE_SOURCES: KnowledgeSource[] = [
+  {
+    file: 'policy memeos visas EB1a and O-1.md',
+    title: 'USCIS Policy Memos: O-1, EB-1A and EB-2 NIW (2015-2025)',
+    kind: 'policy_memo',
+    visaTypes: ['O-1A', 'O-1B', 'EB-1A', 'EB-2 NIW'],
+  },
+  {
+    file: 'policy memeos visas.md',
+    title: 'USCIS Policy Memos: P-1A, P-1B, P-1S and O-2 (2015-2025)',
+    kind: 'policy_memo',
+    visaTypes: ['P-1A'],
+  },
+  {
+    file: 'O-1a knowledge base.md',
+    title: 'O-1A Knowledge Base',
+    kind: 'knowledge_base',
+    visaTypes: ['O-1A'],
+  },
+  {
+    file: 'O-1B knowledge base.md',
+    title: 'O-1B Knowledge Base',
+    kind: 'knowledge_base',
+    visaTypes: ['O-1B'],
+  },
+  {
+    file: 'P-1 A Knowledge Base.md',
+    title: 'P-1A Scoring Blueprint',
+    kind: 'knowledge_base',
+    visaTypes: ['P-1A'],
+  },
+  {
+    file: 'EB-1A knowledge base.md',
+    title: 'EB-1A Scoring Blueprint',
+    kind: 'knowledge_base',
+    visaTypes: ['EB-1A'],
+  },
+  {
+    // Despite the filename, this is the P-1A complete guide
+    file: 'O-1a visa complete guide.md',
+    title: 'P-1A Visa Complete Guide for Internationally Recognized Athletes',
+    kind: 'knowledge_base',
+    visaTypes: ['P-1A'],
+  },
+  {
+    file: 'O-1A Evlaution Rag.md',
+    title: 'O-1A Evaluation Framework',
+    kind: 'evaluation_guide',
+    visaTypes: ['O-1A'],
+  },
+  {
+    file: 'O1A_O1B_P1A_EB1A_profesional_evaluationRAG.md',
+    title: 'Comprehensive Visa Petition Analysis Framework',
+    kind: 'evaluation_guide',
+    visaTypes: CRITERIA_VISA_TYPES,
+  },
+  {
+    file: 'P-1A Itienrary document.md',
+    title: 'P-1A Itinerary Requirements',
+    kind: 'itinerary_guide',
+    visaTypes: ['P-1A'],
+  },
+  {
+    file: 'DIY O1A RAG.md',
+    title: 'O-1A Petition Drafting Guide',
+    kind: 'brief_template',
+    visaTypes: ['O-1A'],
+  },
+  {
+    file: 'DIY O1B Rag.md',
+    title: 'O-1B Petition Drafting Guide',
+    kind: 'brief_template',
+    visaTypes: ['O-1B'],
+  },
+  {
+    file: 'DIY P1A RAG.md',
+    title: 'P-1A Petition Drafting Guide',
+    kind: 'brief_template',
+    visaTypes: ['P-1A'],
+  },
+  {
+    file: 'EB1A_petition_Brief.md',
+    title: 'EB-1A Petition Brief Template',
+    kind: 'brief_template',
+    visaTypes: ['EB-1A'],
+  },
+  {
+    file: 'EB1A_petition_Brief.mddive analysis example.md',
+    title: 'EB-1A Case Analysis Example (Martial Arts)',
+    kind: 'case_analysis',
+    visaTypes: ['EB-1A'],
+  },
+  {
+    file: 'EB1A_Tech_Marathon_Runner_Comprehensive_Analysis (1).md',
+    title: 'EB-1A Case Analysis Example (Technology/Athletics)',
+    kind: 'case_analysis',
+    visaTypes: ['EB-1A'],
+  },
+];
+
+export const SOURCE_KIND_LABELS: Record<KnowledgeSourceKind, string> = {
+  policy_memo: 'Policy memo',
+  knowledge_base: 'Knowledge base',
+  evaluation_guide: 'Evaluation guide',
+  itinerary_guide: 'Itinerary guide',
+  brief_template: 'Drafting guide',
+  case_analysis: 'Case analysis',
+};
+
+// Retrieval weight per source kind - regulatory guidance outranks examples
+export const SOURCE_KIND_WEIGHTS: Record<KnowledgeSourceKind, number> = {
+  policy_memo: 1.3,
+  knowledge_base: 1.15,
+  evaluation_guide: 1.1,
+  itinerary_guide: 1.0,
+  brief_template: 0.85,
+  case_analysis: 0.75,
+};
@@ -0,0 +1,252 @@
+/**
+ * Petition Consistency Checker
+ *
+ * Officers issue RFEs over internal contradictions: salary figures that
+ * differ between the offer letter and the brief, employment dates that do
+ * not line up, the beneficiary's name spelled differently across exhibits.
+ * Each slice of the record is read for the names, dates, amounts and
+ * titles it states, the statements are compared across the whole record,
+ * and every conflict is reported with the file and page of each statement.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import { getConsistencyFactsPrompt, getConsistencyConflictsPrompt } from './officer-prompts';
+import {
+  getConsistencyFactsSpec,
+  getConsistencyConflictsSpec,
+  ConsistencyFactsPayload,
+} from './scoring-schema';
+import { planPasses, formatSegment, ScoringDocument } from './map-reduce-scorer';
+import { verifyCitation } from './criterion-scorer';
+import type { RawScoringOutput } from './officer-scorer';
+import { VisaType, ConsistencyConflict, ConsistencyOccurrence } from '../types';
+
+// Records larger than this many passes are only partly checked
+const MAX_PASSES = 6;
+
+// Name spellings shown per variant
+const MAX_VARIANT_OCCURRENCES = 3;
+
+const SEVERITY_ORDER: Record<ConsistencyConflict['severity'], number> = { High: 0, Medium: 1, Low: 2 };
+
+type RecordFact = ConsistencyFactsPayload['facts'][number];
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function toOccurrence(
+  fact: { value: string; quote: string; fileName: string; page: number | null },
+  documents: ScoringDocument[]
+): ConsistencyOccurrence {
+  const { quote, fileName, page, verified } = verifyCitation({ ...fact, finding: fact.value }, documents);
+  return { value: fact.value, quote, fileName, page, verified };
+}
+
+/**
+ * Spellings of the beneficiary's first and last name that differ from
+ * the name on the petition by a letter or two. Found by scanning the text
+ * directly - a model reading the record tends to silently correct them.
+ */
+export function findNameVariants(
+  documents: ScoringDocument[],
+  beneficiaryName: string
+): ConsistencyConflict | null {
+  const tokens = beneficiaryName.trim().split(/\s+/).filter((t) => t.length > 1);
+  if (tokens.length < 2) return null;
+
+  const target = `${tokens[0]} ${tokens[tokens.length - 1]}`.toLowerCase();
+  // One letter off for short names, two for longer ones
+  const maxDistance = target.length >= 12 ? 2 : 1;
+
+  const matches: { spelling: string; fact: { value: string; quote: string; fileName: string; page: null } }[] = [];
+  for (const document of documents) {
+    for (const line of document.text.split('\n')) {
+      // Capitalized words, without a possessive ending
+      const words = [...line.matchAll(/\p{Lu}[\p{L}'’-]*/gu)].map((w) => ({
+        text: w[0].replace(/['’]s$/, ''),
+        start: w.index!,
+        end: w.index! + w[0].length,
+      }));
+      const adjacent = (a: number, b: number) => /^\s+$/.test(line.slice(words[a].end, words[b].start));
+
+      words.forEach((first, i) => {
+        // First and last name, with an optional middle name or initial between them
+        for (const j of [i + 1, i + 2]) {
+          if (j >= words.length || !adjacent(j - 1, j) || (j === i + 2 && !adjacent(i, i + 1))) break;
+
+          const spelling = `${first.text} ${words[j].text}`;
+          const distance = levenshtein(spelling.toLowerCase(), target);
+          if (distance > maxDistance) continue;
+
+          matches.push({
+            spelling: distance === 0 ? target : spelling,
+            fact: { value: spelling, quote: line.trim().slice(0, 300), fileName: document.fileName, page: null },
+          });
+          break;
+        }
+      });
+    }
+  }
+
+  const variants = new Map<string, typeof matches>();
+  for (const match of matches.filter((m) => m.spelling !== target)) {
+    const key = match.spelling.toLowerCase();
+    variants.set(key, [...(variants.get(key) || []), match]);
+  }
+  if (variants.size === 0) return null;
+
+  const canonical = matches.find((m) => m.spelling === target);
+  const occurrences = [
+    ...(canonical ? [canonical] : []),
+    ...[...variants.values()].flatMap((v) => v.slice(0, MAX_VARIANT_OCCURRENCES)),
+  ].map((m) => toOccurrence(m.fact, documents));
+
+  const spellings = [...variants.values()].map((v) => `"${v[0].spelling}"`).join(', ');
+  return {
+    factType: 'Person Name',
+    subject: "Beneficiary's name",
+    severity: 'Medium',
+    explanation: `The beneficiary's name appears as ${spellings} in some documents and "${beneficiaryName}" on the petition`,
+    occurrences,
+  };
+}
+
+/**
+ * Check the record for contradictory names, dates, amounts and titles
+ */
+export async function runConsistencyCheck(
+  params: {
+    visaType: VisaType;
+    beneficiaryName?: string;
+    documents: ScoringDocument[];
+    systemPrompt: string;
+  },
+  onProgress?: (stage: string, progress: number, message: string) => void
+): Promise<ConsistencyConflict[]> {
+  const { visaType, beneficiaryName, systemPrompt } = params;
+  // The RFE notice states the officer's reading of the record, not the petitioner's
+  const documents = params.documents.filter((d) => d.category !== 'rfe_original');
+
+  const conflicts: ConsistencyConflict[] = [];
+  const nameVariants = beneficiaryName ? findNameVariants(documents, beneficiaryName) : null;
+  if (nameVariants) conflicts.push(nameVariants);
+
+  const passes = planPasses(documents);
+  if (passes.length > MAX_PASSES) {
+    console.warn(`[ConsistencyChecker] Record needs ${passes.length} passes, checking the first ${MAX_PASSES}`);
+  }
+
+  const facts: RecordFact[] = [];
+  for (const [i, segments] of passes.slice(0, MAX_PASSES).entries()) {
+    if (passes.length > 1) {
+      onProgress?.('Consistency', 89, `Reading the record for names, dates and figures (${i + 1} of ${Math.min(passes.length, MAX_PASSES)})...`);
+    }
+
+    const { data } = await callAIWithFallbackStructured(
+      'extraction',
+      getConsistencyFactsPrompt(visaType, segments.map(formatSegment).join('\n\n---\n\n'), beneficiaryName),
+      systemPrompt,
+      getConsistencyFactsSpec(visaType)
+    );
+    // Split files are reported as "name part 2/3"
+    facts.push(...data.facts.map((f) => ({ ...f, fileName: f.fileName.replace(/ part \d+\/\d+$/, '') })));
+  }
+
+  if (facts.length >= 2) {
+    const { data } = await callAIWithFallbackStructured(
+      'extraction',
+      getConsistencyConflictsPrompt(
+        visaType,
+        facts
+          .map((f, i) => `[${i + 1}] ${f.factType} | ${f.subject} | ${f.value} | ${f.fileName}${f.page ? ` p. ${f.page}` : ''}`)
+          .join('\n')
+      ),
+      systemPrompt,
+      getConsistencyConflictsSpec(visaType),
+      { maxTokens: 4096 }
+    );
+
+    for (const conflict of data.conflicts) {
+      const statements = [...new Set(conflict.factIds)]
+        .map((id) => facts[id - 1])
+        .filter((f): f is RecordFact => f !== undefined);
+
+      // A conflict needs at least two different values
+      const values = new Set(statements.map((f) => f.value.trim().toLowerCase()));
+      if (statements.length < 2 || values.size < 2) continue;
+
+      // The spelling check above already covers the beneficiary's name
+      if (nameVariants && conflict.factType === 'Person Name' && /beneficiary/i.test(conflict.subject)) continue;
+
+      conflicts.push({
+        factType: conflict.factType,
+        subject: conflict.subject,
+        severity: conflict.severity,
+        explanation: conflict.explanation,
+        occurrences: statements.map((f) => toOccurrence(f, documents)),
+      });
+    }
+  }
+
+  console.log(`[ConsistencyChecker] ${facts.length} facts, ${conflicts.length} conflict(s)`);
+  return conflicts.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+function formatLocation(occurrence: ConsistencyOccurrence): string {
+  return `${occurrence.fileName}${occurrence.page ? ` p. ${occurrence.page}` : ''}`;
+}
+
+/**
+ * Merge conflicts into the red flags, ahead of the officer's own
+ */
+export function applyConsistencyConflicts(
+  results: Pick<RawScoringOutput, 'weaknesses'>,
+  conflicts: ConsistencyConflict[]
+): void {
+  results.weaknesses = [
+    ...conflicts.map(
+      (c) => `Inconsistent ${c.subject.charAt(0).toLowerCase()}${c.subject.slice(1)}: ${c.explanation} (${c.occurrences.map((o) => `"${o.value}" in ${formatLocation(o)}`).join('; ')})`
+    ),
+    ...results.weaknesses,
+  ];
+}
+
+/**
+ * Report section listing each conflict and where it is stated
+ */
+export function formatConsistencySection(conflicts: ConsistencyConflict[]): string {
+  if (conflicts.length === 0) return '';
+
+  const details = conflicts.map((c) => {
+    const lines = [`### ${c.subject} (${c.factType}, ${c.severity})`, '', c.explanation, ''];
+    for (const o of c.occurrences) {
+      const flag = o.verified ? '' : ' _(not found verbatim in the extracted text)_';
+      lines.push(`- **${o.value}** - "${o.quote}" (${formatLocation(o)})${flag}`);
+    }
+    return lines.join('\n');
+  });
+
+  return `
+
+---
+
+## CONSISTENCY CHECK
+
+${conflicts.length} fact(s) are stated inconsistently across the record. Officers routinely issue RFEs over contradictions like these.
+
+${details.join('\n\n')}
+`;
+}
@@ -0,0 +1,308 @@
+/**
+ * Contract / Deal Memo Extractor
+ *
+ * Pulls the terms of a contract or deal memo into typed fields (parties,
+ * dates, duties, compensation, itinerary) and checks them against what
+ * the regulations require the agreement to show for the visa type. Gaps
+ * are raised as recommendations citing the provision they come from.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import { getContractExtractionPrompt } from './officer-prompts';
+import { getContractTermsSpec, ContractTermsPayload } from './scoring-schema';
+import { combineDocuments, ScoringDocument, SINGLE_PASS_MAX_CHARS } from './map-reduce-scorer';
+import type { RawScoringOutput } from './officer-scorer';
+import { VisaType, ContractTerms, ContractGap, ContractEngagement } from '../types';
+import { getVisaDefinition } from '../data/visa-registry';
+
+// An itinerary may start or end this long after/before the contract term
+const COVERAGE_SLACK_DAYS = 30;
+
+// Undated or unlocated engagements are listed by name, up to this many
+const MAX_LISTED_ENGAGEMENTS = 3;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+function listEngagements(engagements: ContractEngagement[]): string {
+  const names = engagements.slice(0, MAX_LISTED_ENGAGEMENTS).map((e) => `"${e.description}"`);
+  const more = engagements.length - names.length;
+  return more > 0 ? `${names.join(', ')} and ${more} more` : names.join(', ');
+}
+
+/**
+ * Map the validated payload onto ContractTerms, dropping nulls
+ */
+function toContractTerms(payload: ContractTermsPayload): Omit<ContractTerms, 'gaps'> {
+  return {
+    parties: payload.parties.map((p) => ({ name: p.name, role: p.role, address: p.address || undefined })),
+    signedDate: payload.signedDate || undefined,
+    termStart: payload.termStart || undefined,
+    termEnd: payload.termEnd || undefined,
+    duties: payload.duties,
+    compensation: payload.compensation.map((c) => ({
+      description: c.description,
+      amount: c.amount ?? undefined,
+      currency: c.currency || undefined,
+      basis: c.basis || undefined,
+    })),
+    engagements: payload.engagements.map((e) => ({
+      description: e.description,
+      startDate: e.startDate || undefined,
+      endDate: e.endDate || undefined,
+      venue: e.venue || undefined,
+      location: e.location || undefined,
+      employer: e.employer || undefined,
+    })),
+    agentIsPetitioner: payload.agentIsPetitioner,
+  };
+}
+
+/**
+ * Check extracted terms against the visa requirements
+ */
+export function checkContractRequirements(
+  visaType: VisaType,
+  terms: Omit<ContractTerms, 'gaps'>
+): ContractGap[] {
+  const gaps: ContractGap[] = [];
+  const contract = getVisaDefinition(visaType).contract;
+  const contractCitation = contract.citation;
+  const itineraryCitation = contract.itineraryCitation;
+  const agentCitation = terms.agentIsPetitioner ? contract.agentCitation : undefined;
+  const roles = new Set(terms.parties.map((p) => p.role));
+
+  if (!roles.has('Petitioner') && !roles.has('Employer') && !roles.has('Agent')) {
+    gaps.push({
+      field: 'parties',
+      severity: 'critical',
+      citation: contractCitation,
+      message: 'The contract does not identify the petitioner or employer - name the engaging party and have it sign the agreement',
+    });
+  }
+  if (!roles.has('Beneficiary')) {
+    gaps.push({
+      field: 'parties',
+      severity: 'high',
+      citation: contractCitation,
+      message: 'The beneficiary is not named as a party to the contract',
+    });
+  }
+
+  if (terms.compensation.length === 0) {
+    gaps.push({
+      field: 'compensation',
+      severity: 'critical',
+      citation: agentCitation || contractCitation,
+      message: 'The contract states no compensation - add the wage or fee offered and how it is paid',
+    });
+  } else if (terms.compensation.every((c) => c.amount === undefined)) {
+    gaps.push({
+      field: 'compensation',
+      severity: 'critical',
+      citation: agentCitation || contractCitation,
+      message: 'Compensation is described but no amount is stated - give the wage or fee as a figure',
+    });
+  }
+
+  if (!terms.termStart || !terms.termEnd) {
+    gaps.push({
+      field: 'term',
+      severity: 'high',
+      citation: itineraryCitation || contractCitation,
+      message: `The contract does not state ${!terms.termStart && !terms.termEnd ? 'when the engagement begins or ends' : !terms.termStart ? 'when the engagement begins' : 'when the engagement ends'} - give the full dates of the term`,
+    });
+  }
+
+  if (terms.duties.length === 0) {
+    gaps.push({
+      field: 'duties',
+      severity: 'high',
+      citation: itineraryCitation || contractCitation,
+      message: "The contract does not describe the beneficiary's duties or role - state the services to be performed",
+    });
+  }
+
+  if (!itineraryCitation) return gaps;
+
+  if (terms.engagements.length === 0) {
+    gaps.push({
+      field: 'itinerary',
+      severity: 'critical',
+      citation: agentCitation || itineraryCitation,
+      message: 'No events or engagements are listed - add an itinerary with the dates and location of each event',
+    });
+    return gaps;
+  }
+
+  const undated = terms.engagements.filter((e) => !e.startDate);
+  if (undated.length > 0) {
+    gaps.push({
+      field: 'itinerary',
+      severity: 'critical',
+      citation: agentCitation || itineraryCitation,
+      message: `${undated.length} engagement(s) have no date (${listEngagements(undated)}) - give the date of every event on the itinerary`,
+    });
+  }
+
+  const unlocated = terms.engagements.filter((e) => !e.venue && !e.location);
+  if (unlocated.length > 0) {
+    gaps.push({
+      field: 'itinerary',
+      severity: agentCitation ? 'critical' : 'high',
+      citation: agentCitation || itineraryCitation,
+      message: `${unlocated.length} engagement(s) have no venue or location (${listEngagements(unlocated)}) - name where each event takes place`,
+    });
+  }
+
+  if (agentCitation) {
+    // An agent filing for several employers must name each actual employer
+    const noEmployer = terms.engagements.filter((e) => !e.employer);
+    const employers = terms.parties.filter((p) => p.role === 'Employer' || p.role === 'Venue');
+    if (noEmployer.length > 0 && employers.length === 0) {
+      gaps.push({
+        field: 'employers',
+        severity: 'critical',
+        citation: agentCitation,
+        message: `The agent is the petitioner, but ${noEmployer.length} engagement(s) do not name the employer (${listEngagements(noEmployer)}) - list the name and address of each employer and include its contract with the beneficiary`,
+      });
+    }
+    const noAddress = employers.filter((p) => !p.address);
+    if (noAddress.length > 0) {
+      gaps.push({
+        field: 'employers',
+        severity: 'high',
+        citation: agentCitation,
+        message: `No address is given for ${noAddress.map((p) => p.name).join(', ')} - the agent must list the names and addresses of the employers and venues`,
+      });
+    }
+  }
+
+  if (contract.itineraryWithinTerm && terms.termStart && terms.termEnd) {
+    const dated = terms.engagements.filter((e) => e.startDate).map((e) => ({
+      start: e.startDate!,
+      end: e.endDate || e.startDate!,
+      description: e.description,
+    }));
+
+    const outside = dated.filter((e) => e.start < terms.termStart! || e.end > terms.termEnd!);
+    if (outside.length > 0) {
+      gaps.push({
+        field: 'itinerary',
+        severity: 'high',
+        citation: itineraryCitation,
+        message: `${outside.length} event(s) fall outside the contract term (${terms.termStart} to ${terms.termEnd}) - extend the contract or correct the itinerary`,
+      });
+    }
+
+    if (dated.length > 0) {
+      const first = dated.reduce((a, b) => (a.start <= b.start ? a : b)).start;
+      const last = dated.reduce((a, b) => (a.end >= b.end ? a : b)).end;
+      if (daysBetween(terms.termStart, first) > COVERAGE_SLACK_DAYS || daysBetween(last, terms.termEnd) > COVERAGE_SLACK_DAYS) {
+        gaps.push({
+          field: 'itinerary',
+          severity: 'high',
+          citation: itineraryCitation,
+          message: `The itinerary only covers ${first} to ${last}, but the contract runs ${terms.termStart} to ${terms.termEnd} - add the events for the rest of the requested period or shorten it`,
+        });
+      }
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Extract the contract terms and check them against the visa requirements
+ */
+export async function runContractExtraction(params: {
+  visaType: VisaType;
+  documents: ScoringDocument[];
+  systemPrompt: string;
+}): Promise<ContractTerms> {
+  const { visaType, documents, systemPrompt } = params;
+
+  const { data, provider } = await callAIWithFallbackStructured(
+    'extraction',
+    getContractExtractionPrompt(visaType, combineDocuments(documents).slice(0, SINGLE_PASS_MAX_CHARS)),
+    systemPrompt,
+    getContractTermsSpec(visaType)
+  );
+
+  const terms = toContractTerms(data);
+  const gaps = checkContractRequirements(visaType, terms);
+  console.log(
+    `[ContractExtractor] ${terms.parties.length} parties, ${terms.engagements.length} engagements, ${gaps.length} gap(s) using ${provider}`
+  );
+
+  return { ...terms, gaps };
+}
+
+/**
+ * Merge contract gaps into the recommendations, ahead of the model's own
+ */
+export function applyContractGaps(
+  results: Pick<RawScoringOutput, 'recommendations'>,
+  gaps: ContractGap[]
+): void {
+  const tagged = (severity: ContractGap['severity']) =>
+    gaps.filter((g) => g.severity === severity).map((g) => `[${g.citation}] ${g.message}`);
+
+  results.recommendations.critical = [...tagged('critical'), ...results.recommendations.critical];
+  results.recommendations.high = [...tagged('high'), ...results.recommendations.high];
+}
+
+/**
+ * Report section with the extracted terms and their gaps
+ */
+export function formatContractSection(terms: ContractTerms): string {
+  const cell = (value?: string) => (value ? value.replace(/\|/g, '/') : '-');
+
+  const parties = terms.parties.length > 0
+    ? terms.parties.map((p) => `- **${p.role}:** ${p.name}${p.address ? ` (${p.address})` : ''}`).join('\n')
+    : '- None identified';
+
+  const compensation = terms.compensation.length > 0
+    ? terms.compensation.map((c) => `- ${c.description}`).join('\n')
+    : '- Not stated';
+
+  const itinerary = terms.engagements.length > 0
+    ? `| Event | Dates | Venue / Location | Employer |
+|-------|-------|------------------|----------|
+${terms.engagements.map((e) => {
+  const dates = e.startDate ? (e.endDate && e.endDate !== e.startDate ? `${e.startDate} to ${e.endDate}` : e.startDate) : '**Undated**';
+  const place = [e.venue, e.location].filter(Boolean).join(', ');
+  return `| ${cell(e.description)} | ${dates} | ${cell(place)} | ${cell(e.employer)} |`;
+}).join('\n')}`
+    : 'No events or engagements are listed.';
+
+  const gaps = terms.gaps.length > 0
+    ? `| Severity | Regulation | Gap |
+|----------|------------|-----|
+${terms.gaps.map((g) => `| ${g.severity === 'critical' ? 'Critical' : 'High'} | ${g.citation} | ${cell(g.message)} |`).join('\n')}`
+    : 'No gaps found against the visa requirements.';
+
+  return `
+
+---
+
+## CONTRACT TERMS
+
+**Term:** ${terms.termStart || 'not stated'} to ${terms.termEnd || 'not stated'}${terms.signedDate ? ` (signed ${terms.signedDate})` : ''}${terms.agentIsPetitioner ? '\n\n**Filed by an agent** - the agent requirements apply.' : ''}
+
+**Parties:**
+${parties}
+
+**Compensation:**
+${compensation}
+
+**Itinerary:**
+
+${itinerary}
+
+**Gaps against the ${terms.agentIsPetitioner ? 'visa and agent' : 'visa'} requirements:**
+
+${gaps}
+`;
+}
@@ -0,0 +1,273 @@
+/**
+ * Per-Criterion Evaluation Passes
+ *
+ * Optional scoring mode: after the main evaluation, the officer reviews
+ * each regulatory criterion on its own and quotes the passages each
+ * finding relies on. Quotes are checked against the extracted text so
+ * attorneys can tell a real exhibit citation from a paraphrase.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import { getCriterionPassPrompt } from './officer-prompts';
+import { getCriterionEvaluationSpec, CitationPayload } from './scoring-schema';
+import { combineDocuments, ScoringDocument, SINGLE_PASS_MAX_CHARS } from './map-reduce-scorer';
+import { BM25Index } from '../rag/bm25';
+import { VisaType, DocumentType, CriterionScore, EvidenceCitation, VISA_CRITERIA } from '../types';
+
+// Criterion passes run a few at a time to stay under provider rate limits
+const PASS_CONCURRENCY = 3;
+
+// Large records are narrowed to the excerpts most relevant to the criterion
+const EXCERPT_CHARS = 1500;
+const MAX_EXCERPT_TOTAL = 100000;
+
+// Page separators written by the extractors, e.g. "--- Page 12 ---"
+export const PAGE_MARKER_PATTERN = /^--- Page (\d+) ---$/gm;
+
+type Criterion = { number: number; letter: string; name: string };
+
+interface DocumentPage {
+  document: ScoringDocument;
+  page?: number;
+  text: string;
+}
+
+/**
+ * Split a document on page markers; documents without markers are one unnumbered page
+ */
+function splitPages(document: ScoringDocument): DocumentPage[] {
+  const markers = [...document.text.matchAll(PAGE_MARKER_PATTERN)];
+  if (markers.length === 0) {
+    return [{ document, text: document.text }];
+  }
+
+  const pages: DocumentPage[] = [];
+  const leading = document.text.slice(0, markers[0].index).trim();
+  if (leading) pages.push({ document, text: leading });
+
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index : document.text.length;
+    pages.push({ document, page: parseInt(marker[1], 10), text: document.text.slice(start, end) });
+  });
+
+  return pages;
+}
+
+/**
+ * The excerpts of the record ranked highest for a query, up to maxChars,
+ * in record order under their FILE headers. Also returns the files the
+ * excerpts came from.
+ */
+export function selectExcerpts(
+  documents: ScoringDocument[],
+  query: string,
+  maxChars: number
+): { content: string; fileNames: string[] } {
+  type Excerpt = { page: DocumentPage; order: number; text: string };
+  const index = new BM25Index<Excerpt>();
+  let order = 0;
+  for (const page of documents.flatMap(splitPages)) {
+    for (let i = 0; i < page.text.length; i += EXCERPT_CHARS) {
+      const text = page.text.slice(i, i + EXCERPT_CHARS);
+      index.add(text, { page, order: order++, text });
+    }
+  }
+
+  const selected: Excerpt[] = [];
+  let total = 0;
+  for (const { payload } of index.search(query, 200)) {
+    if (total + payload.text.length > maxChars) break;
+    selected.push(payload);
+    total += payload.text.length;
+  }
+  selected.sort((a, b) => a.order - b.order);
+
+  const sections: string[] = [];
+  let currentFile: ScoringDocument | null = null;
+  for (const excerpt of selected) {
+    if (excerpt.page.document !== currentFile) {
+      currentFile = excerpt.page.document;
+      sections.push(`=== FILE: ${currentFile.fileName} (${currentFile.category}) - excerpts ===`);
+    }
+    const page = excerpt.page.page ? `[Page ${excerpt.page.page}] ` : '';
+    sections.push(`${page}${excerpt.text.trim()}`);
+  }
+
+  return {
+    content: sections.join('\n\n'),
+    fileNames: Array.from(new Set(selected.map((e) => e.page.document.fileName))),
+  };
+}
+
+/**
+ * Record content for a criterion pass: the whole record when it fits,
+ * otherwise the highest-ranked excerpts for the criterion
+ */
+function getCriterionContent(documents: ScoringDocument[], criterion: Criterion): string {
+  const combined = combineDocuments(documents);
+  if (combined.length <= SINGLE_PASS_MAX_CHARS) return combined;
+
+  const { content } = selectExcerpts(documents, criterion.name, MAX_EXCERPT_TOTAL);
+  return `NOTE: The record is large; these are the excerpts most relevant to this criterion.\n\n${content}`;
+}
+
+function normalizeForMatch(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Confirm a quote exists in the record and fill in its page when the
+ * text carries page markers. The cited file is searched first.
+ */
+export function verifyCitation(
+  citation: CitationPayload,
+  documents: ScoringDocument[]
+): EvidenceCitation {
+  const quote = normalizeForMatch(citation.quote);
+  const ordered = [
+    ...documents.filter((d) => d.fileName === citation.fileName),
+    ...documents.filter((d) => d.fileName !== citation.fileName),
+  ];
+
+  for (const document of ordered) {
+    const page = splitPages(document).find((p) => normalizeForMatch(p.text).includes(quote));
+    if (page) {
+      return {
+        quote: citation.quote,
+        fileName: document.fileName,
+        page: page.page ?? citation.page ?? undefined,
+        finding: citation.finding,
+        verified: true,
+      };
+    }
+  }
+
+  return {
+    quote: citation.quote,
+    fileName: citation.fileName,
+    page: citation.page ?? undefined,
+    finding: citation.finding,
+    verified: false,
+  };
+}
+
+async function evaluateCriterion(
+  params: {
+    documentType: DocumentType;
+    visaType: VisaType;
+    beneficiaryName?: string;
+    documents: ScoringDocument[];
+    systemPrompt: string;
+    references: string;
+  },
+  criterion: Criterion
+): Promise<CriterionScore> {
+  const { documentType, visaType, beneficiaryName, documents, systemPrompt, references } = params;
+
+  const { data } = await callAIWithFallbackStructured(
+    'scoring',
+    getCriterionPassPrompt(
+      documentType,
+      visaType,
+      criterion,
+      getCriterionContent(documents, criterion),
+      beneficiaryName,
+      references
+    ),
+    systemPrompt,
+    getCriterionEvaluationSpec(visaType, criterion.name)
+  );
+
+  const citations = data.citations.map((c) => verifyCitation(c, documents));
+  const unverified = citations.filter((c) => !c.verified).length;
+  if (unverified > 0) {
+    console.warn(`[CriterionScorer] Criterion ${criterion.number}: ${unverified}/${citations.length} quotes not found verbatim`);
+  }
+
+  return {
+    criterionNumber: criterion.number,
+    criterionName: criterion.name,
+    rating: data.rating,
+    score: data.score,
+    evidenceQuality: data.evidenceQuality,
+    officerConcerns: data.officerConcerns,
+    strengths: data.strengths,
+    suggestions: data.suggestions,
+    citations,
+  };
+}
+
+/**
+ * Run one focused pass per criterion. A criterion whose pass fails keeps
+ * its score from the main evaluation.
+ */
+export async function runCriterionPasses(
+  params: {
+    documentType: DocumentType;
+    visaType: VisaType;
+    beneficiaryName?: string;
+    documents: ScoringDocument[];
+    systemPrompt: string;
+    references: string;
+    fallbackScores: CriterionScore[];
+  },
+  onProgress?: (stage: string, progress: number, message: string) => void
+): Promise<CriterionScore[]> {
+  const criteria = VISA_CRITERIA[params.visaType];
+  const results: CriterionScore[] = [];
+
+  for (let i = 0; i < criteria.length; i += PASS_CONCURRENCY) {
+    const group = criteria.slice(i, i + PASS_CONCURRENCY);
+    onProgress?.(
+      'Criteria',
+      70 + Math.round((i / criteria.length) * 20),
+      `Officer is reviewing criteria ${group[0].letter}-${group[group.length - 1].letter} in detail...`
+    );
+
+    const scored = await Promise.all(
+      group.map((criterion) =>
+        evaluateCriterion(params, criterion).catch((error) => {
+          console.error(`[CriterionScorer] Pass for criterion ${criterion.number} failed:`, error);
+          return params.fallbackScores.find((c) => c.criterionNumber === criterion.number)!;
+        })
+      )
+    );
+    results.push(...scored);
+  }
+
+  return results;
+}
+
+/**
+ * Report appendix listing the passages relied on for each criterion
+ */
+export function formatCriterionCitations(criteriaScores: CriterionScore[]): string {
+  const sections = criteriaScores
+    .filter((c) => c.citations && c.citations.length > 0)
+    .map((c) => {
+      const lines = c.citations!.map((citation) => {
+        const page = citation.page ? `, p. ${citation.page}` : '';
+        const flag = citation.verified ? '' : ' _(not found verbatim in the extracted text)_';
+        return `- **${citation.finding}** - "${citation.quote}" (${citation.fileName}${page})${flag}`;
+      });
+      return `### Criterion ${c.criterionNumber}: ${c.criterionName}\n\n${lines.join('\n')}`;
+    });
+
+  if (sections.length === 0) return '';
+
+  return `
+
+---
+
+## EVIDENCE RELIED ON BY CRITERION
+
+${sections.join('\n\n')}
+`;
+}
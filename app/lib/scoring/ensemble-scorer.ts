@@ -0,0 +1,176 @@
+/**
+ * Ensemble Scoring
+ *
+ * Runs several independent officer evaluations of the same petition and
+ * aggregates them: medians for the overall and per-criterion scores, a
+ * confidence interval for the overall score, and an officer disagreement
+ * indicator so clients can see how stable a score is before filing.
+ */
+
+import { ScoringOutputPayload } from './scoring-schema';
+import { getOverallRating } from './final-merits';
+import { VisaType, CriterionSpread, EnsembleSummary, OverallRating, AIProviderId } from '../types';
+
+export const MAX_ENSEMBLE_RUNS = 5;
+
+// Two-sided 95% Student's t critical values, indexed by degrees of freedom
+const T_CRITICAL_95: Record<number, number> = { 1: 12.706, 2: 4.303, 3: 3.182, 4: 2.776 };
+
+export interface EnsembleRun {
+  data: ScoringOutputPayload;
+  provider: AIProviderId;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Most frequent value; ties go to the preferred value when it is among them
+ */
+function mode<T>(values: T[], preferred: T): T {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) || 0) + 1);
+  const best = Math.max(...counts.values());
+  return counts.get(preferred) === best ? preferred : [...counts].find(([, c]) => c === best)![0];
+}
+
+/**
+ * 95% confidence interval for the expected overall score
+ */
+function confidenceInterval(scores: number[]): EnsembleSummary['confidenceInterval'] {
+  const mean = scores.reduce((sum, v) => sum + v, 0) / scores.length;
+  const df = scores.length - 1;
+  const t = T_CRITICAL_95[df] ?? 1.96;
+  const margin = df > 0 ? (t * standardDeviation(scores)) / Math.sqrt(scores.length) : 0;
+
+  return {
+    level: 0.95,
+    low: Math.max(0, Math.round(mean - margin)),
+    high: Math.min(100, Math.round(mean + margin)),
+  };
+}
+
+function getDisagreement(
+  standardDev: number,
+  ratingAgreement: number,
+  criteria: CriterionSpread[]
+): EnsembleSummary['disagreement'] {
+  const widestSpread = Math.max(0, ...criteria.map((c) => c.max - c.min));
+
+  if (standardDev >= 10 || ratingAgreement < 0.6 || widestSpread >= 40) return 'High';
+  if (standardDev >= 5 || ratingAgreement < 1 || widestSpread >= 25) return 'Moderate';
+  return 'Low';
+}
+
+/**
+ * Aggregate the runs into one payload plus the stability summary.
+ * The narrative comes from the run closest to the median score; the
+ * numbers are medians across all runs.
+ */
+export function aggregateEnsemble(
+  runs: EnsembleRun[],
+  visaType: VisaType
+): { payload: ScoringOutputPayload; summary: EnsembleSummary } {
+  const overallScores = runs.map((r) => r.data.overallScore);
+  const overallMedian = median(overallScores);
+
+  const representative = runs.reduce((best, run) =>
+    Math.abs(run.data.overallScore - overallMedian) < Math.abs(best.data.overallScore - overallMedian) ? run : best
+  );
+
+  const criteria: CriterionSpread[] = representative.data.criteriaScores.map((c) => {
+    const scores = runs
+      .map((r) => r.data.criteriaScores.find((rc) => rc.criterionNumber === c.criterionNumber)?.score)
+      .filter((s): s is number => s !== undefined);
+    return {
+      criterionNumber: c.criterionNumber,
+      median: Math.round(median(scores)),
+      min: Math.min(...scores),
+      max: Math.max(...scores),
+    };
+  });
+
+  const criteriaScores = representative.data.criteriaScores.map((c, i) => ({
+    ...c,
+    score: criteria[i].median,
+    rating: mode(
+      runs.map((r) => r.data.criteriaScores.find((rc) => rc.criterionNumber === c.criterionNumber)?.rating ?? c.rating),
+      c.rating
+    ),
+  }));
+
+  const runRatings: OverallRating[] = runs.map((r) =>
+    getOverallRating(visaType, r.data.overallScore, r.data.criteriaScores)
+  );
+  const commonRating = mode(runRatings, runRatings[runs.indexOf(representative)]);
+  const ratingAgreement = runRatings.filter((r) => r === commonRating).length / runs.length;
+
+  const standardDev = standardDeviation(overallScores);
+
+  const payload: ScoringOutputPayload = {
+    ...representative.data,
+    overallScore: Math.round(overallMedian),
+    approvalProbability: Math.round(median(runs.map((r) => r.data.approvalProbability))),
+    rfeProbability: Math.round(median(runs.map((r) => r.data.rfeProbability))),
+    denialRisk: Math.round(median(runs.map((r) => r.data.denialRisk))),
+    criteriaScores,
+  };
+
+  const summary: EnsembleSummary = {
+    runs: runs.length,
+    providers: runs.map((r) => r.provider),
+    overallScores,
+    median: Math.round(overallMedian),
+    standardDeviation: Math.round(standardDev * 10) / 10,
+    confidenceInterval: confidenceInterval(overallScores),
+    ratingAgreement: Math.round(ratingAgreement * 100) / 100,
+    disagreement: getDisagreement(standardDev, ratingAgreement, criteria),
+    criteria,
+  };
+
+  return { payload, summary };
+}
+
+/**
+ * Report section describing score stability
+ */
+export function formatEnsembleSection(summary: EnsembleSummary, criterionNames: Map<number, string>): string {
+  const ci = summary.confidenceInterval;
+
+  return `
+
+---
+
+## SCORE STABILITY (${summary.runs} INDEPENDENT EVALUATIONS)
+
+| Measure | Value |
+|---------|-------|
+| Overall scores by run | ${summary.overallScores.map((s, i) => `${s} (${summary.providers[i]})`).join(', ')} |
+| Median overall score | ${summary.median} |
+| ${Math.round(ci.level * 100)}% confidence interval | ${ci.low} - ${ci.high} |
+| Rating agreement | ${Math.round(summary.ratingAgreement * 100)}% of runs |
+| Officer disagreement | **${summary.disagreement}** |
+
+| Criterion | Median | Range |
+|-----------|--------|-------|
+${summary.criteria
+  .map((c) => `| ${criterionNames.get(c.criterionNumber) || `Criterion ${c.criterionNumber}`} | ${c.median} | ${c.min} - ${c.max} |`)
+  .join('\n')}
+
+${summary.disagreement === 'High'
+  ? 'Independent evaluations of this petition diverge substantially. Treat the score as uncertain and address the criteria with the widest ranges before filing.'
+  : summary.disagreement === 'Moderate'
+  ? 'Independent evaluations broadly agree, but some criteria were scored differently from run to run.'
+  : 'Independent evaluations agree closely - the score is stable.'}
+`;
+}
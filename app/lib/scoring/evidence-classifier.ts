@@ -0,0 +1,180 @@
+/**
+ * Media Evidence Classifier
+ *
+ * Identifies each media or publication exhibit in the record (outlet,
+ * date, author, circulation claims) and assigns it an evidence tier from
+ * the outlet registry, falling back to the officer's judgment for outlets
+ * the registry does not list. The evidence quality counts are computed
+ * from these classifications rather than taken from the narrative.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import { getMediaEvidencePrompt } from './officer-prompts';
+import { getMediaEvidenceSpec, MediaEvidenceListPayload } from './scoring-schema';
+import { planPasses, formatSegment, ScoringDocument } from './map-reduce-scorer';
+import { findOutlet } from '../data/outlet-registry';
+import { VisaType, EvidenceQuality, EvidenceTier, MediaEvidenceItem } from '../types';
+
+// Records larger than this many passes are only partly catalogued
+const MAX_PASSES = 6;
+
+type MediaEvidencePayload = MediaEvidenceListPayload['items'][number];
+
+/**
+ * Tier for one item: the registry decides when it lists the outlet;
+ * paid and self-published items are Tier 4 wherever they ran
+ */
+export function assignTier(item: MediaEvidencePayload): Pick<MediaEvidenceItem, 'tier' | 'tierSource' | 'registryOutlet'> {
+  const outlet = findOutlet(item.outlet);
+
+  if (item.paidOrSelfPublished || item.mediaType === 'Press Release') {
+    return { tier: 4, tierSource: outlet?.tier === 4 ? 'registry' : 'officer', registryOutlet: outlet?.name };
+  }
+  if (outlet) {
+    return { tier: outlet.tier, tierSource: 'registry', registryOutlet: outlet.name };
+  }
+  return { tier: item.suggestedTier as EvidenceTier, tierSource: 'officer' };
+}
+
+function toMediaEvidenceItem(item: MediaEvidencePayload): MediaEvidenceItem {
+  return {
+    // Split files are reported as "name part 2/3"
+    fileName: item.fileName.replace(/ part \d+\/\d+$/, ''),
+    exhibitLabel: item.exhibitLabel || undefined,
+    outlet: item.outlet,
+    title: item.title || undefined,
+    publishedDate: item.publishedDate || undefined,
+    author: item.author || undefined,
+    circulationClaim: item.circulationClaim || undefined,
+    mediaType: item.mediaType,
+    aboutBeneficiary: item.aboutBeneficiary,
+    ...assignTier(item),
+  };
+}
+
+/**
+ * Catalogue and classify the media exhibits, one call per slice of the record
+ */
+export async function classifyMediaEvidence(
+  params: {
+    visaType: VisaType;
+    documents: ScoringDocument[];
+    systemPrompt: string;
+  },
+  onProgress?: (stage: string, progress: number, message: string) => void
+): Promise<MediaEvidenceItem[]> {
+  const { visaType, documents, systemPrompt } = params;
+
+  // Every file is read - categories come from filename and keyword guesses, and a
+  // combined petition packet is often tagged 'contract'. RFE notices are split
+  // out before scoring, so they never reach this point.
+  const passes = planPasses(documents);
+  if (passes.length > MAX_PASSES) {
+    console.warn(`[EvidenceClassifier] Record needs ${passes.length} passes, cataloguing the first ${MAX_PASSES}`);
+  }
+
+  const items: MediaEvidenceItem[] = [];
+  const seen = new Set<string>();
+
+  for (const [i, segments] of passes.slice(0, MAX_PASSES).entries()) {
+    if (passes.length > 1) {
+      onProgress?.('Evidence Tiers', 88, `Classifying published material (${i + 1} of ${Math.min(passes.length, MAX_PASSES)})...`);
+    }
+
+    const { data } = await callAIWithFallbackStructured(
+      'classification',
+      getMediaEvidencePrompt(visaType, segments.map(formatSegment).join('\n\n---\n\n')),
+      systemPrompt,
+      getMediaEvidenceSpec(visaType)
+    );
+
+    for (const item of data.items.map(toMediaEvidenceItem)) {
+      // The same article is often filed twice (exhibit and translation, or reprint)
+      const key = `${item.outlet}|${item.title || item.fileName}`.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      items.push(item);
+    }
+  }
+
+  console.log(
+    `[EvidenceClassifier] ${items.length} media item(s): ${([1, 2, 3, 4] as const).map((t) => `T${t}=${items.filter((i) => i.tier === t).length}`).join(' ')}`
+  );
+  return items;
+}
+
+/**
+ * Evidence quality from the classified items. The officer's concerns are
+ * kept; the counts and the assessment come from the classifications when
+ * there is published material. With none classified, the officer's
+ * evaluation stands unchanged.
+ */
+export function summarizeEvidenceQuality(
+  items: MediaEvidenceItem[],
+  officerQuality: EvidenceQuality
+): EvidenceQuality {
+  if (items.length === 0) return officerQuality;
+
+  const count = (tier: EvidenceTier) => items.filter((i) => i.tier === tier).length;
+  const about = items.filter((i) => i.aboutBeneficiary);
+  const aboutCount = (tier: EvidenceTier) => about.filter((i) => i.tier === tier).length;
+
+  const major = aboutCount(1);
+  const trade = aboutCount(2);
+  const overallAssessment =
+    major >= 3 || (major >= 1 && major + trade >= 5)
+      ? 'Strong'
+      : major + trade >= 2
+      ? 'Moderate'
+      : about.length > 0
+      ? 'Weak'
+      : 'Insufficient';
+
+  const concerns: string[] = [];
+  const weak = count(4);
+  if (weak > 0) {
+    concerns.push(`${weak} of ${items.length} published item(s) are press releases, paid placements or self-published (Tier 4)`);
+  }
+  const notAbout = items.length - about.length;
+  if (notAbout > 0) {
+    concerns.push(`${notAbout} published item(s) are not about the beneficiary or only mention them in passing`);
+  }
+  const incomplete = items.filter((i) => !i.publishedDate || !i.author);
+  if (incomplete.length > 0) {
+    concerns.push(`${incomplete.length} published item(s) do not show the date and author of the material`);
+  }
+
+  return {
+    tier1Count: count(1),
+    tier2Count: count(2),
+    tier3Count: count(3),
+    tier4Count: count(4),
+    overallAssessment,
+    concerns: [...concerns, ...officerQuality.concerns],
+  };
+}
+
+/**
+ * Report section listing each classified item
+ */
+export function formatMediaEvidenceSection(items: MediaEvidenceItem[]): string {
+  if (items.length === 0) return '';
+
+  const cell = (value?: string) => (value ? value.replace(/\|/g, '/') : '-');
+
+  return `
+
+---
+
+## PUBLISHED MATERIAL BY TIER
+
+| Tier | Outlet | Title | Date | Author | Exhibit |
+|------|--------|-------|------|--------|---------|
+${[...items]
+  .sort((a, b) => a.tier - b.tier)
+  .map((i) => `| ${i.tier}${i.tierSource === 'officer' ? '*' : ''} | ${cell(i.outlet)} | ${cell(i.title)}${i.aboutBeneficiary ? '' : ' _(not about the beneficiary)_'} | ${cell(i.publishedDate)} | ${cell(i.author)} | ${cell(i.exhibitLabel || i.fileName)} |`)
+  .join('\n')}
+
+Tiers come from the outlet registry; * marks tiers set by the officer - outlets the registry does not list, or paid and self-published items in a listed outlet.
+`;
+}
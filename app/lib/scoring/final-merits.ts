@@ -0,0 +1,169 @@
+/**
+ * Final Merits Determination (Kazarian Step 2)
+ *
+ * For O-1A and EB-1A, meeting the minimum number of criteria only opens
+ * the door. The officer then weighs the record as a whole for sustained
+ * acclaim and standing at the top of the field. This runs as its own
+ * scored step after the criteria evaluation, and the overall rating
+ * depends on both steps.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import { getFinalMeritsPrompt } from './officer-prompts';
+import { getFinalMeritsSpec } from './scoring-schema';
+import { SINGLE_PASS_MAX_CHARS } from './map-reduce-scorer';
+import {
+  VisaType,
+  CriterionScore,
+  FinalMeritsDetermination,
+  OverallRating,
+  MINIMUM_CRITERIA,
+} from '../types';
+import { getVisaDefinition } from '../data/visa-registry';
+
+// Visa types adjudicated with the Kazarian two-step (criteria, then final merits)
+export function requiresFinalMerits(visaType: VisaType): boolean {
+  return !!getVisaDefinition(visaType).finalMeritsStandard;
+}
+
+// One-time achievements that substitute for the criteria list
+const MAJOR_AWARD_PATTERN =
+  /\b(nobel prize|pulitzer prize|fields medal|turing award|academy award|oscar (award|winner|for)|emmy award|grammy award|olympic (gold|silver|bronze) medal|directors guild (of america )?award)\b/i;
+
+/**
+ * Criteria the officer would accept in step 1
+ */
+export function countCriteriaMet(criteriaScores: Pick<CriterionScore, 'rating'>[]): number {
+  return criteriaScores.filter((c) => c.rating === 'Strong' || c.rating === 'Adequate').length;
+}
+
+/**
+ * Whether the beneficiary's own major one-time award substitutes for the
+ * criteria list. The award has to carry the criterion it is rated under -
+ * rated Strong, with the award named in the officer's strengths - so an
+ * award mentioned elsewhere in the record (a letter writer's Nobel Prize)
+ * does not count.
+ */
+export function hasOneTimeAchievement(
+  visaType: VisaType,
+  criteriaScores: Pick<CriterionScore, 'criterionNumber' | 'rating' | 'strengths'>[]
+): boolean {
+  const criterionNumber = getVisaDefinition(visaType).oneTimeAchievementCriterion;
+  if (criterionNumber === undefined) return false;
+
+  const criterion = criteriaScores.find((c) => c.criterionNumber === criterionNumber);
+  return !!criterion && criterion.rating === 'Strong' && criterion.strengths.some((s) => MAJOR_AWARD_PATTERN.test(s));
+}
+
+/**
+ * Whether step 1 is satisfied - enough criteria, or a one-time achievement
+ */
+export function meetsCriteriaThreshold(
+  visaType: VisaType,
+  criteriaScores: Pick<CriterionScore, 'criterionNumber' | 'rating' | 'strengths'>[]
+): boolean {
+  return countCriteriaMet(criteriaScores) >= MINIMUM_CRITERIA[visaType] || hasOneTimeAchievement(visaType, criteriaScores);
+}
+
+/**
+ * Run the final merits determination over the step 1 evaluation
+ */
+export async function runFinalMeritsDetermination(params: {
+  visaType: VisaType;
+  beneficiaryName?: string;
+  criteriaScores: CriterionScore[];
+  evaluationReport: string;
+  documentContent: string;
+  systemPrompt: string;
+}): Promise<FinalMeritsDetermination> {
+  const { visaType, beneficiaryName, criteriaScores, evaluationReport, documentContent, systemPrompt } = params;
+
+  const criteriaMet = countCriteriaMet(criteriaScores);
+  const criteriaRequired = MINIMUM_CRITERIA[visaType];
+
+  const criteriaSummary = criteriaScores
+    .map((c) => `- ${c.criterionName}: ${c.rating} (${c.score}/100)`)
+    .join('\n');
+
+  const { data, provider } = await callAIWithFallbackStructured(
+    'scoring',
+    getFinalMeritsPrompt(
+      visaType,
+      criteriaSummary,
+      criteriaMet,
+      criteriaRequired,
+      evaluationReport,
+      // Large records were already reduced to the step 1 evaluation
+      documentContent.length <= SINGLE_PASS_MAX_CHARS ? documentContent : '',
+      beneficiaryName
+    ),
+    systemPrompt,
+    getFinalMeritsSpec(visaType)
+  );
+
+  console.log(`[FinalMerits] ${visaType} final merits ${data.outcome} (${data.score}) using ${provider}`);
+
+  return {
+    ...data,
+    // Final merits cannot be favorable when step 1 fails
+    outcome: !meetsCriteriaThreshold(visaType, criteriaScores) && data.outcome === 'Favorable' ? 'Borderline' : data.outcome,
+    criteriaMet,
+    criteriaRequired,
+  };
+}
+
+/**
+ * Overall rating from both steps. Step 1 gates the rating on the number
+ * of criteria met, unless a one-time achievement stands in for them; for
+ * Kazarian visa types the final merits outcome then decides it. Other
+ * visa types fall back to the overall score.
+ */
+export function getOverallRating(
+  visaType: VisaType,
+  overallScore: number,
+  criteriaScores: Pick<CriterionScore, 'criterionNumber' | 'rating' | 'strengths'>[],
+  finalMerits?: FinalMeritsDetermination
+): OverallRating {
+  const criteriaMet = countCriteriaMet(criteriaScores);
+  const criteriaRequired = MINIMUM_CRITERIA[visaType];
+
+  // One criterion short is the classic RFE; more than that is a denial risk
+  if (!meetsCriteriaThreshold(visaType, criteriaScores)) {
+    return criteriaMet === criteriaRequired - 1 ? 'RFE Likely' : 'Denial Risk';
+  }
+
+  if (finalMerits) {
+    if (finalMerits.outcome === 'Favorable') return 'Approve';
+    if (finalMerits.outcome === 'Borderline') return 'RFE Likely';
+    return 'Denial Risk';
+  }
+
+  if (overallScore >= 70) return 'Approve';
+  if (overallScore >= 50) return 'RFE Likely';
+  return 'Denial Risk';
+}
+
+/**
+ * Report section for the final merits determination
+ */
+export function formatFinalMeritsSection(finalMerits: FinalMeritsDetermination): string {
+  return `
+
+---
+
+## FINAL MERITS DETERMINATION (KAZARIAN STEP 2)
+
+| Step | Result |
+|------|--------|
+| Step 1 - Criteria met | ${finalMerits.criteriaMet} of ${finalMerits.criteriaRequired} required |
+| Step 2 - Final merits | **${finalMerits.outcome}** (${finalMerits.score}/100) |
+
+**Sustained acclaim:** ${finalMerits.sustainedAcclaim}
+
+**Small percentage at the very top:** ${finalMerits.topOfField}
+
+**Totality of the evidence:** ${finalMerits.totalityOfEvidence}
+
+**Determination:** ${finalMerits.rationale}
+`;
+}
@@ -0,0 +1,238 @@
+/**
+ * Support Letter Analyzer
+ *
+ * Assesses each support or recommendation letter on its own (author,
+ * independence from the beneficiary, specificity of the contributions it
+ * describes) and compares the letters with each other: officers discount
+ * letters written from a common template, so letters sharing near-identical
+ * language lose credibility and are flagged together.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import { getLetterAssessmentPrompt } from './officer-prompts';
+import { getLetterAssessmentSpec } from './scoring-schema';
+import { ScoringDocument, SINGLE_PASS_MAX_CHARS } from './map-reduce-scorer';
+import type { RawScoringOutput } from './officer-scorer';
+import { VisaType, LetterAnalysis, LetterAssessment, LetterRelationship } from '../types';
+
+// Letters are assessed a few at a time to stay under provider rate limits
+const LETTER_CONCURRENCY = 3;
+
+// Words per shingle when comparing letters - long enough that shared
+// field vocabulary and the beneficiary's name do not count as copying
+const SHINGLE_SIZE = 5;
+
+// Shingle overlap (Jaccard) at which two letters share template language
+const BOILERPLATE_SIMILARITY = 0.3;
+
+// Credibility kept by letters from authors close to the beneficiary
+const RELATIONSHIP_WEIGHT: Record<LetterRelationship, number> = {
+  Independent: 1,
+  Collaborator: 0.85,
+  'Co-author': 0.8,
+  Unknown: 0.8,
+  Employer: 0.75,
+};
+
+export function isLetter(document: ScoringDocument): boolean {
+  return document.category === 'support_letter';
+}
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const shingle of smaller) {
+    if (larger.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Pairwise similarity between letters, and the groups of letters
+ * connected by template-level overlap
+ */
+export function compareLetters(letters: ScoringDocument[]): {
+  similar: Map<string, { fileName: string; similarity: number }[]>;
+  groups: string[][];
+} {
+  const sets = letters.map((l) => shingles(l.text));
+  const similar = new Map<string, { fileName: string; similarity: number }[]>(
+    letters.map((l) => [l.fileName, []])
+  );
+
+  // Union-find over the letters that share template language
+  const parent = letters.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < letters.length; i++) {
+    for (let j = i + 1; j < letters.length; j++) {
+      const similarity = jaccard(sets[i], sets[j]);
+      if (similarity < BOILERPLATE_SIMILARITY) continue;
+
+      const rounded = Math.round(similarity * 100) / 100;
+      similar.get(letters[i].fileName)!.push({ fileName: letters[j].fileName, similarity: rounded });
+      similar.get(letters[j].fileName)!.push({ fileName: letters[i].fileName, similarity: rounded });
+      parent[root(j)] = root(i);
+    }
+  }
+
+  const byRoot = new Map<number, string[]>();
+  letters.forEach((letter, i) => {
+    byRoot.set(root(i), [...(byRoot.get(root(i)) || []), letter.fileName]);
+  });
+
+  return {
+    similar,
+    groups: [...byRoot.values()].filter((group) => group.length > 1),
+  };
+}
+
+/**
+ * Credibility after discounting for closeness to the beneficiary and
+ * for template language shared with other letters
+ */
+export function scoreCredibility(
+  specificityScore: number,
+  relationship: LetterRelationship,
+  similarLetters: { similarity: number }[]
+): number {
+  const maxSimilarity = Math.max(0, ...similarLetters.map((s) => s.similarity));
+  const boilerplatePenalty = maxSimilarity >= BOILERPLATE_SIMILARITY ? Math.min(0.6, maxSimilarity) : 0;
+  return Math.round(specificityScore * RELATIONSHIP_WEIGHT[relationship] * (1 - boilerplatePenalty));
+}
+
+async function assessLetter(
+  params: {
+    visaType: VisaType;
+    beneficiaryName?: string;
+    systemPrompt: string;
+  },
+  letter: ScoringDocument,
+  similarLetters: { fileName: string; similarity: number }[]
+): Promise<LetterAssessment> {
+  const { visaType, beneficiaryName, systemPrompt } = params;
+
+  const { data } = await callAIWithFallbackStructured(
+    'classification',
+    getLetterAssessmentPrompt(visaType, letter.fileName, letter.text.slice(0, SINGLE_PASS_MAX_CHARS), beneficiaryName),
+    systemPrompt,
+    getLetterAssessmentSpec(visaType),
+    { maxTokens: 4096, temperature: 0.2 }
+  );
+
+  const concerns = [...data.concerns];
+  if (similarLetters.length > 0) {
+    concerns.unshift(
+      `Shares near-identical language with ${similarLetters.map((s) => `${s.fileName} (${Math.round(s.similarity * 100)}%)`).join(', ')}`
+    );
+  }
+
+  return {
+    fileName: letter.fileName,
+    author: data.author,
+    title: data.title || undefined,
+    affiliation: data.affiliation || undefined,
+    relationship: data.relationship,
+    relationshipDetail: data.relationshipDetail,
+    specificity: data.specificity,
+    specificContributions: data.specificContributions,
+    credibilityScore: scoreCredibility(data.specificityScore, data.relationship, similarLetters),
+    similarLetters,
+    concerns,
+  };
+}
+
+/**
+ * Assess every support letter in the record. A letter whose assessment
+ * fails is left out; the boilerplate comparison still covers it.
+ */
+export async function runLetterAnalysis(
+  params: {
+    visaType: VisaType;
+    beneficiaryName?: string;
+    documents: ScoringDocument[];
+    systemPrompt: string;
+  },
+  onProgress?: (stage: string, progress: number, message: string) => void
+): Promise<LetterAnalysis> {
+  const letters = params.documents.filter(isLetter);
+  const { similar, groups } = compareLetters(letters);
+
+  const results: LetterAssessment[] = [];
+  for (let i = 0; i < letters.length; i += LETTER_CONCURRENCY) {
+    const group = letters.slice(i, i + LETTER_CONCURRENCY);
+    onProgress?.('Letters', 87, `Officer is reading support letters ${i + 1}-${i + group.length} of ${letters.length}...`);
+
+    const assessed = await Promise.all(
+      group.map((letter) =>
+        assessLetter(params, letter, similar.get(letter.fileName) || []).catch((error) => {
+          console.error(`[LetterAnalyzer] Assessment of ${letter.fileName} failed:`, error);
+          return null;
+        })
+      )
+    );
+    results.push(...assessed.filter((a): a is LetterAssessment => a !== null));
+  }
+
+  console.log(`[LetterAnalyzer] ${results.length}/${letters.length} letters assessed, ${groups.length} boilerplate group(s)`);
+  return { letters: results, boilerplateGroups: groups };
+}
+
+/**
+ * Merge template-letter warnings into the weaknesses and recommendations
+ */
+export function applyLetterFindings(
+  results: Pick<RawScoringOutput, 'weaknesses' | 'recommendations'>,
+  analysis: LetterAnalysis
+): void {
+  const warnings = analysis.boilerplateGroups.map(
+    (group) => `${group.length} support letters share near-identical language (${group.join(', ')}) - officers give template letters little weight`
+  );
+  const fixes = analysis.boilerplateGroups.map(
+    (group) => `Have the authors of ${group.join(', ')} rewrite their letters in their own words, each describing specific contributions they know of first-hand`
+  );
+
+  results.weaknesses = [...warnings, ...results.weaknesses];
+  results.recommendations.high = [...fixes, ...results.recommendations.high];
+}
+
+/**
+ * Report section with the per-letter credibility table
+ */
+export function formatLetterSection(analysis: LetterAnalysis): string {
+  if (analysis.letters.length === 0 && analysis.boilerplateGroups.length === 0) return '';
+
+  const cell = (value?: string) => (value ? value.replace(/\|/g, '/') : '-');
+
+  const warnings = analysis.boilerplateGroups.length > 0
+    ? `\n${analysis.boilerplateGroups.map((g) => `> **Template language:** ${g.join(', ')} share near-identical wording.`).join('\n>\n')}\n`
+    : '';
+
+  const table = analysis.letters.length > 0
+    ? `
+| Letter | Author | Relationship | Specificity | Credibility |
+|--------|--------|--------------|-------------|-------------|
+${[...analysis.letters]
+  .sort((a, b) => b.credibilityScore - a.credibilityScore)
+  .map((l) => `| ${cell(l.fileName)} | ${cell(l.author)}${l.affiliation ? `, ${cell(l.affiliation)}` : ''} | ${l.relationship} | ${l.specificity} | ${l.credibilityScore}/100 |`)
+  .join('\n')}
+`
+    : '';
+
+  return `
+
+---
+
+## SUPPORT LETTERS
+${warnings}${table}`;
+}
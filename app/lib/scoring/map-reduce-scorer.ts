@@ -0,0 +1,261 @@
+/**
+ * Map-Reduce Scoring for Large Petitions
+ *
+ * Petitions larger than a single prompt are reviewed in passes: each pass
+ * reads a slice of the files and records per-criterion findings, then a
+ * synthesis pass writes the final evaluation from the combined notes.
+ * Nothing is truncated - every file is read in some pass.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import {
+  getScoringPrompt,
+  getReviewPassPrompt,
+  getStructuredOutputInstructions,
+} from './officer-prompts';
+import {
+  getScoringOutputSpec,
+  getPassFindingsSpec,
+  forwardPartialReport,
+  PassFindings,
+  ScoringOutputPayload,
+} from './scoring-schema';
+import { VisaType, DocumentType, VISA_CRITERIA, AIProviderId } from '../types';
+
+// Combined content above this size is scored with map-reduce
+export const SINGLE_PASS_MAX_CHARS = 150000;
+
+// Size of the record slice read in each review pass
+const PASS_MAX_CHARS = 120000;
+
+export interface ScoringDocument {
+  fileName: string;
+  category: string;
+  text: string;
+  pageCount?: number;
+}
+
+export interface DocumentSegment {
+  document: ScoringDocument;
+  part: number;
+  totalParts: number;
+  text: string;
+}
+
+interface ReviewPass {
+  passNumber: number;
+  segments: DocumentSegment[];
+  findings: PassFindings;
+}
+
+/**
+ * Join documents into the single-pass petition content
+ */
+export function combineDocuments(documents: ScoringDocument[]): string {
+  return documents
+    .map((d) => `=== FILE: ${d.fileName} (${d.category}) ===\n${d.text}`)
+    .join('\n\n---\n\n');
+}
+
+export function needsMapReduce(documents: ScoringDocument[]): boolean {
+  return combineDocuments(documents).length > SINGLE_PASS_MAX_CHARS;
+}
+
+/**
+ * Split one document into parts of at most PASS_MAX_CHARS,
+ * breaking on paragraph boundaries where possible
+ */
+function splitDocument(document: ScoringDocument): DocumentSegment[] {
+  if (document.text.length <= PASS_MAX_CHARS) {
+    return [{ document, part: 1, totalParts: 1, text: document.text }];
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const paragraph of document.text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length > PASS_MAX_CHARS) {
+      parts.push(current);
+      current = '';
+    }
+    // A single paragraph larger than a pass (e.g. OCR without blank lines) is cut hard
+    for (let i = 0; i < paragraph.length; i += PASS_MAX_CHARS) {
+      const piece = paragraph.slice(i, i + PASS_MAX_CHARS);
+      if (current && current.length + piece.length > PASS_MAX_CHARS) {
+        parts.push(current);
+        current = '';
+      }
+      current += (current ? '\n\n' : '') + piece;
+    }
+  }
+  if (current) parts.push(current);
+
+  return parts.map((text, i) => ({ document, part: i + 1, totalParts: parts.length, text }));
+}
+
+/**
+ * Pack document segments into passes, keeping file order
+ */
+export function planPasses(documents: ScoringDocument[]): DocumentSegment[][] {
+  const passes: DocumentSegment[][] = [];
+  let current: DocumentSegment[] = [];
+  let size = 0;
+
+  for (const segment of documents.flatMap(splitDocument)) {
+    if (current.length > 0 && size + segment.text.length > PASS_MAX_CHARS) {
+      passes.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(segment);
+    size += segment.text.length;
+  }
+  if (current.length > 0) passes.push(current);
+
+  return passes;
+}
+
+function describeSegment(segment: DocumentSegment): string {
+  const part = segment.totalParts > 1 ? ` part ${segment.part}/${segment.totalParts}` : '';
+  return `${segment.document.fileName}${part}`;
+}
+
+export function formatSegment(segment: DocumentSegment): string {
+  return `=== FILE: ${describeSegment(segment)} (${segment.document.category}) ===\n${segment.text}`;
+}
+
+/**
+ * Render the review notes the synthesis pass works from
+ */
+function formatReviewNotes(passes: ReviewPass[], visaType: VisaType): string {
+  const criterionNames = new Map(VISA_CRITERIA[visaType].map((c) => [c.number, c.name]));
+
+  return passes
+    .map(({ passNumber, segments, findings }) => {
+      const lines = [
+        `=== REVIEW PASS ${passNumber} of ${passes.length} - files: ${segments.map(describeSegment).join(', ')} ===`,
+      ];
+
+      for (const finding of findings.criterionFindings) {
+        const name = criterionNames.get(finding.criterionNumber);
+        if (!name) continue;
+
+        lines.push(`CRITERION ${finding.criterionNumber} - ${name}: preliminary score ${finding.preliminaryScore}`);
+        for (const item of finding.evidence) {
+          lines.push(`  - [${item.fileName}] (Tier ${item.tier}) ${item.description}`);
+        }
+        for (const concern of finding.concerns) {
+          lines.push(`  Concern: ${concern}`);
+        }
+      }
+      if (findings.observations.length > 0) {
+        lines.push(`Observations:\n${findings.observations.map((o) => `  - ${o}`).join('\n')}`);
+      }
+      if (findings.redFlags.length > 0) {
+        lines.push(`Red flags:\n${findings.redFlags.map((r) => `  - ${r}`).join('\n')}`);
+      }
+
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Report appendix recording which files were read in which pass
+ */
+function formatPassAppendix(passes: ReviewPass[]): string {
+  return `
+
+---
+
+## FILES ANALYZED BY PASS
+
+This record exceeded the single-review limit and was evaluated in ${passes.length} review passes followed by a synthesis pass.
+
+| Pass | Files |
+|------|-------|
+${passes.map((p) => `| ${p.passNumber} | ${p.segments.map(describeSegment).join(', ')} |`).join('\n')}
+| Synthesis | Review notes from passes 1-${passes.length} |
+`;
+}
+
+/**
+ * Run the review passes and the synthesis pass. Returns the validated
+ * payload with the pass appendix already added to the report.
+ */
+export async function runMapReduceEvaluation(
+  params: {
+    documentType: DocumentType;
+    visaType: VisaType;
+    beneficiaryName?: string;
+    documents: ScoringDocument[];
+    rfeOriginalContent?: string;
+    systemPrompt: string;
+    references: string;
+    preferredProvider?: AIProviderId;
+  },
+  onProgress?: (stage: string, progress: number, message: string) => void,
+  onPartialReport?: (text: string) => void
+): Promise<{ data: ScoringOutputPayload; provider: AIProviderId; attempts: number }> {
+  const { documentType, visaType, beneficiaryName, documents, rfeOriginalContent, systemPrompt, references, preferredProvider } = params;
+
+  const plan = planPasses(documents);
+  console.log(`[MapReduce] Reviewing ${documents.length} files in ${plan.length} passes`);
+
+  // Map: one review pass per slice of the record
+  const passes: ReviewPass[] = [];
+  for (let i = 0; i < plan.length; i++) {
+    const passNumber = i + 1;
+    onProgress?.(
+      'Scoring',
+      20 + Math.round((i / plan.length) * 45),
+      `Officer is reviewing part ${passNumber} of ${plan.length} of the record...`
+    );
+
+    const { data: findings } = await callAIWithFallbackStructured(
+      'scoring',
+      getReviewPassPrompt(
+        documentType,
+        visaType,
+        passNumber,
+        plan.length,
+        plan[i].map(formatSegment).join('\n\n---\n\n'),
+        beneficiaryName
+      ),
+      systemPrompt,
+      getPassFindingsSpec(visaType),
+      { temperature: 0.2, preferredProvider }
+    );
+
+    passes.push({ passNumber, segments: plan[i], findings });
+  }
+
+  // Reduce: the final evaluation is written from the combined notes
+  onProgress?.('Scoring', 65, 'Officer is writing the final evaluation...');
+
+  let notes = `NOTE: This record (${documents.length} files) was too large to review in one sitting.
+I reviewed it in ${passes.length} passes; the notes below cover every file in the record.
+My evaluation is based on the complete set of notes.
+
+${formatReviewNotes(passes, visaType)}`;
+
+  if (documentType === 'rfe_response' && rfeOriginalContent) {
+    notes = `=== ORIGINAL RFE FROM USCIS ===\n${rfeOriginalContent}\n\n=== REVIEW NOTES ON THE PETITIONER'S RFE RESPONSE ===\n${notes}`;
+  }
+
+  const result = await callAIWithFallbackStructured(
+    'scoring',
+    getScoringPrompt(documentType, visaType, notes, beneficiaryName, references) +
+      getStructuredOutputInstructions(visaType),
+    systemPrompt,
+    getScoringOutputSpec(visaType),
+    {
+      maxTokens: 16384,
+      temperature: 0.4,
+      preferredProvider,
+      onPartial: onPartialReport && forwardPartialReport(onPartialReport),
+    }
+  );
+
+  result.data.fullReport += formatPassAppendix(passes);
+  return result;
+}
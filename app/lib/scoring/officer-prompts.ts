@@ -5,7 +5,8 @@
  * with 15+ years of experience - skeptical, thorough, and direct.
  */
 
-import { VisaType, DocumentType } from '../types';
+import { VisaType, DocumentType, VISA_CRITERIA } from '../types';
+import { getVisaDefinition } from '../data/visa-registry';
 
 /**
  * Core USCIS Officer System Prompt
@@ -29,7 +30,7 @@ YOUR MINDSET:
 - You're not trying to deny cases - you're ensuring the standard is met
 
 YOUR EVALUATION APPROACH:
-${getVisaSpecificApproach(visaType)}
+${getVisaDefinition(visaType).officerApproach}
 
 YOUR COMMUNICATION STYLE:
 - Be DIRECT and HONEST - no sugarcoating
@@ -47,55 +48,6 @@ CRITICAL INSTRUCTIONS:
 - Your goal is to help them submit a STRONG petition, not a marginal one`;
 }
 
-/**
- * Visa-specific evaluation approaches
- */
-function getVisaSpecificApproach(visaType: VisaType): string {
-  switch (visaType) {
-    case 'O-1A':
-      return `FOR O-1A (Extraordinary Ability):
-- Apply the Kazarian two-step framework STRICTLY:
-  Step 1: Does the evidence facially satisfy each claimed criterion?
-  Step 2: Does the totality demonstrate sustained national/international acclaim?
-- Look for "extraordinary" not just "above average"
-- Question whether acclaim is truly "sustained" (not one-time events)
-- Verify that recognition is "national or international" (not regional or local)
-- Check that the beneficiary is among the "small percentage at the very top"
-- Require at least 3 of 8 criteria with STRONG evidence`;
-
-    case 'O-1B':
-      return `FOR O-1B (Arts/Entertainment):
-- Distinguish between "extraordinary ability" (arts) and "extraordinary achievement" (motion picture/TV)
-- For arts: Look for "distinction" - renown, leading, or well-known status
-- For motion picture/TV: Require demonstrated "extraordinary achievement"
-- Verify that acclaim is beyond ordinary practitioners
-- Check that evidence shows prominence in the field, not just employment
-- Require at least 3 of 6 criteria with STRONG evidence`;
-
-    case 'P-1A':
-      return `FOR P-1A (Internationally Recognized Athlete):
-- Focus on INTERNATIONAL recognition, not just domestic
-- Verify participation is with teams/events of "distinguished reputation"
-- Check that international competitions were at high levels
-- Look for rankings, awards, and recognition at international level
-- Require at least 2 criteria with strong international evidence
-- Verify the itinerary supports the classification`;
-
-    case 'EB-1A':
-      return `FOR EB-1A (Extraordinary Ability Green Card):
-- This is the HIGHEST standard - "one of that small percentage at the very top"
-- Apply Kazarian two-step framework EXTREMELY rigorously
-- Look for sustained NATIONAL OR INTERNATIONAL acclaim
-- Evidence must show beneficiary is among the top of their field WORLDWIDE
-- This is harder than O-1A - question everything
-- Require at least 3 of 10 criteria with EXCEPTIONAL evidence
-- Consider: Does this person's entry substantially benefit the United States?`;
-
-    default:
-      return '';
-  }
-}
-
 /**
  * Document-type specific scoring prompts
  */
@@ -103,9 +55,10 @@ export function getScoringPrompt(
   documentType: DocumentType,
   visaType: VisaType,
   documentContent: string,
-  beneficiaryName?: string
+  beneficiaryName?: string,
+  references: string = ''
 ): string {
-  const basePrompt = getBaseScoringPrompt(visaType, beneficiaryName);
+  const basePrompt = getBaseScoringPrompt(visaType, beneficiaryName) + getCriterionGuidance(visaType) + references;
 
   switch (documentType) {
     case 'full_petition':
@@ -132,6 +85,35 @@ As the adjudicating officer, I will provide a thorough, critical evaluation.
 `;
 }
 
+/**
+ * Evidence guidance from the criterion templates, so the officer's
+ * suggestions match what the templates tell petitioners to file.
+ * Pass a criterion number to include that criterion only.
+ */
+function getCriterionGuidance(visaType: VisaType, criterionNumber?: number): string {
+  const visa = getVisaDefinition(visaType);
+  const templates = visa.templates.filter((t) => criterionNumber === undefined || t.number === criterionNumber);
+  if (templates.length === 0) return '';
+
+  const sections = templates.map((t) => `Criterion ${t.number} (${t.shortName}):
+- Evidence that carries weight: ${t.strongExamples.join('; ')}
+- Common weaknesses: ${t.commonWeaknesses.join('; ')}
+- How to strengthen: ${t.tips.join('; ')}`);
+
+  const comparable = visa.comparableEvidence && criterionNumber === undefined
+    ? `\nComparable evidence (${visa.comparableEvidence.citation}): ${visa.comparableEvidence.description}
+- Common weaknesses: ${visa.comparableEvidence.commonWeaknesses.join('; ')}
+- How to strengthen: ${visa.comparableEvidence.tips.join('; ')}\n`
+    : '';
+
+  return `
+EVIDENCE GUIDANCE BY CRITERION:
+My suggestions and recommendations stay consistent with this guidance.
+
+${sections.join('\n\n')}
+${comparable}`;
+}
+
 function getFullPetitionPrompt(
   basePrompt: string,
   content: string,
@@ -396,11 +378,21 @@ function getContractDealMemoPrompt(
   content: string,
   visaType: VisaType
 ): string {
+  const checklist = getVisaDefinition(visaType).contract.checklist;
+  const visaRequirements = checklist
+    ? `
+### ${visaType} Specific:
+| Requirement | Met | Evidence | Concerns |
+|-------------|-----|----------|----------|
+${checklist.map((c) => `| ${c.requirement} | [Yes/No] | [${c.evidence}] | [Issues] |`).join('\n')}
+`
+    : '';
+
   return `${basePrompt}
 
 DOCUMENT TYPE: Contract/Deal Memo
 
-I am evaluating employment agreements and deal memos for ${visaType === 'P-1A' || visaType === 'O-1B' ? 'compliance with visa requirements' : 'supporting documentation'}.
+I am evaluating employment agreements and deal memos for ${checklist ? 'compliance with visa requirements' : 'supporting documentation'}.
 
 DOCUMENT CONTENT:
 ${content}
@@ -422,24 +414,7 @@ REQUIRED ANALYSIS:
 
 ## 2. VISA-SPECIFIC REQUIREMENTS
 
-${visaType === 'P-1A' ? `
-### P-1A Specific:
-| Requirement | Met | Evidence | Concerns |
-|-------------|-----|----------|----------|
-| Itinerary Provided | [Yes/No] | [Description] | [Issues] |
-| Events of Distinguished Reputation | [Yes/No] | [Evidence] | [Issues] |
-| International Recognition Documented | [Yes/No] | [Evidence] | [Issues] |
-| Agent Authorization (if applicable) | [Yes/No] | [Evidence] | [Issues] |
-` : ''}
-
-${visaType === 'O-1B' ? `
-### O-1B Specific:
-| Requirement | Met | Evidence | Concerns |
-|-------------|-----|----------|----------|
-| Nature of Events/Productions | [Yes/No] | [Description] | [Issues] |
-| Distinguished Reputation of Employers | [Yes/No] | [Evidence] | [Issues] |
-| Lead/Starring Role Evidence | [Yes/No] | [Evidence] | [Issues] |
-` : ''}
+${visaRequirements}
 
 ## 3. COMPENSATION ANALYSIS
 
@@ -469,19 +444,385 @@ ${visaType === 'O-1B' ? `
 Now provide my complete contract/deal memo evaluation.`;
 }
 
+/**
+ * Review pass prompt for records too large to read in one sitting.
+ * Each pass covers a slice of the files and produces working notes
+ * that the final evaluation is synthesized from.
+ */
+export function getReviewPassPrompt(
+  documentType: DocumentType,
+  visaType: VisaType,
+  passNumber: number,
+  totalPasses: number,
+  content: string,
+  beneficiaryName?: string
+): string {
+  const criteria = VISA_CRITERIA[visaType]
+    .map((c) => `  ${c.number}. ${c.name}`)
+    .join('\n');
+
+  return `${getBaseScoringPrompt(visaType, beneficiaryName)}
+DOCUMENT TYPE: ${documentType.replace(/_/g, ' ')}
+
+This record is too large to review in one sitting. This is REVIEW PASS ${passNumber} of ${totalPasses}.
+I only see part of the record in this pass - other passes cover the remaining files, so I do not
+penalize the petition for evidence that is simply not in this portion.
+
+RECORD PORTION:
+${content}
+
+---
+
+TAKE WORKING NOTES ON THIS PORTION:
+
+${visaType} criteria:
+${criteria}
+
+Call the submit_review_notes tool exactly once.
+- criterionFindings: one entry per criterion this portion contains evidence for (skip criteria with nothing here)
+  - preliminaryScore: 0-100, judging only the evidence in this portion
+  - evidence: each exhibit or item, the file it is in (use the FILE header name), what it shows, and its tier (1 = strongest, 4 = weakest)
+  - concerns: what I would question about that evidence
+- observations: facts relevant to final merits (field, role, dates, itinerary, employer)
+- redFlags: inconsistencies, missing translations, self-serving or unverifiable evidence
+
+Be specific - the final evaluation is written from these notes alone.`;
+}
+
+/**
+ * Focused evaluation of a single criterion. The officer must anchor
+ * every strength and concern in a verbatim passage of the record.
+ */
+export function getCriterionPassPrompt(
+  documentType: DocumentType,
+  visaType: VisaType,
+  criterion: { number: number; letter: string; name: string },
+  content: string,
+  beneficiaryName?: string,
+  references: string = ''
+): string {
+  return `${getBaseScoringPrompt(visaType, beneficiaryName)}${getCriterionGuidance(visaType, criterion.number)}${references}
+DOCUMENT TYPE: ${documentType.replace(/_/g, ' ')}
+
+FOCUSED REVIEW - CRITERION ${criterion.number} (${criterion.letter}): ${criterion.name}
+
+In this review I evaluate ONLY this criterion. I apply the regulatory standard for it, weigh
+each piece of evidence offered for it, and ignore the other criteria.
+
+RECORD:
+${content}
+
+---
+
+Call the submit_criterion_evaluation tool exactly once.
+- rating: Strong / Adequate / Weak / Insufficient, or "Not Claimed" with score 0 if the petition offers nothing for this criterion
+- score: 0-100 for this criterion alone
+- strengths, officerConcerns, suggestions: specific to this criterion
+- citations: for every strength and concern, the passage I relied on
+  - quote: copied VERBATIM from the record (one or two sentences, no paraphrasing, no ellipses)
+  - fileName: the file the quote is in, from its FILE header
+  - page: the page number if the record shows one (page markers or footers), otherwise null
+  - finding: the strength or concern the quote supports
+
+Never cite a passage that is not in the record above.`;
+}
+
+/**
+ * Kazarian step 2 - final merits determination over the whole record,
+ * made after the criteria have been evaluated
+ */
+export function getFinalMeritsPrompt(
+  visaType: VisaType,
+  criteriaSummary: string,
+  criteriaMet: number,
+  criteriaRequired: number,
+  evaluationReport: string,
+  content: string,
+  beneficiaryName?: string
+): string {
+  const standard = getVisaDefinition(visaType).finalMeritsStandard;
+
+  return `${getBaseScoringPrompt(visaType, beneficiaryName)}
+FINAL MERITS DETERMINATION (KAZARIAN STEP 2)
+
+Step 1 is complete. ${criteriaMet} of the required ${criteriaRequired} criteria were rated Strong or Adequate:
+${criteriaSummary}
+
+Meeting the minimum number of criteria is not enough. Under Kazarian v. USCIS, 596 F.3d 1115
+(9th Cir. 2010), I now weigh ALL of the evidence together and decide whether it shows ${standard}.
+
+MY STEP 1 EVALUATION:
+${evaluationReport}
+
+${content ? `RECORD:\n${content}\n` : 'The record is too large to restate here; I rely on my step 1 evaluation above.\n'}
+---
+
+Call the submit_final_merits_determination tool exactly once.
+- sustainedAcclaim: is the acclaim sustained over time, or concentrated in one event or a short period?
+- topOfField: is the beneficiary among the small percentage at the very top of the field - compared to whom?
+- totalityOfEvidence: weighing the criteria together, including evidence that did not satisfy a criterion on its own
+- score: 0-100 for the final merits alone
+- outcome: Favorable (the standard is met), Borderline (an officer could go either way - RFE likely), Unfavorable (the standard is not met)
+- rationale: my determination in two or three sentences, as I would write it in a decision
+
+${criteriaMet < criteriaRequired ? 'Step 1 is NOT satisfied, so the final merits outcome cannot be Favorable.' : ''}`;
+}
+
+/**
+ * RFE response scoring - split the original notice into the discrete
+ * requests the officer made
+ */
+export function getRFEIssueExtractionPrompt(visaType: VisaType, notice: string): string {
+  const criteria = VISA_CRITERIA[visaType]
+    .map((c) => `  ${c.number}. ${c.name}`)
+    .join('\n');
+
+  return `I issued the ${visaType} Request for Evidence below. Before reviewing the response, I list every
+discrete request I made, so each one can be checked off against the response.
+
+RFE NOTICE:
+${notice}
+
+---
+
+Call the submit_rfe_issues tool exactly once, with one entry per discrete request, in the order the notice raises them.
+- topic: a short label for the request (e.g. "Criterion 3 - Published material", "Itinerary")
+- request: what I asked the petitioner to establish, in my own words from the notice
+- requestedEvidence: the specific documents or evidence the notice lists for this request
+- criterionNumber: the ${visaType} criterion the request is about, or null if it is not about a criterion
+${criteria}
+
+Do not merge separate requests, and do not list the notice's general instructions or boilerplate as requests.`;
+}
+
+/**
+ * RFE response scoring - one issue, checked against the matching
+ * passages of the response
+ */
+export function getRFEIssuePrompt(
+  visaType: VisaType,
+  issueNumber: number,
+  issue: { topic: string; request: string; requestedEvidence: string[] },
+  content: string,
+  beneficiaryName?: string
+): string {
+  return `${getBaseScoringPrompt(visaType, beneficiaryName)}
+RFE RESPONSE REVIEW - ISSUE ${issueNumber}: ${issue.topic}
+
+WHAT I ASKED FOR:
+${issue.request}
+${issue.requestedEvidence.length > 0 ? `\nEvidence listed in the notice:\n${issue.requestedEvidence.map((e) => `- ${e}`).join('\n')}\n` : ''}
+I now decide whether the response answers this request. I judge only this issue, and I am not
+satisfied by argument alone - the response must supply the evidence, not describe it.
+
+RESPONSE:
+${content}
+
+---
+
+Call the submit_rfe_issue_assessment tool exactly once.
+- status: Resolved (the request is fully answered), Partially Resolved (some of it is answered, or the evidence is weak), Unresolved (not answered)
+- score: 0-100 for how well this issue is answered
+- responseSummary: what the response provides for this issue, in two or three sentences
+- matchedExhibits: the exhibits or files in the response that address this issue, by their exhibit label or FILE name
+- citations: the passages I relied on
+  - quote: copied VERBATIM from the response (one or two sentences, no paraphrasing, no ellipses)
+  - fileName: the file the quote is in, from its FILE header
+  - page: the page number if the response shows one, otherwise null
+  - finding: what the quote shows about this issue
+- remainingConcerns: what is still missing or unpersuasive (empty if resolved)
+
+Never cite a passage that is not in the response above.`;
+}
+
+/**
+ * Contract/deal memo scoring - pull the terms out of the agreement
+ * so they can be checked against the visa requirements
+ */
+export function getContractExtractionPrompt(visaType: VisaType, content: string): string {
+  return `I am reading the contracts and deal memos filed with this ${visaType} petition. Before judging them,
+I record their terms exactly as written, so each requirement can be checked against the agreement itself.
+
+DOCUMENT CONTENT:
+${content}
+
+---
+
+Call the submit_contract_terms tool exactly once, with what the documents actually say - never what they should say.
+- parties: every named party, with role Petitioner, Employer, Agent (an agent or manager acting for employers or the beneficiary), Beneficiary, Venue or Other, and their address if stated
+- signedDate, termStart, termEnd: as YYYY-MM-DD, or null if the documents do not state a full date
+- duties: the services or role the beneficiary is engaged for
+- compensation: each payment term as stated, with the amount as a number when one is given (null otherwise), the currency and the basis (per event, weekly, flat fee...)
+- engagements: each event, competition, performance or production on the itinerary, with its dates (null when undated), venue, city/country, and the employer engaging the beneficiary when it is not the petitioner
+- agentIsPetitioner: true if an agent is filing for the employers or the beneficiary
+
+Leave a field null or a list empty when the documents do not provide it.`;
+}
+
+/**
+ * Evidence tiers - list the media and publication exhibits in one
+ * slice of the record so each can be classified by outlet
+ */
+export function getMediaEvidencePrompt(visaType: VisaType, content: string): string {
+  return `I am cataloguing the published material in this ${visaType} record. For each article, broadcast,
+interview or other publication submitted as evidence, I record where and when it appeared and who wrote it.
+
+RECORD:
+${content}
+
+---
+
+Call the submit_media_evidence tool exactly once, with one entry per published item (an empty list if there are none).
+- fileName: the file the item is in, from its FILE header
+- exhibitLabel: its exhibit label if the record shows one, otherwise null
+- outlet: the publication, station or site as named in the item itself - not as the brief describes it
+- title, publishedDate, author: as printed, or null when the item does not show them
+- circulationClaim: any circulation, readership or audience figure the record claims for the outlet, otherwise null
+- mediaType: Newspaper, Magazine, Broadcast, Online, Trade Publication, Journal, Press Release, Blog/Social or Other
+- aboutBeneficiary: true only if the item is about the beneficiary or their work, not a passing mention
+- paidOrSelfPublished: true for press releases, sponsored or paid content, contributor/council posts and the beneficiary's own channels
+- suggestedTier: 1 major national/international media, 2 leading trade publications, 3 online or regional sources, 4 self-published or weak
+
+Do not list the legal brief, letters of support, contracts or the petitioner's own forms as published material.`;
+}
+
+/**
+ * Support letters - who wrote one letter, how well they know the
+ * beneficiary, and how specific it is
+ */
+export function getLetterAssessmentPrompt(
+  visaType: VisaType,
+  fileName: string,
+  letter: string,
+  beneficiaryName?: string
+): string {
+  return `${getBaseScoringPrompt(visaType, beneficiaryName)}
+SUPPORT LETTER REVIEW - ${fileName}
+
+LETTER:
+${letter}
+
+---
+
+I give a letter weight when an expert explains, from their own knowledge, what the beneficiary
+did and why it mattered. I discount letters from employers and close collaborators, letters that
+praise in general terms, and letters that restate the petition instead of adding to it.
+
+Call the submit_letter_assessment tool exactly once.
+- author, title, affiliation: as shown in the signature block or letterhead (title and affiliation null if not shown)
+- relationship: Employer (current or former employer, supervisor or client), Co-author (published or patented together), Collaborator (worked together otherwise), Independent (knows the work only through its reputation or impact), Unknown
+- relationshipDetail: how the author says they know the beneficiary
+- specificity: Specific (names concrete contributions, results and their impact), General (describes the work but not its impact), Vague (praise without specifics)
+- specificityScore: 0-100 for how specific and well-supported the letter is, before considering who wrote it
+- specificContributions: each concrete contribution the letter describes, in a short phrase
+- concerns: what would make me discount this letter`;
+}
+
+/**
+ * Consistency check - list the facts one slice of the record states,
+ * so they can be compared across files
+ */
+export function getConsistencyFactsPrompt(visaType: VisaType, content: string, beneficiaryName?: string): string {
+  return `I am checking this ${visaType} record for internal contradictions${beneficiaryName ? ` about ${beneficiaryName}` : ''} before I rely on it.
+First I note the facts each document states that another document could contradict.
+
+RECORD:
+${content}
+
+---
+
+Call the submit_record_facts tool exactly once. List at most 80 facts, favoring the ones the petition relies on:
+salaries, fees and other amounts; employment, award, publication and event dates; job titles and positions;
+the names of people and organizations central to the claims.
+- factType: Person Name, Organization Name, Date, Amount or Title
+- subject: what the fact is about, specific enough to compare across documents (e.g. "Beneficiary's annual salary at Acme Corp", "Start date of employment at Acme Corp", "Beneficiary's title at Acme Corp")
+- value: the fact exactly as stated (e.g. "$85,000 per year", "March 2019", "Senior Engineer")
+- quote: the passage it is stated in, copied VERBATIM (one sentence, no paraphrasing)
+- fileName: the file the quote is in, from its FILE header
+- page: the page number if the record shows one, otherwise null
+
+Do not list facts that only appear once with nothing to compare against unless they are central to the petition.`;
+}
+
+/**
+ * Consistency check - find the facts stated differently in different places
+ */
+export function getConsistencyConflictsPrompt(visaType: VisaType, facts: string): string {
+  return `These are the facts stated across a ${visaType} record, numbered by id. Before adjudicating, I look for
+contradictions an officer would raise in an RFE: different salary figures, dates that do not line up,
+titles that change between documents, names of people or organizations spelled or given differently.
+
+FACTS:
+${facts}
+
+---
+
+Call the submit_consistency_conflicts tool exactly once, with one entry per contradiction (an empty list if there are none).
+- factType and subject: the fact that is stated inconsistently
+- factIds: the ids of the statements that disagree - at least two, with different values
+- severity: High (goes to eligibility or credibility, e.g. the offered salary or the dates of a claimed role), Medium (would draw an RFE question), Low (a clerical slip)
+- explanation: what disagrees, in one sentence
+
+Differences in format only ("$85,000" and "85,000 USD", "March 2019" and "03/2019") are not contradictions.
+Statements about different periods or roles are not contradictions - a salary that rose over time is consistent.`;
+}
+
+/**
+ * Submission instructions appended to every scoring prompt.
+ * The markdown analysis above becomes the narrative; the scores travel
+ * as structured fields so they never have to be scraped from the text.
+ */
+export function getStructuredOutputInstructions(visaType: VisaType): string {
+  const criteria = VISA_CRITERIA[visaType]
+    .map((c) => `  ${c.number}. ${c.name}`)
+    .join('\n');
+
+  // A one-time award only substitutes for the criteria when the officer credits it to the beneficiary
+  const awardCriterion = getVisaDefinition(visaType).oneTimeAchievementCriterion;
+  const oneTimeAchievement = awardCriterion === undefined
+    ? ''
+    : `\n- If the beneficiary personally received a major, internationally recognized award (e.g. a Nobel Prize or Academy Award),
+  rate criterion ${awardCriterion} Strong and name the award in its strengths. Awards held by letter writers or others do not count.`;
+
+  return `
+
+---
+
+HOW TO SUBMIT YOUR EVALUATION:
+
+Call the submit_officer_evaluation tool exactly once.
+- fullReport: the complete markdown evaluation, following the REQUIRED ANALYSIS structure above
+- overallScore, approvalProbability, rfeProbability, denialRisk: integers from 0 to 100
+- criteriaScores: one entry for EVERY ${visaType} criterion below, using these criterion numbers.
+  Criteria the petition does not claim are reported as rating "Not Claimed" with score 0.
+${criteria}${oneTimeAchievement}
+- evidenceQuality: counts of Tier 1-4 evidence items you identified, plus your evidence concerns
+- weaknesses: the red flags you identified; strengths: the strengths you acknowledge
+- recommendations: critical (must do), high (should do), recommended (would help)
+
+CITING THE RECORD:
+Each file starts with an "=== FILE: name ===" header, and PDF pages with a "--- Page N ---" marker.
+When a concern, strength or quote rests on a specific document, say where it is, e.g. "(Exhibit 7, p. 3)":
+the exhibit label the record gives the file (otherwise its file name) and the nearest page marker above the passage.
+Leave the page out for files without page markers rather than guessing one.
+
+The structured fields must agree with the narrative in fullReport.`;
+}
+
 /**
  * Chat response prompt - Officer stays in character
  */
 export function getOfficerChatPrompt(
   visaType: VisaType,
   scoringResults: string,
-  chatHistory: { role: string; content: string }[]
+  chatHistory: { role: string; content: string }[],
+  references: string = ''
 ): string {
   return `You are continuing a conversation as the USCIS Officer who evaluated this petition.
 
 SCORING RESULTS SUMMARY:
 ${scoringResults}
-
+${getCriterionGuidance(visaType)}${references}
 CONVERSATION HISTORY:
 ${chatHistory.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n')}
 
@@ -492,7 +833,7 @@ INSTRUCTIONS:
 - Reference specific parts of your evaluation when relevant
 - Cite CFR regulations when appropriate
 - Be direct and honest - don't backtrack on concerns you raised
-- If asked about improvements, be specific and actionable
+- If asked about improvements, be specific and actionable, and consistent with the evidence guidance above
 - Use first person: "In my assessment...", "I would want to see...", "My concern with this is..."
 
 Respond to the user's latest message:`;
@@ -5,12 +5,35 @@
  * from the perspective of a skeptical USCIS adjudications officer.
  */
 
-import { callAIWithFallback } from '../ai/claude-client';
+import { callAIWithFallback, callAIWithFallbackStructured } from '../ai/ai-router';
 import {
   getOfficerSystemPrompt,
   getScoringPrompt,
   getOfficerChatPrompt,
+  getStructuredOutputInstructions,
 } from './officer-prompts';
+import { getScoringOutputSpec, forwardPartialReport, ScoringOutputPayload } from './scoring-schema';
+import { runMapReduceEvaluation, needsMapReduce, ScoringDocument } from './map-reduce-scorer';
+import { runCriterionPasses, formatCriterionCitations } from './criterion-scorer';
+import {
+  requiresFinalMerits,
+  runFinalMeritsDetermination,
+  getOverallRating,
+  formatFinalMeritsSection,
+} from './final-merits';
+import { runRulesEngine, applyRuleFindings, formatRuleFindings } from './rules-engine';
+import { aggregateEnsemble, formatEnsembleSection, MAX_ENSEMBLE_RUNS } from './ensemble-scorer';
+import { runRFEIssueAnalysis, formatRFEIssueSection, splitRFEDocuments } from './rfe-analyzer';
+import { runContractExtraction, applyContractGaps, formatContractSection } from './contract-extractor';
+import { classifyMediaEvidence, summarizeEvidenceQuality, formatMediaEvidenceSection } from './evidence-classifier';
+import { runLetterAnalysis, applyLetterFindings, formatLetterSection, isLetter } from './letter-analyzer';
+import { runConsistencyCheck, applyConsistencyConflicts, formatConsistencySection } from './consistency-checker';
+import {
+  getScoringReferences,
+  getChatReferences,
+  formatReferencesForPrompt,
+  formatCitedSources,
+} from '../rag/knowledge-base';
 import {
   VisaType,
   DocumentType,
@@ -18,9 +41,18 @@ import {
   CriterionScore,
   RFEPrediction,
   EvidenceQuality,
+  EnsembleSummary,
+  FinalMeritsDetermination,
+  RFEIssueAssessment,
+  ContractTerms,
+  MediaEvidenceItem,
+  LetterAnalysis,
+  ConsistencyConflict,
   OverallRating,
+  ScoringOptions,
   VISA_CRITERIA,
   MINIMUM_CRITERIA,
+  AIProviderId,
 } from '../types';
 
 export interface ScoringInput {
@@ -29,7 +61,9 @@ export interface ScoringInput {
   visaType: VisaType;
   beneficiaryName?: string;
   documentContent: string;
+  documents?: ScoringDocument[]; // Per-file text - large records are scored in passes
   rfeOriginalContent?: string; // For RFE response scoring
+  options?: ScoringOptions;
 }
 
 export interface RawScoringOutput {
@@ -39,6 +73,13 @@ export interface RawScoringOutput {
   rfeProbability: number;
   denialRisk: number;
   criteriaScores: CriterionScore[];
+  finalMerits?: FinalMeritsDetermination;
+  ensemble?: EnsembleSummary;
+  rfeIssues?: RFEIssueAssessment[];
+  contractTerms?: ContractTerms;
+  mediaEvidence?: MediaEvidenceItem[];
+  letterAnalysis?: LetterAnalysis;
+  consistencyConflicts?: ConsistencyConflict[];
   evidenceQuality: EvidenceQuality;
   rfePredictions: RFEPrediction[];
   weaknesses: string[];
@@ -52,16 +93,57 @@ export interface RawScoringOutput {
 }
 
 /**
- * Main scoring function - runs the officer evaluation
+ * Read scoring options from a request body, ignoring anything malformed
+ */
+export function parseScoringOptions(raw: unknown): ScoringOptions {
+  const options = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const runs = typeof options.ensembleRuns === 'number' ? Math.floor(options.ensembleRuns) : 1;
+
+  return {
+    criterionPasses: options.criterionPasses === true,
+    ensembleRuns: Math.min(Math.max(runs, 1), MAX_ENSEMBLE_RUNS),
+    ensembleMixProviders: options.ensembleMixProviders === true,
+    bypassCache: options.bypassCache === true,
+  };
+}
+
+/**
+ * Options that cannot run together, or null. Criterion passes replace the
+ * criteria scores, so an ensemble's per-criterion spread would describe
+ * scores the report no longer shows.
+ */
+export function getScoringOptionsError(options: ScoringOptions): string | null {
+  if (options.criterionPasses && (options.ensembleRuns || 1) > 1) {
+    return 'Detailed criterion review cannot be combined with independent evaluations - choose one';
+  }
+  return null;
+}
+
+/**
+ * Main scoring function - runs the officer evaluation.
+ * onPartialReport receives the report text written so far while the
+ * officer is still generating it (single-run evaluations only).
  */
 export async function runOfficerScoring(
   input: ScoringInput,
-  onProgress?: (stage: string, progress: number, message: string) => void
+  onProgress?: (stage: string, progress: number, message: string) => void,
+  onPartialReport?: (text: string) => void
 ): Promise<RawScoringOutput> {
-  const { documentType, visaType, beneficiaryName, documentContent, rfeOriginalContent } = input;
+  const { documentType, visaType, beneficiaryName, documentContent, documents, rfeOriginalContent, options } = input;
+
+  const optionsError = options && getScoringOptionsError(options);
+  if (optionsError) {
+    throw new Error(optionsError);
+  }
 
   onProgress?.('Initializing', 5, 'Preparing officer evaluation...');
 
+  // Get the officer system prompt
+  const systemPrompt = getOfficerSystemPrompt(visaType);
+
+  // Retrieve knowledge base passages for the visa standard and each criterion
+  const references = getScoringReferences(visaType);
+
   // Build the document content for scoring
   let fullContent = documentContent;
   if (documentType === 'rfe_response' && rfeOriginalContent) {
@@ -74,376 +156,293 @@ ${documentContent}
 `;
   }
 
-  // Get the officer system prompt
-  const systemPrompt = getOfficerSystemPrompt(visaType);
-
-  // Get the scoring prompt for this document type
-  const scoringPrompt = getScoringPrompt(
-    documentType,
-    visaType,
-    fullContent,
-    beneficiaryName
-  );
-
-  onProgress?.('Scoring', 20, 'Officer is reviewing the petition...');
-
-  // Call the AI with the officer persona
-  const { content: rawReport, provider } = await callAIWithFallback(
-    scoringPrompt,
-    systemPrompt,
-    16384, // Large token budget for comprehensive report
-    0.4 // Slightly higher temperature for more natural officer voice
-  );
-
-  console.log(`[OfficerScorer] Generated report using ${provider}`);
-
-  onProgress?.('Analyzing', 70, 'Extracting scoring metrics...');
-
-  // Parse the raw report to extract structured data
-  const structuredResults = parseOfficerReport(rawReport, visaType);
+  // One complete officer evaluation - the narrative report and the
+  // structured scores come back together as one validated tool payload
+  const evaluate = (
+    preferredProvider?: AIProviderId,
+    progress?: typeof onProgress,
+    partialReport?: typeof onPartialReport
+  ): Promise<{ data: ScoringOutputPayload; provider: AIProviderId; attempts: number }> => {
+    if (documents && needsMapReduce(documents)) {
+      // Too large for one prompt - review in passes, then synthesize
+      return runMapReduceEvaluation(
+        {
+          documentType,
+          visaType,
+          beneficiaryName,
+          documents,
+          rfeOriginalContent,
+          systemPrompt,
+          references: formatReferencesForPrompt(references),
+          preferredProvider,
+        },
+        progress,
+        partialReport
+      );
+    }
 
-  onProgress?.('Finalizing', 95, 'Completing evaluation...');
+    // Get the scoring prompt for this document type
+    const scoringPrompt = getScoringPrompt(
+      documentType,
+      visaType,
+      fullContent,
+      beneficiaryName,
+      formatReferencesForPrompt(references)
+    );
 
-  return {
-    ...structuredResults,
-    fullReport: rawReport,
+    progress?.('Scoring', 20, 'Officer is reviewing the petition...');
+
+    return callAIWithFallbackStructured(
+      'scoring',
+      scoringPrompt + getStructuredOutputInstructions(visaType),
+      systemPrompt,
+      getScoringOutputSpec(visaType),
+      {
+        maxTokens: 16384, // Large token budget for comprehensive report
+        temperature: 0.4, // Slightly higher temperature for more natural officer voice
+        preferredProvider,
+        onPartial: partialReport && forwardPartialReport(partialReport),
+      }
+    );
   };
-}
-
-/**
- * Parse the officer's report to extract structured scoring data
- */
-function parseOfficerReport(
-  report: string,
-  visaType: VisaType
-): Omit<RawScoringOutput, 'fullReport'> {
-  // Extract overall score from the report
-  const overallScore = extractScore(report);
 
-  // Determine overall rating based on score
-  const overallRating = getOverallRating(overallScore);
+  const ensembleRuns = Math.min(Math.max(options?.ensembleRuns || 1, 1), MAX_ENSEMBLE_RUNS);
+  let payload: ScoringOutputPayload;
+  let ensemble: EnsembleSummary | undefined;
 
-  // Extract probabilities
-  const { approval, rfe, denial } = extractProbabilities(report, overallScore);
+  if (ensembleRuns > 1) {
+    // Independent evaluations in parallel, alternating providers when requested
+    onProgress?.('Scoring', 20, `Running ${ensembleRuns} independent officer evaluations...`);
 
-  // Extract criterion scores
-  const criteriaScores = extractCriteriaScores(report, visaType);
+    const settled = await Promise.allSettled(
+      Array.from({ length: ensembleRuns }, (_, i) =>
+        evaluate(options?.ensembleMixProviders && i % 2 === 1 ? 'openai' : undefined)
+      )
+    );
 
-  // Extract evidence quality assessment
-  const evidenceQuality = extractEvidenceQuality(report);
+    const runs = settled
+      .filter((r): r is PromiseFulfilledResult<Awaited<ReturnType<typeof evaluate>>> => r.status === 'fulfilled')
+      .map((r) => r.value);
+    if (runs.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    console.log(`[OfficerScorer] Ensemble completed ${runs.length}/${ensembleRuns} runs (${runs.map((r) => r.provider).join(', ')})`);
 
-  // Extract RFE predictions
-  const rfePredictions = extractRFEPredictions(report);
+    const aggregated = aggregateEnsemble(runs, visaType);
+    payload = aggregated.payload;
+    // A single surviving run is not an ensemble
+    ensemble = runs.length > 1 ? aggregated.summary : undefined;
+  } else {
+    const evaluation = await evaluate(undefined, onProgress, onPartialReport);
+    payload = evaluation.data;
+    console.log(`[OfficerScorer] Generated evaluation using ${evaluation.provider} (${evaluation.attempts} attempt(s))`);
+  }
 
-  // Extract weaknesses and strengths
-  const weaknesses = extractListItems(report, 'RED FLAGS', 'CONCERNS', 'WEAKNESSES', 'MY CONCERNS');
-  const strengths = extractListItems(report, 'STRENGTHS', 'STRONG', 'ACKNOWLEDGE');
+  onProgress?.('Analyzing', 70, 'Validating scoring metrics...');
 
-  // Extract recommendations
-  const recommendations = extractRecommendations(report);
+  const results = toScoringOutput(payload, visaType);
 
-  return {
-    overallScore,
-    overallRating,
-    approvalProbability: approval,
-    rfeProbability: rfe,
-    denialRisk: denial,
-    criteriaScores,
-    evidenceQuality,
-    rfePredictions,
-    weaknesses,
-    strengths,
-    recommendations,
-  };
-}
-
-/**
- * Extract overall score from report
- */
-function extractScore(report: string): number {
-  // Look for TOTAL score in scoring matrix
-  const totalMatch = report.match(/\*\*TOTAL\*\*[^|]*\|[^|]*\|[^|]*\|\s*\*?\*?(\d+)\s*\/\s*100/i);
-  if (totalMatch) {
-    return parseInt(totalMatch[1], 10);
+  if (ensemble) {
+    results.ensemble = ensemble;
+    results.fullReport += formatEnsembleSection(
+      ensemble,
+      new Map(results.criteriaScores.map((c) => [c.criterionNumber, c.criterionName]))
+    );
   }
 
-  // Look for Overall Score pattern
-  const scoreMatch = report.match(/overall\s+score[:\s]*(\d+)\s*(?:\/\s*100)?/i);
-  if (scoreMatch) {
-    return parseInt(scoreMatch[1], 10);
+  // Per-file text for the follow-up passes; pasted content is one document
+  const scoringDocuments = documents || [
+    { fileName: 'Submitted document', category: documentType, text: documentContent },
+  ];
+
+  if (options?.criterionPasses) {
+    // Re-evaluate each criterion on its own, with quoted evidence
+    results.criteriaScores = await runCriterionPasses(
+      {
+        documentType,
+        visaType,
+        beneficiaryName,
+        documents: scoringDocuments,
+        systemPrompt,
+        references: formatReferencesForPrompt(references),
+        fallbackScores: results.criteriaScores,
+      },
+      onProgress
+    );
+    results.fullReport += formatCriterionCitations(results.criteriaScores);
   }
 
-  // Look for any score pattern
-  const anyScore = report.match(/\*\*(\d+)\s*\/\s*100\*\*/);
-  if (anyScore) {
-    return parseInt(anyScore[1], 10);
+  if (documentType === 'rfe_response' && rfeOriginalContent) {
+    // Check the response off against each request in the notice
+    onProgress?.('RFE Issues', 85, 'Officer is checking the response against each RFE issue...');
+    try {
+      results.rfeIssues = await runRFEIssueAnalysis(
+        {
+          visaType,
+          beneficiaryName,
+          notice: rfeOriginalContent,
+          response: splitRFEDocuments(scoringDocuments).response,
+          systemPrompt,
+        },
+        onProgress
+      );
+      results.fullReport += formatRFEIssueSection(results.rfeIssues);
+    } catch (error) {
+      console.error('[OfficerScorer] RFE issue analysis failed:', error);
+    }
   }
 
-  // Default based on content analysis
-  if (report.toLowerCase().includes('strong approval') || report.toLowerCase().includes('approve')) {
-    return 75;
-  }
-  if (report.toLowerCase().includes('rfe likely')) {
-    return 60;
-  }
-  if (report.toLowerCase().includes('denial') || report.toLowerCase().includes('major revision')) {
-    return 40;
+  if (documentType === 'contract_deal_memo') {
+    // Typed terms, checked against what the agreement must show for the visa type
+    onProgress?.('Contract Terms', 85, 'Officer is checking the contract terms against the visa requirements...');
+    try {
+      results.contractTerms = await runContractExtraction({
+        visaType,
+        documents: scoringDocuments,
+        systemPrompt,
+      });
+      applyContractGaps(results, results.contractTerms.gaps);
+      results.fullReport += formatContractSection(results.contractTerms);
+    } catch (error) {
+      console.error('[OfficerScorer] Contract extraction failed:', error);
+    }
   }
 
-  return 55; // Default middle score
-}
-
-/**
- * Get overall rating from score
- */
-function getOverallRating(score: number): OverallRating {
-  if (score >= 70) return 'Approve';
-  if (score >= 50) return 'RFE Likely';
-  return 'Denial Risk';
-}
-
-/**
- * Extract probability values
- */
-function extractProbabilities(
-  report: string,
-  overallScore: number
-): { approval: number; rfe: number; denial: number } {
-  // Try to extract from report
-  const approvalMatch = report.match(/approval\s+probability[:\s]*(\d+)\s*%/i);
-  const rfeMatch = report.match(/rfe\s+probability[:\s]*(\d+)\s*%/i);
-  const denialMatch = report.match(/denial\s+risk[:\s]*(\d+)\s*%/i);
-
-  const approval = approvalMatch ? parseInt(approvalMatch[1], 10) : calculateApprovalProb(overallScore);
-  const rfe = rfeMatch ? parseInt(rfeMatch[1], 10) : calculateRFEProb(overallScore);
-  const denial = denialMatch ? parseInt(denialMatch[1], 10) : 100 - approval - rfe;
-
-  return { approval, rfe, denial: Math.max(0, denial) };
-}
-
-function calculateApprovalProb(score: number): number {
-  if (score >= 85) return 85;
-  if (score >= 70) return 65;
-  if (score >= 55) return 40;
-  if (score >= 40) return 20;
-  return 10;
-}
-
-function calculateRFEProb(score: number): number {
-  if (score >= 85) return 10;
-  if (score >= 70) return 25;
-  if (score >= 55) return 45;
-  if (score >= 40) return 50;
-  return 40;
-}
-
-/**
- * Extract criterion-by-criterion scores
- */
-function extractCriteriaScores(report: string, visaType: VisaType): CriterionScore[] {
-  const criteria = VISA_CRITERIA[visaType];
-  const scores: CriterionScore[] = [];
-
-  for (const criterion of criteria) {
-    // Look for this criterion in the report
-    const criterionPattern = new RegExp(
-      `criterion\\s*${criterion.number}[^]*?(?:my\\s+rating|rating)[:\\s]*([^\\n]+)`,
-      'i'
-    );
-    const match = report.match(criterionPattern);
-
-    // Extract score for this criterion
-    const scorePattern = new RegExp(
-      `criterion\\s*${criterion.number}[^]*?(?:evidence\\s+score|score)[:\\s]*(\\d+)`,
-      'i'
-    );
-    const scoreMatch = report.match(scorePattern);
-
-    const rating = match ? parseRating(match[1]) : 'Not Claimed';
-    const score = scoreMatch ? parseInt(scoreMatch[1], 10) : ratingToScore(rating);
-
-    // Extract concerns
-    const concernsPattern = new RegExp(
-      `criterion\\s*${criterion.number}[^]*?(?:my\\s+concerns|concerns)[:\\s]*([^#]+?)(?=\\n\\n|\\*\\*|$)`,
-      'i'
-    );
-    const concernsMatch = report.match(concernsPattern);
-    const concerns = concernsMatch
-      ? extractBulletPoints(concernsMatch[1])
-      : [];
-
-    scores.push({
-      criterionNumber: criterion.number,
-      criterionName: criterion.name,
-      rating,
-      score,
-      evidenceQuality: scoreToQuality(score),
-      officerConcerns: concerns,
-      strengths: [],
-      suggestions: [],
-    });
+  if (scoringDocuments.some(isLetter)) {
+    // Per-letter credibility, and template language shared across letters
+    onProgress?.('Letters', 87, 'Officer is reading the support letters...');
+    try {
+      results.letterAnalysis = await runLetterAnalysis(
+        {
+          visaType,
+          beneficiaryName,
+          documents: scoringDocuments,
+          systemPrompt,
+        },
+        onProgress
+      );
+      applyLetterFindings(results, results.letterAnalysis);
+      results.fullReport += formatLetterSection(results.letterAnalysis);
+    } catch (error) {
+      console.error('[OfficerScorer] Letter analysis failed:', error);
+    }
   }
 
-  return scores;
-}
-
-function parseRating(text: string): CriterionScore['rating'] {
-  const lower = text.toLowerCase();
-  if (lower.includes('strong')) return 'Strong';
-  if (lower.includes('adequate')) return 'Adequate';
-  if (lower.includes('weak')) return 'Weak';
-  if (lower.includes('insufficient')) return 'Insufficient';
-  return 'Not Claimed';
-}
-
-function ratingToScore(rating: CriterionScore['rating']): number {
-  switch (rating) {
-    case 'Strong':
-      return 85;
-    case 'Adequate':
-      return 70;
-    case 'Weak':
-      return 50;
-    case 'Insufficient':
-      return 30;
-    case 'Not Claimed':
-      return 0;
+  if (documentType !== 'contract_deal_memo') {
+    // Tier counts from the classified exhibits, not the officer's tally
+    onProgress?.('Evidence Tiers', 88, 'Classifying published material by outlet...');
+    try {
+      results.mediaEvidence = await classifyMediaEvidence(
+        {
+          visaType,
+          documents: scoringDocuments,
+          systemPrompt,
+        },
+        onProgress
+      );
+      results.evidenceQuality = summarizeEvidenceQuality(results.mediaEvidence, results.evidenceQuality);
+      results.fullReport += formatMediaEvidenceSection(results.mediaEvidence);
+    } catch (error) {
+      console.error('[OfficerScorer] Media evidence classification failed, keeping officer tier counts:', error);
+    }
   }
-}
-
-function scoreToQuality(score: number): CriterionScore['evidenceQuality'] {
-  if (score >= 80) return 'Excellent';
-  if (score >= 65) return 'Good';
-  if (score >= 45) return 'Fair';
-  return 'Poor';
-}
 
-/**
- * Extract evidence quality assessment
- */
-function extractEvidenceQuality(report: string): EvidenceQuality {
-  // Try to extract tier counts
-  const tier1Match = report.match(/tier\s*1[^|]*\|\s*(\d+)/i);
-  const tier2Match = report.match(/tier\s*2[^|]*\|\s*(\d+)/i);
-  const tier3Match = report.match(/tier\s*3[^|]*\|\s*(\d+)/i);
-  const tier4Match = report.match(/tier\s*4[^|]*\|\s*(\d+)/i);
-
-  const tier1Count = tier1Match ? parseInt(tier1Match[1], 10) : 0;
-  const tier2Count = tier2Match ? parseInt(tier2Match[1], 10) : 0;
-  const tier3Count = tier3Match ? parseInt(tier3Match[1], 10) : 0;
-  const tier4Count = tier4Match ? parseInt(tier4Match[1], 10) : 0;
-
-  // Determine overall assessment
-  let overallAssessment: EvidenceQuality['overallAssessment'];
-  if (tier1Count >= 5) {
-    overallAssessment = 'Strong';
-  } else if (tier1Count >= 3 || tier2Count >= 5) {
-    overallAssessment = 'Moderate';
-  } else if (tier1Count >= 1 || tier2Count >= 3) {
-    overallAssessment = 'Weak';
-  } else {
-    overallAssessment = 'Insufficient';
+  // Contradictory names, dates and figures across the files become red flags
+  onProgress?.('Consistency', 89, 'Checking names, dates and figures across the record...');
+  try {
+    results.consistencyConflicts = await runConsistencyCheck(
+      {
+        visaType,
+        beneficiaryName,
+        documents: scoringDocuments,
+        systemPrompt,
+      },
+      onProgress
+    );
+    applyConsistencyConflicts(results, results.consistencyConflicts);
+    results.fullReport += formatConsistencySection(results.consistencyConflicts);
+  } catch (error) {
+    console.error('[OfficerScorer] Consistency check failed:', error);
   }
 
-  // Extract concerns
-  const concernsSection = report.match(/evidence.*?concerns[:\s]*([^#]+)/i);
-  const concerns = concernsSection
-    ? extractBulletPoints(concernsSection[1])
-    : [];
-
-  return {
-    tier1Count,
-    tier2Count,
-    tier3Count,
-    tier4Count,
-    overallAssessment,
-    concerns,
-  };
-}
-
-/**
- * Extract RFE predictions
- */
-function extractRFEPredictions(report: string): RFEPrediction[] {
-  const predictions: RFEPrediction[] = [];
-
-  // Look for RFE prediction table rows
-  const rfeSection = report.match(/rfe\s+predictions?[^]*?(?=##|$)/i);
-  if (!rfeSection) return predictions;
-
-  // Match table rows: | Topic | Probability | Description |
-  const rowPattern = /\|\s*([^|]+)\|\s*(\d+)\s*%?\s*\|\s*([^|]+)\|/g;
-  let match;
-
-  while ((match = rowPattern.exec(rfeSection[0])) !== null) {
-    const topic = match[1].trim();
-    const probability = parseInt(match[2], 10);
-    const description = match[3].trim();
-
-    if (topic && !topic.includes('Topic') && !topic.includes('---')) {
-      predictions.push({
-        topic,
-        probability,
-        officerPerspective: description,
-        suggestedEvidence: [],
+  if (requiresFinalMerits(visaType)) {
+    // Kazarian step 2 - weigh the record as a whole once the criteria are settled
+    onProgress?.('Final Merits', 90, 'Officer is making the final merits determination...');
+    try {
+      results.finalMerits = await runFinalMeritsDetermination({
+        visaType,
+        beneficiaryName,
+        criteriaScores: results.criteriaScores,
+        evaluationReport: results.fullReport,
+        documentContent,
+        systemPrompt,
       });
+      results.fullReport += formatFinalMeritsSection(results.finalMerits);
+    } catch (error) {
+      console.error('[OfficerScorer] Final merits determination failed, rating on score alone:', error);
     }
   }
 
-  return predictions;
-}
+  // Deterministic regulatory checks - merged ahead of the officer's own findings
+  const ruleFindings = runRulesEngine({
+    visaType,
+    documentType,
+    criteriaScores: results.criteriaScores,
+    documents: scoringDocuments,
+  });
+  applyRuleFindings(results, ruleFindings);
+  results.fullReport += formatRuleFindings(ruleFindings);
 
-/**
- * Extract recommendations
- */
-function extractRecommendations(report: string): {
-  critical: string[];
-  high: string[];
-  recommended: string[];
-} {
-  const critical = extractListItems(report, 'CRITICAL', 'MUST DO', 'REQUIRED');
-  const high = extractListItems(report, 'HIGH PRIORITY', 'SHOULD DO', 'IMPORTANT');
-  const recommended = extractListItems(report, 'RECOMMENDED', 'WOULD HELP', 'SUGGESTED');
-
-  return { critical, high, recommended };
-}
+  results.overallRating = getOverallRating(
+    visaType,
+    results.overallScore,
+    results.criteriaScores,
+    results.finalMerits
+  );
 
-/**
- * Extract bullet points from text
- */
-function extractBulletPoints(text: string): string[] {
-  const items: string[] = [];
-  const lines = text.split('\n');
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    // Match bullet points: -, *, •, or numbered 1., 2., etc.
-    if (/^[-*•]/.test(trimmed) || /^\d+\./.test(trimmed)) {
-      const content = trimmed.replace(/^[-*•\d.]+\s*/, '').trim();
-      if (content && content.length > 5) {
-        items.push(content);
-      }
-    }
-  }
+  results.fullReport += formatCitedSources(
+    JSON.stringify([results.fullReport, results.criteriaScores, results.weaknesses, results.recommendations]),
+    references
+  );
+
+  onProgress?.('Finalizing', 95, 'Completing evaluation...');
 
-  return items;
+  return results;
 }
 
 /**
- * Extract list items matching any of the keywords
+ * Map the validated officer payload onto RawScoringOutput
  */
-function extractListItems(report: string, ...keywords: string[]): string[] {
-  for (const keyword of keywords) {
-    const pattern = new RegExp(`${keyword}[^]*?(?=##|\\n\\n\\n|$)`, 'i');
-    const match = report.match(pattern);
-    if (match) {
-      const items = extractBulletPoints(match[0]);
-      if (items.length > 0) {
-        return items;
-      }
-    }
-  }
-  return [];
+function toScoringOutput(
+  payload: ScoringOutputPayload,
+  visaType: VisaType
+): RawScoringOutput {
+  const byNumber = new Map(payload.criteriaScores.map((c) => [c.criterionNumber, c]));
+
+  // Criterion names come from the regulation list, not the model
+  const criteriaScores: CriterionScore[] = VISA_CRITERIA[visaType].map((criterion) => {
+    const scored = byNumber.get(criterion.number)!;
+    return {
+      ...scored,
+      criterionNumber: criterion.number,
+      criterionName: criterion.name,
+    };
+  });
+
+  return {
+    overallScore: payload.overallScore,
+    overallRating: getOverallRating(visaType, payload.overallScore, criteriaScores),
+    approvalProbability: payload.approvalProbability,
+    rfeProbability: payload.rfeProbability,
+    denialRisk: payload.denialRisk,
+    criteriaScores,
+    evidenceQuality: payload.evidenceQuality,
+    rfePredictions: payload.rfePredictions,
+    weaknesses: payload.weaknesses,
+    strengths: payload.strengths,
+    recommendations: payload.recommendations,
+    fullReport: payload.fullReport,
+  };
 }
 
 /**
@@ -459,15 +458,11 @@ export async function generateOfficerChatResponse(
   const chatPrompt = getOfficerChatPrompt(
     visaType,
     scoringSummary,
-    [...chatHistory, { role: 'user', content: userMessage }]
+    [...chatHistory, { role: 'user', content: userMessage }],
+    formatReferencesForPrompt(getChatReferences(visaType, userMessage))
   );
 
-  const { content } = await callAIWithFallback(
-    chatPrompt,
-    systemPrompt,
-    4096,
-    0.5 // Slightly more conversational
-  );
+  const { content } = await callAIWithFallback('chat', chatPrompt, systemPrompt);
 
   return content;
 }
@@ -0,0 +1,91 @@
+/**
+ * Scoring Progress Reporter
+ *
+ * Records progress for the results page. The session row keeps the
+ * current progress (read by polling clients); every stage transition is
+ * also appended to session_progress_events, and the report text written
+ * so far is kept on the session, for the SSE stream at /api/score/stream.
+ */
+
+import { updateScoringSession, addProgressEvent } from '../database/supabase';
+
+// Partial report writes are throttled - Claude streams many deltas per second
+const PARTIAL_REPORT_INTERVAL_MS = 1500;
+
+export interface ProgressStage {
+  stage: string; // e.g. 'Extracting', 'Scoring', 'Saving'
+  progress: number;
+  message: string;
+  fileName?: string; // Set for per-file extraction events
+  status?: string; // Session status change, if any
+}
+
+export function createProgressReporter(sessionId: string) {
+  let pendingReport: string | null = null;
+  let lastReportWrite = 0;
+  let reportWrites: Promise<void> = Promise.resolve();
+
+  const writeReport = () => {
+    if (pendingReport === null) return reportWrites;
+
+    const text = pendingReport;
+    pendingReport = null;
+    lastReportWrite = Date.now();
+
+    // Chained so a slow write never lands after a newer one
+    reportWrites = reportWrites
+      .then(() => updateScoringSession(sessionId, { partialReport: text }))
+      .then(() => undefined)
+      .catch((error) => console.error('[Progress] Partial report write failed:', error));
+    return reportWrites;
+  };
+
+  // The event log only feeds the stream - clients fall back to polling without it
+  const logEvent = (event: Omit<ProgressStage, 'status'>) =>
+    addProgressEvent({ sessionId, ...event }).catch((error) =>
+      console.error('[Progress] Failed to record progress event:', error)
+    );
+
+  return {
+    /**
+     * Record a stage transition. The event is logged before the session
+     * is updated, so a stream that sees a final status has already read it.
+     */
+    async stage({ status, ...event }: ProgressStage): Promise<void> {
+      await logEvent(event);
+      await updateScoringSession(sessionId, { status, progress: event.progress, progressMessage: event.message });
+    },
+
+    /**
+     * Mark the session completed and drop the partial report
+     */
+    async complete(message: string): Promise<void> {
+      await logEvent({ stage: 'Complete', progress: 100, message });
+      await updateScoringSession(sessionId, {
+        status: 'completed',
+        progress: 100,
+        progressMessage: message,
+        completedAt: new Date().toISOString(),
+        partialReport: null,
+      });
+    },
+
+    /**
+     * Report the text generated so far; written at most every
+     * PARTIAL_REPORT_INTERVAL_MS
+     */
+    partialReport(text: string): void {
+      pendingReport = text;
+      if (Date.now() - lastReportWrite >= PARTIAL_REPORT_INTERVAL_MS) {
+        writeReport();
+      }
+    },
+
+    /**
+     * Write any throttled report text and wait for pending writes
+     */
+    flush(): Promise<void> {
+      return writeReport();
+    },
+  };
+}
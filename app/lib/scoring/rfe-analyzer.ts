@@ -0,0 +1,208 @@
+/**
+ * RFE Response Analyzer
+ *
+ * Scores an RFE response against the notice it answers: the notice is
+ * split into the discrete requests the officer made, each request is
+ * matched to the passages and exhibits of the response that address it,
+ * and each is rated Resolved / Partially Resolved / Unresolved.
+ */
+
+import { callAIWithFallbackStructured } from '../ai/ai-router';
+import { getRFEIssueExtractionPrompt, getRFEIssuePrompt } from './officer-prompts';
+import { getRFEIssueListSpec, getRFEIssueAssessmentSpec, RFEIssueListPayload } from './scoring-schema';
+import { combineDocuments, ScoringDocument, SINGLE_PASS_MAX_CHARS } from './map-reduce-scorer';
+import { selectExcerpts, verifyCitation } from './criterion-scorer';
+import { VisaType, RFEIssueAssessment, VISA_CRITERIA } from '../types';
+
+// Issues are assessed a few at a time to stay under provider rate limits
+const ISSUE_CONCURRENCY = 3;
+
+// Responses larger than this are narrowed to the passages matching each issue
+const ISSUE_MAX_CHARS = 60000;
+
+type RFEIssue = RFEIssueListPayload['issues'][number];
+
+/**
+ * Separate the RFE notice from the response files
+ */
+export function splitRFEDocuments(documents: ScoringDocument[]): {
+  notice: ScoringDocument[];
+  response: ScoringDocument[];
+} {
+  return {
+    notice: documents.filter((d) => d.category === 'rfe_original'),
+    response: documents.filter((d) => d.category !== 'rfe_original'),
+  };
+}
+
+/**
+ * Split the notice into the discrete requests the officer made
+ */
+async function extractRFEIssues(
+  visaType: VisaType,
+  notice: string,
+  systemPrompt: string
+): Promise<RFEIssue[]> {
+  const { data } = await callAIWithFallbackStructured(
+    'scoring',
+    getRFEIssueExtractionPrompt(visaType, notice.slice(0, SINGLE_PASS_MAX_CHARS)),
+    systemPrompt,
+    getRFEIssueListSpec(visaType),
+    { temperature: 0.2 }
+  );
+
+  // Criterion numbers come from the regulation list, not the model
+  const criterionNumbers = new Set(VISA_CRITERIA[visaType].map((c) => c.number));
+  return data.issues.map((issue) => ({
+    ...issue,
+    criterionNumber: issue.criterionNumber !== null && criterionNumbers.has(issue.criterionNumber)
+      ? issue.criterionNumber
+      : null,
+  }));
+}
+
+/**
+ * Response content for one issue: the whole response when it is small,
+ * otherwise the passages ranked highest for the request
+ */
+function getIssueContent(response: ScoringDocument[], issue: RFEIssue): string {
+  const combined = combineDocuments(response);
+  if (combined.length <= ISSUE_MAX_CHARS) return combined;
+
+  const query = [issue.topic, issue.request, ...issue.requestedEvidence].join(' ');
+  const { content, fileNames } = selectExcerpts(response, query, ISSUE_MAX_CHARS);
+  return `NOTE: The response is large; these are the passages most relevant to this request, from ${fileNames.length} file(s).\n\n${content}`;
+}
+
+async function assessIssue(
+  params: {
+    visaType: VisaType;
+    beneficiaryName?: string;
+    response: ScoringDocument[];
+    systemPrompt: string;
+  },
+  issue: RFEIssue,
+  issueNumber: number
+): Promise<RFEIssueAssessment> {
+  const { visaType, beneficiaryName, response, systemPrompt } = params;
+
+  const { data } = await callAIWithFallbackStructured(
+    'scoring',
+    getRFEIssuePrompt(visaType, issueNumber, issue, getIssueContent(response, issue), beneficiaryName),
+    systemPrompt,
+    getRFEIssueAssessmentSpec(visaType, issue.topic)
+  );
+
+  return {
+    issueNumber,
+    topic: issue.topic,
+    request: issue.request,
+    requestedEvidence: issue.requestedEvidence,
+    criterionNumber: issue.criterionNumber ?? undefined,
+    status: data.status,
+    score: data.score,
+    responseSummary: data.responseSummary,
+    matchedExhibits: data.matchedExhibits,
+    citations: data.citations.map((c) => verifyCitation(c, response)),
+    remainingConcerns: data.status === 'Resolved' ? [] : data.remainingConcerns,
+  };
+}
+
+/**
+ * Assess the response issue by issue. An issue whose assessment fails is
+ * reported as Unresolved so it is never silently dropped from the checklist.
+ */
+export async function runRFEIssueAnalysis(
+  params: {
+    visaType: VisaType;
+    beneficiaryName?: string;
+    notice: string;
+    response: ScoringDocument[];
+    systemPrompt: string;
+  },
+  onProgress?: (stage: string, progress: number, message: string) => void
+): Promise<RFEIssueAssessment[]> {
+  const issues = await extractRFEIssues(params.visaType, params.notice, params.systemPrompt);
+  console.log(`[RFEAnalyzer] Notice raises ${issues.length} issue(s)`);
+
+  const results: RFEIssueAssessment[] = [];
+  for (let i = 0; i < issues.length; i += ISSUE_CONCURRENCY) {
+    const group = issues.slice(i, i + ISSUE_CONCURRENCY);
+    onProgress?.(
+      'RFE Issues',
+      85 + Math.round((i / issues.length) * 5),
+      `Officer is checking the response to RFE issues ${i + 1}-${i + group.length} of ${issues.length}...`
+    );
+
+    const assessed = await Promise.all(
+      group.map((issue, j) =>
+        assessIssue(params, issue, i + j + 1).catch((error): RFEIssueAssessment => {
+          console.error(`[RFEAnalyzer] Assessment of issue ${i + j + 1} failed:`, error);
+          return {
+            issueNumber: i + j + 1,
+            topic: issue.topic,
+            request: issue.request,
+            requestedEvidence: issue.requestedEvidence,
+            criterionNumber: issue.criterionNumber ?? undefined,
+            status: 'Unresolved',
+            score: 0,
+            responseSummary: 'This issue could not be assessed automatically - review the response to it manually.',
+            matchedExhibits: [],
+            citations: [],
+            remainingConcerns: [],
+          };
+        })
+      )
+    );
+    results.push(...assessed);
+  }
+
+  return results;
+}
+
+/**
+ * Report section with the issue-by-issue checklist
+ */
+export function formatRFEIssueSection(issues: RFEIssueAssessment[]): string {
+  if (issues.length === 0) return '';
+
+  const count = (status: RFEIssueAssessment['status']) => issues.filter((i) => i.status === status).length;
+
+  const details = issues.map((issue) => {
+    const lines = [
+      `### Issue ${issue.issueNumber}: ${issue.topic} - ${issue.status} (${issue.score}/100)`,
+      '',
+      `**What was requested:** ${issue.request}`,
+      '',
+      `**What the response provides:** ${issue.responseSummary}`,
+    ];
+    if (issue.matchedExhibits.length > 0) {
+      lines.push('', `**Exhibits:** ${issue.matchedExhibits.join(', ')}`);
+    }
+    if (issue.citations.length > 0) lines.push('');
+    for (const citation of issue.citations) {
+      const page = citation.page ? `, p. ${citation.page}` : '';
+      const flag = citation.verified ? '' : ' _(not found verbatim in the extracted text)_';
+      lines.push(`- **${citation.finding}** - "${citation.quote}" (${citation.fileName}${page})${flag}`);
+    }
+    if (issue.remainingConcerns.length > 0) {
+      lines.push('', '**Still outstanding:**', ...issue.remainingConcerns.map((c) => `- ${c}`));
+    }
+    return lines.join('\n');
+  });
+
+  return `
+
+---
+
+## RFE ISSUE CHECKLIST
+
+| # | Issue | Status | Score |
+|---|-------|--------|-------|
+${issues.map((i) => `| ${i.issueNumber} | ${i.topic} | ${i.status} | ${i.score}/100 |`).join('\n')}
+
+**${count('Resolved')} resolved, ${count('Partially Resolved')} partially resolved, ${count('Unresolved')} unresolved** of ${issues.length} issues raised in the notice.
+
+${details.join('\n\n')}
+`;
+}
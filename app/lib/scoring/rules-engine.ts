@@ -0,0 +1,268 @@
+/**
+ * Regulatory Rules Engine
+ *
+ * Deterministic checks run after the officer evaluation, so the
+ * minimum-criteria threshold and required filing documents are enforced
+ * by code rather than left to model judgment. Every finding carries the
+ * 8 CFR provision it enforces. Which rules apply, and the provisions they
+ * cite, come from the visa registry.
+ */
+
+import { ScoringDocument } from './map-reduce-scorer';
+import { countCriteriaMet, hasOneTimeAchievement } from './final-merits';
+import type { RawScoringOutput } from './officer-scorer';
+import { VisaType, DocumentType, CriterionScore } from '../types';
+import { getVisaDefinition, VisaTypeDefinition } from '../data/visa-registry';
+
+export interface RuleFinding {
+  ruleId: string;
+  citation: string; // e.g. "8 CFR 214.2(p)(2)(ii)(C)"
+  message: string; // Merged into weaknesses
+  recommendation: string; // Merged into recommendations.critical
+}
+
+interface RuleContext {
+  visaType: VisaType;
+  visa: VisaTypeDefinition;
+  documentType: DocumentType;
+  criteriaScores: CriterionScore[];
+  documents: ScoringDocument[];
+  text: string; // Petitioner's document text, for pattern checks
+}
+
+interface Rule {
+  id: string;
+  appliesTo: (visa: VisaTypeDefinition) => boolean; // Read from the visa registry
+  documentTypes: DocumentType[];
+  check: (ctx: RuleContext) => Omit<RuleFinding, 'ruleId'> | null;
+}
+
+// Submissions that should contain the complete filing
+const COMPLETE_FILINGS: DocumentType[] = ['full_petition', 'rfe_response'];
+
+// Submissions the criteria are scored on
+const CRITERIA_SUBMISSIONS: DocumentType[] = ['full_petition', 'rfe_response', 'exhibit_packet'];
+
+const ITINERARY_PATTERN = /\bitinerary\b|\bschedule of (events|competitions|games|matches|tournaments)\b/gi;
+
+// Dated entries, e.g. "March 3, 2026", "3 March 2026", "03/03/2026" or "2026-03-03"
+const DATE_PATTERN =
+  /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.? \d{1,2}(st|nd|rd|th)?,? \d{4}\b|\b\d{1,2} (jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]* \d{4}\b|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b|\b\d{4}-\d{2}-\d{2}\b/gi;
+
+// "no itinerary", "not include an itinerary", "without a schedule of events"
+const NEGATION_BEFORE_PATTERN = /\b(no|not|without|missing|lacks?|absent)\b[^.\n]{0,40}$/i;
+
+// An itinerary lists the events with their dates
+const MIN_ITINERARY_DATES = 2;
+const ITINERARY_WINDOW_CHARS = 2000;
+
+const CONTRACT_PATTERN =
+  /\b(this|the) (agreement|contract) is (made|entered into)\b|\bhereby agree\b|\bin witness whereof\b|\bsummary of the (terms of the )?oral agreement\b/i;
+
+// The labor certification form filed with a national interest waiver request
+const LABOR_CERTIFICATION_PATTERN = /\bETA[- ]?(9089|750)\b|\bForm ETA\b/i;
+
+const CONSULTATION_PATTERN =
+  /\badvisory opinion\b|\bconsultation (letter|from)\b|\bletter of no objection\b|\bno[- ]objection letter\b|\bpeer group consultation\b/i;
+
+const RULES: Rule[] = [
+  {
+    id: 'minimum-criteria',
+    appliesTo: (visa) => visa.criteriaFramework === 'minimum-criteria',
+    documentTypes: CRITERIA_SUBMISSIONS,
+    check: ({ visaType, visa, criteriaScores }) => {
+      const met = countCriteriaMet(criteriaScores);
+      const required = visa.minimumCriteria;
+      if (met >= required) return null;
+
+      // Beneficiaries with their own major one-time award do not need the criteria list
+      if (hasOneTimeAchievement(visaType, criteriaScores)) return null;
+
+      if (visa.oneTimeAchievementCriterion !== undefined) {
+        return {
+          citation: visa.criteriaCitation,
+          message: `Only ${met} of the ${required} required ${visaType} criteria are rated Adequate or better, and the record shows no one-time major internationally recognized award as an alternative`,
+          recommendation: `Document at least ${required} criteria at Adequate or better, or evidence a one-time achievement (a major, internationally recognized award)`,
+        };
+      }
+
+      return {
+        citation: visa.criteriaCitation,
+        message: `Only ${met} of the ${required} required ${visaType} criteria are rated Adequate or better`,
+        recommendation: `Strengthen the evidence until at least ${required} criteria are met - ${required - met} more criterion(s) need Adequate or better evidence`,
+      };
+    },
+  },
+  {
+    id: 'dhanasar-eligibility',
+    appliesTo: (visa) => visa.criteriaFramework === 'dhanasar',
+    documentTypes: CRITERIA_SUBMISSIONS,
+    check: ({ visa, criteriaScores }) => {
+      const eligibility = criteriaScores.find((c) => c.criterionNumber === 1);
+      if (!eligibility || countCriteriaMet([eligibility]) === 1) return null;
+
+      return {
+        citation: visa.eligibilityCitation || visa.criteriaCitation,
+        message: 'EB-2 eligibility is not established - the record does not show an advanced degree (or a bachelor\'s plus five years of progressive experience) or exceptional ability, so the waiver cannot be reached',
+        recommendation: 'Document the advanced degree or its equivalent (diploma, transcripts, credential evaluation, experience letters), or at least three of the exceptional ability criteria of 8 CFR 204.5(k)(3)(ii)',
+      };
+    },
+  },
+  {
+    id: 'dhanasar-prongs',
+    appliesTo: (visa) => visa.criteriaFramework === 'dhanasar',
+    documentTypes: CRITERIA_SUBMISSIONS,
+    check: ({ visa, criteriaScores }) => {
+      const unmet = criteriaScores.filter((c) => c.criterionNumber > 1 && countCriteriaMet([c]) === 0);
+      if (unmet.length === 0) return null;
+
+      return {
+        citation: visa.criteriaCitation,
+        message: `${unmet.length} of the 3 Dhanasar prongs ${unmet.length === 1 ? 'is' : 'are'} not rated Adequate or better (${unmet.map((c) => `prong ${c.criterionNumber - 1}`).join(', ')}) - every prong must be met for the waiver`,
+        recommendation: `Strengthen the evidence for ${unmet.map((c) => `prong ${c.criterionNumber - 1} (${c.criterionName})`).join(' and ')}`,
+      };
+    },
+  },
+  {
+    id: 'contract-filed',
+    appliesTo: (visa) => !!visa.requiredFilings.contract,
+    documentTypes: COMPLETE_FILINGS,
+    check: ({ visa, text }) => {
+      // The file's 'contract' category comes from filename keywords, so only contract language counts
+      if (CONTRACT_PATTERN.test(text)) return null;
+
+      return {
+        citation: visa.requiredFilings.contract!,
+        message: 'No written contract with the beneficiary (or summary of the oral agreement) was found in the record',
+        recommendation: 'Include the signed contract between petitioner and beneficiary, or a summary of the terms of the oral agreement',
+      };
+    },
+  },
+  {
+    id: 'itinerary-filed',
+    appliesTo: (visa) => !!visa.requiredFilings.itinerary,
+    documentTypes: COMPLETE_FILINGS,
+    check: ({ visa, text }) => {
+      if (hasItinerary(text)) return null;
+
+      return {
+        citation: visa.requiredFilings.itinerary!,
+        message: 'No itinerary of the events or competitions, with dates and locations, was found in the record',
+        recommendation: 'Add an itinerary listing each event or competition with its dates and location',
+      };
+    },
+  },
+  {
+    id: 'consultation-filed',
+    appliesTo: (visa) => !!visa.requiredFilings.consultation,
+    documentTypes: COMPLETE_FILINGS,
+    check: ({ visa, text }) => {
+      if (CONSULTATION_PATTERN.test(text)) return null;
+
+      return {
+        citation: visa.requiredFilings.consultation!,
+        message: 'No written advisory opinion (consultation) from a peer group, labor organization or management organization was found in the record',
+        recommendation: 'Obtain and include the written advisory opinion from the appropriate consulting organization, or a letter explaining why none exists',
+      };
+    },
+  },
+  {
+    id: 'labor-certification-filed',
+    appliesTo: (visa) => !!visa.requiredFilings['labor-certification'],
+    documentTypes: COMPLETE_FILINGS,
+    check: ({ visa, text }) => {
+      if (LABOR_CERTIFICATION_PATTERN.test(text)) return null;
+
+      return {
+        citation: visa.requiredFilings['labor-certification']!,
+        message: 'No Form ETA-9089 was found in the record - a national interest waiver request must still include the labor certification form',
+        recommendation: 'Include the completed Form ETA-9089 (with its Appendix A for the waiver) signed by the beneficiary',
+      };
+    },
+  },
+];
+
+/**
+ * Whether the text holds an itinerary - a mention that is not negated,
+ * followed by dated entries
+ */
+function hasItinerary(text: string): boolean {
+  for (const match of text.matchAll(ITINERARY_PATTERN)) {
+    const before = text.slice(Math.max(0, match.index - 60), match.index);
+    if (NEGATION_BEFORE_PATTERN.test(before)) continue;
+
+    const window = text.slice(match.index, match.index + ITINERARY_WINDOW_CHARS);
+    if ((window.match(DATE_PATTERN) || []).length >= MIN_ITINERARY_DATES) return true;
+  }
+  return false;
+}
+
+/**
+ * Run every rule that applies to the visa type and submission
+ */
+export function runRulesEngine(params: {
+  visaType: VisaType;
+  documentType: DocumentType;
+  criteriaScores: CriterionScore[];
+  documents: ScoringDocument[];
+}): RuleFinding[] {
+  const ctx: RuleContext = {
+    ...params,
+    visa: getVisaDefinition(params.visaType),
+    // The original RFE asks for these documents by name - it is not evidence of them
+    text: params.documents
+      .filter((d) => d.category !== 'rfe_original')
+      .map((d) => d.text)
+      .join('\n'),
+  };
+
+  const findings: RuleFinding[] = [];
+  for (const rule of RULES) {
+    if (!rule.appliesTo(ctx.visa) || !rule.documentTypes.includes(ctx.documentType)) continue;
+
+    const finding = rule.check(ctx);
+    if (finding) findings.push({ ruleId: rule.id, ...finding });
+  }
+
+  if (findings.length > 0) {
+    console.log(`[RulesEngine] ${findings.length} finding(s): ${findings.map((f) => f.ruleId).join(', ')}`);
+  }
+  return findings;
+}
+
+/**
+ * Merge findings into the officer's weaknesses and critical
+ * recommendations, ahead of the model's own items
+ */
+export function applyRuleFindings(
+  results: Pick<RawScoringOutput, 'weaknesses' | 'recommendations'>,
+  findings: RuleFinding[]
+): void {
+  const tag = (f: RuleFinding, text: string) => `[${f.citation}] ${text}`;
+
+  results.weaknesses = [...findings.map((f) => tag(f, f.message)), ...results.weaknesses];
+  results.recommendations.critical = [
+    ...findings.map((f) => tag(f, f.recommendation)),
+    ...results.recommendations.critical,
+  ];
+}
+
+/**
+ * Report section listing the regulatory check failures
+ */
+export function formatRuleFindings(findings: RuleFinding[]): string {
+  if (findings.length === 0) return '';
+
+  return `
+
+---
+
+## REGULATORY CHECKS
+
+These checks are applied automatically to every evaluation, independent of the officer review.
+
+| Regulation | Finding |
+|------------|---------|
+${findings.map((f) => `| ${f.citation} | ${f.message} |`).join('\n')}
+`;
+}
@@ -0,0 +1,444 @@
+/**
+ * Officer Scoring Output Schema
+ *
+ * Zod schema for the structured payload the officer submits alongside
+ * the narrative report. Validated before anything is stored, so criteria
+ * and probabilities never depend on the wording of markdown headings.
+ */
+
+import { z } from 'zod';
+import { VisaType, VISA_CRITERIA } from '../types';
+import { StructuredOutputSpec } from '../ai/providers';
+
+const score = z.number().int().min(0).max(100);
+const textList = z.array(z.string());
+
+export const criterionScoreSchema = z.object({
+  criterionNumber: z.number().int().min(1),
+  rating: z.enum(['Strong', 'Adequate', 'Weak', 'Insufficient', 'Not Claimed']),
+  score,
+  evidenceQuality: z.enum(['Excellent', 'Good', 'Fair', 'Poor']),
+  officerConcerns: textList,
+  strengths: textList,
+  suggestions: textList,
+});
+
+export const evidenceQualitySchema = z.object({
+  tier1Count: z.number().int().min(0),
+  tier2Count: z.number().int().min(0),
+  tier3Count: z.number().int().min(0),
+  tier4Count: z.number().int().min(0),
+  overallAssessment: z.enum(['Strong', 'Moderate', 'Weak', 'Insufficient']),
+  concerns: textList,
+});
+
+export const rfePredictionSchema = z.object({
+  topic: z.string().min(1),
+  probability: score,
+  officerPerspective: z.string(),
+  suggestedEvidence: textList,
+});
+
+export const recommendationsSchema = z.object({
+  critical: textList,
+  high: textList,
+  recommended: textList,
+});
+
+const scoringOutputObject = z.object({
+  fullReport: z.string().min(200),
+  overallScore: score,
+  approvalProbability: score,
+  rfeProbability: score,
+  denialRisk: score,
+  criteriaScores: z.array(criterionScoreSchema),
+  evidenceQuality: evidenceQualitySchema,
+  rfePredictions: z.array(rfePredictionSchema),
+  weaknesses: textList,
+  strengths: textList,
+  recommendations: recommendationsSchema,
+});
+
+export type ScoringOutputPayload = z.infer<typeof scoringOutputObject>;
+
+/**
+ * Build the scoring schema for a visa type - every regulatory criterion
+ * must be reported exactly once, claimed or not
+ */
+export function getScoringOutputSchema(visaType: VisaType): z.ZodType<ScoringOutputPayload> {
+  const expected = VISA_CRITERIA[visaType].map((c) => c.number);
+
+  return scoringOutputObject.superRefine((payload, ctx) => {
+    const seen = new Set<number>();
+
+    payload.criteriaScores.forEach((criterion, index) => {
+      if (!expected.includes(criterion.criterionNumber)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['criteriaScores', index, 'criterionNumber'],
+          message: `Criterion ${criterion.criterionNumber} does not exist for ${visaType} (valid: ${expected.join(', ')})`,
+        });
+      } else if (seen.has(criterion.criterionNumber)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['criteriaScores', index, 'criterionNumber'],
+          message: `Criterion ${criterion.criterionNumber} is reported more than once`,
+        });
+      }
+      seen.add(criterion.criterionNumber);
+    });
+
+    const missing = expected.filter((n) => !seen.has(n));
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['criteriaScores'],
+        message: `Missing criteria ${missing.join(', ')} - report every criterion, using "Not Claimed" with score 0 when no evidence is offered`,
+      });
+    }
+  });
+}
+
+/**
+ * Tool definition used to request the scoring payload
+ */
+export function getScoringOutputSpec(visaType: VisaType): StructuredOutputSpec<ScoringOutputPayload> {
+  return {
+    name: 'submit_officer_evaluation',
+    description: `Submit the completed ${visaType} officer evaluation: the full markdown report plus the structured scores, criterion ratings, evidence tiers, RFE predictions and recommendations.`,
+    schema: getScoringOutputSchema(visaType),
+  };
+}
+
+/**
+ * Adapt a partial-report listener to the partially streamed scoring
+ * payload. fullReport is the first field, so it streams before the scores.
+ */
+export function forwardPartialReport(onPartialReport: (text: string) => void): (partial: unknown) => void {
+  return (partial) => {
+    const report = (partial as Partial<ScoringOutputPayload> | undefined)?.fullReport;
+    if (typeof report === 'string') onPartialReport(report);
+  };
+}
+
+// ==========================================
+// MAP-REDUCE REVIEW PASSES
+// ==========================================
+
+export const passFindingsSchema = z.object({
+  criterionFindings: z.array(z.object({
+    criterionNumber: z.number().int().min(1),
+    preliminaryScore: score,
+    evidence: z.array(z.object({
+      fileName: z.string(),
+      description: z.string().min(1),
+      tier: z.number().int().min(1).max(4),
+    })),
+    concerns: textList,
+  })),
+  observations: textList,
+  redFlags: textList,
+});
+
+export type PassFindings = z.infer<typeof passFindingsSchema>;
+
+/**
+ * Tool definition for one review pass over a slice of a large record
+ */
+export function getPassFindingsSpec(visaType: VisaType): StructuredOutputSpec<PassFindings> {
+  return {
+    name: 'submit_review_notes',
+    description: `Submit your working notes for this portion of the ${visaType} record: evidence found per criterion, preliminary scores, concerns and red flags.`,
+    schema: passFindingsSchema,
+  };
+}
+
+// ==========================================
+// PER-CRITERION PASSES
+// ==========================================
+
+// A passage of the record quoted in support of a finding
+export const citationSchema = z.object({
+  quote: z.string().min(10),
+  fileName: z.string().min(1),
+  page: z.number().int().min(1).nullable(),
+  finding: z.string().min(1),
+});
+
+export type CitationPayload = z.infer<typeof citationSchema>;
+
+export const criterionEvaluationSchema = z.object({
+  rating: criterionScoreSchema.shape.rating,
+  score,
+  evidenceQuality: criterionScoreSchema.shape.evidenceQuality,
+  strengths: textList,
+  officerConcerns: textList,
+  suggestions: textList,
+  citations: z.array(citationSchema),
+});
+
+export type CriterionEvaluationPayload = z.infer<typeof criterionEvaluationSchema>;
+
+/**
+ * Tool definition for a focused evaluation of one criterion
+ */
+export function getCriterionEvaluationSpec(
+  visaType: VisaType,
+  criterionName: string
+): StructuredOutputSpec<CriterionEvaluationPayload> {
+  return {
+    name: 'submit_criterion_evaluation',
+    description: `Submit the ${visaType} evaluation of the "${criterionName}" criterion, with the exact passages of the record each finding relies on.`,
+    schema: criterionEvaluationSchema,
+  };
+}
+
+// ==========================================
+// FINAL MERITS (KAZARIAN STEP 2)
+// ==========================================
+
+export const finalMeritsSchema = z.object({
+  sustainedAcclaim: z.string().min(1),
+  topOfField: z.string().min(1),
+  totalityOfEvidence: z.string().min(1),
+  score,
+  outcome: z.enum(['Favorable', 'Borderline', 'Unfavorable']),
+  rationale: z.string().min(1),
+});
+
+export type FinalMeritsPayload = z.infer<typeof finalMeritsSchema>;
+
+/**
+ * Tool definition for the final merits determination
+ */
+export function getFinalMeritsSpec(visaType: VisaType): StructuredOutputSpec<FinalMeritsPayload> {
+  return {
+    name: 'submit_final_merits_determination',
+    description: `Submit the ${visaType} final merits determination (Kazarian step 2): sustained acclaim, standing at the very top of the field, and the totality of the evidence.`,
+    schema: finalMeritsSchema,
+  };
+}
+
+// ==========================================
+// RFE RESPONSE ISSUES
+// ==========================================
+
+export const rfeIssueListSchema = z.object({
+  issues: z.array(z.object({
+    topic: z.string().min(1),
+    request: z.string().min(1),
+    requestedEvidence: textList,
+    criterionNumber: z.number().int().min(1).nullable(),
+  })).min(1),
+});
+
+export type RFEIssueListPayload = z.infer<typeof rfeIssueListSchema>;
+
+/**
+ * Tool definition for splitting an RFE notice into discrete requests
+ */
+export function getRFEIssueListSpec(visaType: VisaType): StructuredOutputSpec<RFEIssueListPayload> {
+  return {
+    name: 'submit_rfe_issues',
+    description: `Submit each discrete request for evidence made in the ${visaType} RFE notice, in the order the notice raises them.`,
+    schema: rfeIssueListSchema,
+  };
+}
+
+export const rfeIssueAssessmentSchema = z.object({
+  status: z.enum(['Resolved', 'Partially Resolved', 'Unresolved']),
+  score,
+  responseSummary: z.string().min(1),
+  matchedExhibits: textList,
+  citations: z.array(citationSchema),
+  remainingConcerns: textList,
+});
+
+export type RFEIssueAssessmentPayload = z.infer<typeof rfeIssueAssessmentSchema>;
+
+/**
+ * Tool definition for scoring the response to one RFE issue
+ */
+export function getRFEIssueAssessmentSpec(
+  visaType: VisaType,
+  topic: string
+): StructuredOutputSpec<RFEIssueAssessmentPayload> {
+  return {
+    name: 'submit_rfe_issue_assessment',
+    description: `Submit the assessment of how the ${visaType} RFE response answers the "${topic}" request, with the exact passages of the response relied on.`,
+    schema: rfeIssueAssessmentSchema,
+  };
+}
+
+// ==========================================
+// CONTRACT / DEAL MEMO TERMS
+// ==========================================
+
+// Dates are normalized by the model; anything it cannot pin down is null
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable();
+const optionalText = z.string().nullable();
+
+export const contractTermsSchema = z.object({
+  parties: z.array(z.object({
+    name: z.string().min(1),
+    role: z.enum(['Petitioner', 'Employer', 'Agent', 'Beneficiary', 'Venue', 'Other']),
+    address: optionalText,
+  })),
+  signedDate: isoDate,
+  termStart: isoDate,
+  termEnd: isoDate,
+  duties: textList,
+  compensation: z.array(z.object({
+    description: z.string().min(1),
+    amount: z.number().min(0).nullable(),
+    currency: optionalText,
+    basis: optionalText,
+  })),
+  engagements: z.array(z.object({
+    description: z.string().min(1),
+    startDate: isoDate,
+    endDate: isoDate,
+    venue: optionalText,
+    location: optionalText,
+    employer: optionalText,
+  })),
+  agentIsPetitioner: z.boolean(),
+});
+
+export type ContractTermsPayload = z.infer<typeof contractTermsSchema>;
+
+/**
+ * Tool definition for extracting the terms of a contract or deal memo
+ */
+export function getContractTermsSpec(visaType: VisaType): StructuredOutputSpec<ContractTermsPayload> {
+  return {
+    name: 'submit_contract_terms',
+    description: `Submit the terms of the ${visaType} contract or deal memo: parties and their roles, dates, duties, compensation and every engagement on the itinerary.`,
+    schema: contractTermsSchema,
+  };
+}
+
+// ==========================================
+// MEDIA EVIDENCE
+// ==========================================
+
+export const mediaEvidenceListSchema = z.object({
+  items: z.array(z.object({
+    fileName: z.string().min(1),
+    exhibitLabel: optionalText,
+    outlet: z.string().min(1),
+    title: optionalText,
+    publishedDate: optionalText,
+    author: optionalText,
+    circulationClaim: optionalText,
+    mediaType: z.enum([
+      'Newspaper',
+      'Magazine',
+      'Broadcast',
+      'Online',
+      'Trade Publication',
+      'Journal',
+      'Press Release',
+      'Blog/Social',
+      'Other',
+    ]),
+    aboutBeneficiary: z.boolean(),
+    paidOrSelfPublished: z.boolean(),
+    suggestedTier: z.number().int().min(1).max(4),
+  })),
+});
+
+export type MediaEvidenceListPayload = z.infer<typeof mediaEvidenceListSchema>;
+
+/**
+ * Tool definition for listing the media and publication exhibits
+ */
+export function getMediaEvidenceSpec(visaType: VisaType): StructuredOutputSpec<MediaEvidenceListPayload> {
+  return {
+    name: 'submit_media_evidence',
+    description: `Submit every media or publication exhibit in this portion of the ${visaType} record: outlet, title, date, author and circulation claims, with a suggested evidence tier.`,
+    schema: mediaEvidenceListSchema,
+  };
+}
+
+// ==========================================
+// SUPPORT LETTERS
+// ==========================================
+
+export const letterAssessmentSchema = z.object({
+  author: z.string().min(1),
+  title: optionalText,
+  affiliation: optionalText,
+  relationship: z.enum(['Employer', 'Co-author', 'Collaborator', 'Independent', 'Unknown']),
+  relationshipDetail: z.string().min(1),
+  specificity: z.enum(['Specific', 'General', 'Vague']),
+  specificityScore: score,
+  specificContributions: textList,
+  concerns: textList,
+});
+
+export type LetterAssessmentPayload = z.infer<typeof letterAssessmentSchema>;
+
+/**
+ * Tool definition for assessing one support letter
+ */
+export function getLetterAssessmentSpec(visaType: VisaType): StructuredOutputSpec<LetterAssessmentPayload> {
+  return {
+    name: 'submit_letter_assessment',
+    description: `Submit the assessment of one ${visaType} support letter: its author, their independence from the beneficiary, and how specifically it describes the beneficiary's contributions.`,
+    schema: letterAssessmentSchema,
+  };
+}
+
+// ==========================================
+// CONSISTENCY CHECK
+// ==========================================
+
+const factType = z.enum(['Person Name', 'Organization Name', 'Date', 'Amount', 'Title']);
+
+export const consistencyFactsSchema = z.object({
+  facts: z.array(z.object({
+    factType,
+    subject: z.string().min(1),
+    value: z.string().min(1),
+    quote: z.string().min(10),
+    fileName: z.string().min(1),
+    page: z.number().int().min(1).nullable(),
+  })),
+});
+
+export type ConsistencyFactsPayload = z.infer<typeof consistencyFactsSchema>;
+
+/**
+ * Tool definition for listing the checkable facts in one slice of the record
+ */
+export function getConsistencyFactsSpec(visaType: VisaType): StructuredOutputSpec<ConsistencyFactsPayload> {
+  return {
+    name: 'submit_record_facts',
+    description: `Submit the names, dates, amounts and titles stated in this portion of the ${visaType} record, each with the passage it is stated in.`,
+    schema: consistencyFactsSchema,
+  };
+}
+
+export const consistencyConflictsSchema = z.object({
+  conflicts: z.array(z.object({
+    factType,
+    subject: z.string().min(1),
+    factIds: z.array(z.number().int().min(1)).min(2),
+    severity: z.enum(['High', 'Medium', 'Low']),
+    explanation: z.string().min(1),
+  })),
+});
+
+export type ConsistencyConflictsPayload = z.infer<typeof consistencyConflictsSchema>;
+
+/**
+ * Tool definition for matching up facts that contradict each other
+ */
+export function getConsistencyConflictsSpec(visaType: VisaType): StructuredOutputSpec<ConsistencyConflictsPayload> {
+  return {
+    name: 'submit_consistency_conflicts',
+    description: `Submit each fact the ${visaType} record states inconsistently, by the ids of the conflicting statements.`,
+    schema: consistencyConflictsSchema,
+  };
+}
@@ -101,6 +101,45 @@ export async function needsPayment(fingerprint: string): Promise<{ needsPayment:
   return { needsPayment: true, reason: 'Free scoring used, no paid credits' };
 }
 
+// Check if a batch of scorings needs payment - the free scoring does not cover a batch,
+// so it needs an active subscription or a paid credit for every petition
+export async function needsBatchPayment(
+  fingerprint: string,
+  scorings: number
+): Promise<{ needsPayment: boolean; reason: string }> {
+  if (!isPaywallEnabled()) {
+    return { needsPayment: false, reason: 'Paywall disabled - free access' };
+  }
+
+  if (!isSupabaseConfigured()) {
+    return { needsPayment: false, reason: 'Database not configured' };
+  }
+
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('usage_tracking')
+    .select('*')
+    .eq('fingerprint', fingerprint)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    // Unlike a single scoring, a batch is not let through on a lookup error
+    return { needsPayment: true, reason: 'Error checking usage' };
+  }
+
+  if (data?.subscription_active) {
+    return { needsPayment: false, reason: 'Active subscription' };
+  }
+
+  const remaining = data?.paid_scorings_remaining || 0;
+  if (remaining >= scorings) {
+    return { needsPayment: false, reason: `${remaining} paid scorings remaining` };
+  }
+
+  return { needsPayment: true, reason: `Batch needs ${scorings} paid scorings, ${remaining} remaining` };
+}
+
 // Record a scoring usage
 export async function recordScoringUsage(fingerprint: string, sessionId: string): Promise<void> {
   if (!isSupabaseConfigured()) return;
@@ -2,8 +2,10 @@
  * USCIS Officer Scoring Tool - Type Definitions
  */
 
-// Visa Types
-export type VisaType = 'P-1A' | 'O-1A' | 'O-1B' | 'EB-1A';
+import { VISA_REGISTRY, VISA_TYPES, VisaTypeId, VisaCriterion } from '../data/visa-registry';
+
+// Visa Types - one per entry in the visa registry
+export type VisaType = VisaTypeId;
 
 // Document Types to Score
 export type DocumentType =
@@ -62,6 +64,17 @@ export interface UploadedFile {
   createdAt: string;
 }
 
+// How a page's text was read
+export type OcrMethod = 'pdf-text' | 'mistral-ocr' | 'mistral-vision' | 'tesseract' | 'word' | 'plain-text';
+
+// Extracted text of one page of an uploaded file
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  method: OcrMethod;
+  confidence: number; // 0-1 estimate of how faithfully the text was read
+}
+
 // Criterion Score
 export interface CriterionScore {
   criterionNumber: number;
@@ -72,6 +85,48 @@ export interface CriterionScore {
   officerConcerns: string[];
   strengths: string[];
   suggestions: string[];
+  citations?: EvidenceCitation[]; // Set by per-criterion evaluation passes
+}
+
+// Passage of the record the officer relied on for a finding
+export interface EvidenceCitation {
+  quote: string;
+  fileName: string;
+  page?: number;
+  finding: string; // The strength or concern the quote supports
+  verified: boolean; // Quote was found verbatim in the extracted text
+}
+
+// Optional scoring modes
+export interface ScoringOptions {
+  criterionPasses?: boolean; // One focused officer pass per criterion, with citations
+  ensembleRuns?: number; // Independent officer evaluations to aggregate (1 = single run)
+  ensembleMixProviders?: boolean; // Alternate ensemble runs between Claude and OpenAI
+  bypassCache?: boolean; // Re-run OCR and every AI call instead of reusing cached output
+}
+
+// Cache hits and misses for one scoring run
+export interface CacheStats {
+  extraction: { hits: number; misses: number };
+  ai: { hits: number; misses: number };
+}
+
+// AI providers the router can send a call to
+export type AIProviderId = 'claude' | 'openai' | 'local' | 'replay';
+
+// Kinds of AI call, each routed to its own models and budget
+export type AITask = 'scoring' | 'chat' | 'extraction' | 'classification';
+
+// One model call made for a session
+export interface AICallRecord {
+  task: AITask;
+  provider: AIProviderId;
+  model: string;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  success: boolean;
+  error?: string;
 }
 
 // RFE Prediction
@@ -92,6 +147,200 @@ export interface EvidenceQuality {
   concerns: string[];
 }
 
+// Evidence tier: 1 major media, 2 trade publications, 3 online, 4 self-published/weak
+export type EvidenceTier = 1 | 2 | 3 | 4;
+
+// Evidence Tiers - one media or publication exhibit, classified
+export interface MediaEvidenceItem {
+  fileName: string;
+  exhibitLabel?: string;
+  outlet: string;
+  title?: string;
+  publishedDate?: string;
+  author?: string;
+  circulationClaim?: string; // As claimed in the record, e.g. "2.1 million readers"
+  mediaType: string; // e.g. "Newspaper", "Trade Publication", "Press Release"
+  aboutBeneficiary: boolean; // Published material must be about the beneficiary
+  tier: EvidenceTier;
+  tierSource: 'registry' | 'officer'; // Outlet registry match, or the officer's judgment
+  registryOutlet?: string; // Registry entry the outlet matched
+}
+
+// Kazarian step 2 - whether the evidence as a whole shows the required acclaim
+export type FinalMeritsOutcome = 'Favorable' | 'Borderline' | 'Unfavorable';
+
+// Final Merits Determination
+export interface FinalMeritsDetermination {
+  outcome: FinalMeritsOutcome;
+  score: number; // 0-100
+  criteriaMet: number; // Criteria rated Strong or Adequate in step 1
+  criteriaRequired: number;
+  sustainedAcclaim: string;
+  topOfField: string; // Small percentage at the very top of the field
+  totalityOfEvidence: string;
+  rationale: string;
+}
+
+// Ensemble Scoring - spread of one criterion across runs
+export interface CriterionSpread {
+  criterionNumber: number;
+  median: number;
+  min: number;
+  max: number;
+}
+
+// Ensemble Scoring - how stable the score is across independent evaluations
+export interface EnsembleSummary {
+  runs: number;
+  providers: AIProviderId[];
+  overallScores: number[]; // One per run
+  median: number;
+  standardDeviation: number;
+  confidenceInterval: { level: number; low: number; high: number };
+  ratingAgreement: number; // Share of runs that reached the most common overall rating (0-1)
+  disagreement: 'Low' | 'Moderate' | 'High';
+  criteria: CriterionSpread[];
+}
+
+// RFE Response Scoring - how far the response answers one officer request
+export type RFEIssueStatus = 'Resolved' | 'Partially Resolved' | 'Unresolved';
+
+// RFE Response Scoring - one discrete request from the RFE notice
+export interface RFEIssueAssessment {
+  issueNumber: number;
+  topic: string;
+  request: string; // What the officer asked for
+  requestedEvidence: string[];
+  criterionNumber?: number; // Criterion the request is about, if any
+  status: RFEIssueStatus;
+  score: number; // 0-100
+  responseSummary: string;
+  matchedExhibits: string[]; // Exhibits/files in the response that address the issue
+  citations: EvidenceCitation[];
+  remainingConcerns: string[];
+}
+
+// Contract Extraction - role a party plays in the contract
+export type ContractPartyRole = 'Petitioner' | 'Employer' | 'Agent' | 'Beneficiary' | 'Venue' | 'Other';
+
+// Contract Extraction - a named party to the contract or deal memo
+export interface ContractParty {
+  name: string;
+  role: ContractPartyRole;
+  address?: string;
+}
+
+// Contract Extraction - one payment term
+export interface ContractCompensation {
+  description: string; // As stated, e.g. "$2,500 per match"
+  amount?: number;
+  currency?: string;
+  basis?: string; // e.g. "per event", "weekly", "flat fee"
+}
+
+// Contract Extraction - one event or engagement on the itinerary
+export interface ContractEngagement {
+  description: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  venue?: string;
+  location?: string; // City/state or country
+  employer?: string; // Establishment engaging the beneficiary, when not the petitioner
+}
+
+// Contract Extraction - a term missing or inadequate for the visa type
+export interface ContractGap {
+  field: string; // e.g. "compensation", "itinerary"
+  severity: 'critical' | 'high';
+  citation: string; // 8 CFR provision the term is required by
+  message: string;
+}
+
+// Contract Extraction - typed terms of a contract or deal memo
+export interface ContractTerms {
+  parties: ContractParty[];
+  signedDate?: string; // YYYY-MM-DD
+  termStart?: string; // YYYY-MM-DD
+  termEnd?: string; // YYYY-MM-DD
+  duties: string[];
+  compensation: ContractCompensation[];
+  engagements: ContractEngagement[];
+  agentIsPetitioner: boolean; // An agent files for the employers or the beneficiary
+  gaps: ContractGap[];
+}
+
+// Letter Analysis - how the author is connected to the beneficiary
+export type LetterRelationship = 'Employer' | 'Co-author' | 'Collaborator' | 'Independent' | 'Unknown';
+
+// Letter Analysis - one support/recommendation letter
+export interface LetterAssessment {
+  fileName: string;
+  author: string;
+  title?: string;
+  affiliation?: string;
+  relationship: LetterRelationship;
+  relationshipDetail: string; // How the author knows the beneficiary
+  specificity: 'Specific' | 'General' | 'Vague';
+  specificContributions: string[]; // Concrete contributions the letter describes
+  credibilityScore: number; // 0-100, after independence and boilerplate discounts
+  similarLetters: { fileName: string; similarity: number }[]; // Letters sharing its language (0-1)
+  concerns: string[];
+}
+
+// Letter Analysis - every letter in the record
+export interface LetterAnalysis {
+  letters: LetterAssessment[];
+  boilerplateGroups: string[][]; // File names of letters that share near-identical language
+}
+
+// Consistency Check - kind of fact that conflicts across the record
+export type ConsistencyFactType = 'Person Name' | 'Organization Name' | 'Date' | 'Amount' | 'Title';
+
+// Consistency Check - one place the fact is stated
+export interface ConsistencyOccurrence {
+  value: string; // The fact as stated here, e.g. "$85,000"
+  quote: string;
+  fileName: string;
+  page?: number;
+  verified: boolean; // Quote was found verbatim in the extracted text
+}
+
+// Consistency Check - a fact stated differently in different places
+export interface ConsistencyConflict {
+  factType: ConsistencyFactType;
+  subject: string; // What the fact is about, e.g. "Annual salary at Acme Corp"
+  severity: 'High' | 'Medium' | 'Low';
+  explanation: string;
+  occurrences: ConsistencyOccurrence[];
+}
+
+// Exhibit Index - one exhibit found in the uploaded packet
+export interface ExhibitEntry {
+  label: string; // Normalized, e.g. "Exhibit A-1", "Tab 12"
+  title?: string;
+  fileName: string;
+  startPage: number; // Pages within the file
+  endPage: number;
+  packetStartPage: number; // Pages counting every uploaded file in order
+  packetEndPage: number;
+  citationCount: number; // Times the legal brief cites it
+}
+
+// Exhibit Index - a broken cross-reference between the brief and the exhibits
+export interface ExhibitReferenceIssue {
+  type: 'missing_exhibit' | 'uncited_exhibit' | 'duplicate_label';
+  label: string;
+  message: string;
+}
+
+// Exhibit Index - table of contents and cross-reference check for a session
+export interface ExhibitIndex {
+  exhibits: ExhibitEntry[];
+  citedLabels: string[]; // Every exhibit label the brief cites
+  briefFiles: string[]; // Files read as the legal brief
+  issues: ExhibitReferenceIssue[];
+}
+
 // Scoring Results
 export interface ScoringResults {
   id: string;
@@ -102,6 +351,15 @@ export interface ScoringResults {
   rfeProbability: number;
   denialRisk: number;
   criteriaScores: CriterionScore[];
+  finalMerits?: FinalMeritsDetermination; // Kazarian visa types only
+  ensemble?: EnsembleSummary; // Set when scored with more than one run
+  rfeIssues?: RFEIssueAssessment[]; // RFE responses scored against the original notice
+  contractTerms?: ContractTerms; // Contracts and deal memos
+  mediaEvidence?: MediaEvidenceItem[]; // Classified media exhibits behind evidenceQuality
+  letterAnalysis?: LetterAnalysis; // Support and recommendation letters
+  consistencyConflicts?: ConsistencyConflict[]; // Names, dates and figures that disagree across the record
+  cacheStats?: CacheStats; // OCR and AI cache use for the run
+  calibrated?: CalibratedProbabilities; // From the visa type's calibration curves, once fitted
   evidenceQuality: EvidenceQuality;
   rfePredictions: RFEPrediction[];
   weaknesses: string[];
@@ -115,6 +373,61 @@ export interface ScoringResults {
   createdAt: string;
 }
 
+// USCIS decision recorded against a scored session
+export type AdjudicationDecision = 'approved' | 'rfe' | 'noid' | 'denied';
+
+// One notice received for a scored petition - a case can have several,
+// e.g. an RFE followed by an approval
+export interface CaseOutcome {
+  id: number;
+  sessionId: string;
+  decision: AdjudicationDecision;
+  decisionDate: string; // YYYY-MM-DD, date on the notice
+  receiptDate?: string; // YYYY-MM-DD, filing receipt
+  notes?: string;
+  createdAt: string;
+}
+
+// What a calibration curve predicts: final approval, or an RFE or NOID being issued
+export type CalibrationTarget = 'approval' | 'rfe';
+
+// Predicted versus actual rate for the cases whose predicted probability falls in [from, to)
+export interface ReliabilityBin {
+  from: number;
+  to: number;
+  cases: number;
+  meanPredicted: number; // The officer's probability, 0-100
+  meanCalibrated?: number; // The fitted curve's probability, 0-100
+  actualRate: number; // 0-100
+}
+
+export interface ReliabilityReport {
+  cases: number;
+  positives: number;
+  baseRate: number; // 0-100
+  bins: ReliabilityBin[];
+  brierModel: number; // Mean squared error of the officer's probability, 0-1
+  brierCurve?: number; // Same for the fitted curve, on the cases it was fitted to
+  calibrationError: number; // Case-weighted gap between predicted and actual rate, 0-100
+}
+
+// Logistic curve from overall score to probability, fitted per visa type
+export interface CalibrationCurve {
+  visaType: VisaType;
+  target: CalibrationTarget;
+  fit?: { intercept: number; slope: number }; // Slope per 10 score points above 50; unset with too few decided cases
+  reliability: ReliabilityReport;
+  fittedAt: string;
+}
+
+// Probabilities read off the calibration curves for a result
+export interface CalibratedProbabilities {
+  approvalProbability?: number;
+  rfeProbability?: number;
+  cases: number; // Decided cases behind the approval curve
+  fittedAt: string;
+}
+
 // Chat Message
 export interface ChatMessage {
   id: string;
@@ -125,52 +438,12 @@ export interface ChatMessage {
   createdAt: string;
 }
 
-// Visa Criteria Definitions
-export const VISA_CRITERIA: Record<VisaType, { number: number; name: string; letter: string }[]> = {
-  'O-1A': [
-    { number: 1, letter: 'A', name: 'Nationally or internationally recognized prizes or awards' },
-    { number: 2, letter: 'B', name: 'Membership in associations requiring outstanding achievements' },
-    { number: 3, letter: 'C', name: 'Published material about the beneficiary' },
-    { number: 4, letter: 'D', name: 'Participation as a judge of others\' work' },
-    { number: 5, letter: 'E', name: 'Original contributions of major significance' },
-    { number: 6, letter: 'F', name: 'Authorship of scholarly articles' },
-    { number: 7, letter: 'G', name: 'Employment in a critical or essential capacity' },
-    { number: 8, letter: 'H', name: 'High salary or remuneration' },
-  ],
-  'O-1B': [
-    { number: 1, letter: 'A', name: 'Performed as a lead or starring participant' },
-    { number: 2, letter: 'B', name: 'Critical reviews or other published material' },
-    { number: 3, letter: 'C', name: 'Performed for organizations with distinguished reputation' },
-    { number: 4, letter: 'D', name: 'Record of major commercial or critically acclaimed successes' },
-    { number: 5, letter: 'E', name: 'Received significant recognition from organizations, critics, or experts' },
-    { number: 6, letter: 'F', name: 'High salary or substantial remuneration' },
-  ],
-  'P-1A': [
-    { number: 1, letter: 'A', name: 'International recognition in the sport' },
-    { number: 2, letter: 'B', name: 'Significant participation with a major United States sports league' },
-    { number: 3, letter: 'C', name: 'Significant participation in international competition' },
-    { number: 4, letter: 'D', name: 'Significant participation in a prior season with a major U.S. college' },
-    { number: 5, letter: 'E', name: 'Written statement from an official of the sport' },
-    { number: 6, letter: 'F', name: 'International ranking' },
-  ],
-  'EB-1A': [
-    { number: 1, letter: 'A', name: 'Nationally or internationally recognized prizes or awards' },
-    { number: 2, letter: 'B', name: 'Membership in associations requiring outstanding achievements' },
-    { number: 3, letter: 'C', name: 'Published material about the beneficiary' },
-    { number: 4, letter: 'D', name: 'Participation as a judge of others\' work' },
-    { number: 5, letter: 'E', name: 'Original contributions of major significance' },
-    { number: 6, letter: 'F', name: 'Authorship of scholarly articles' },
-    { number: 7, letter: 'G', name: 'Display of work at artistic exhibitions' },
-    { number: 8, letter: 'H', name: 'Leading or critical role in distinguished organizations' },
-    { number: 9, letter: 'I', name: 'High salary or remuneration' },
-    { number: 10, letter: 'J', name: 'Commercial successes in the performing arts' },
-  ],
-};
-
-// Minimum criteria required per visa type
-export const MINIMUM_CRITERIA: Record<VisaType, number> = {
-  'O-1A': 3,
-  'O-1B': 3,
-  'P-1A': 2,
-  'EB-1A': 3,
-};
+// Visa Criteria Definitions - from the visa registry
+export const VISA_CRITERIA = Object.fromEntries(
+  VISA_TYPES.map((visaType) => [visaType, VISA_REGISTRY[visaType].criteria])
+) as Record<VisaType, VisaCriterion[]>;
+
+// Minimum criteria required per visa type - from the visa registry
+export const MINIMUM_CRITERIA = Object.fromEntries(
+  VISA_TYPES.map((visaType) => [visaType, VISA_REGISTRY[visaType].minimumCriteria])
+) as Record<VisaType, number>;
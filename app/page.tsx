@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { Scale, FileText, MessageSquare, Shield, ChevronRight, CheckCircle, Zap, BarChart3, Clock } from 'lucide-react';
+import { VISA_REGISTRY, VISA_TYPES } from '@/app/lib/data/visa-registry';
 
 export default function Home() {
   const [mounted, setMounted] = useState(false);
@@ -75,7 +76,7 @@ export default function Home() {
           {/* Subtitle */}
           <p className="text-lg md:text-xl text-blue-100 max-w-3xl mx-auto mb-10">
             Get your petition evaluated from the perspective of a senior USCIS adjudications officer.
-            Identify weaknesses before you file for O-1A, O-1B, P-1A, and EB-1A visas.
+            Identify weaknesses before you file for O-1A, O-1B, P-1A, EB-1A and EB-2 NIW petitions.
           </p>
 
           {/* CTA Buttons */}
@@ -212,7 +213,7 @@ export default function Home() {
         <div className="container mx-auto px-4 text-center">
           <h2 className="text-2xl font-bold text-gray-900 mb-8">Supported Visa Types</h2>
           <div className="flex flex-wrap justify-center gap-4">
-            {['O-1A Extraordinary Ability', 'O-1B Arts/Entertainment', 'P-1A Athletes', 'EB-1A Green Card'].map((visa) => (
+            {VISA_TYPES.map((id) => VISA_REGISTRY[id].title).map((visa) => (
               <span
                 key={visa}
                 className="px-6 py-3 bg-blue-50 text-blue-700 rounded-full font-medium"
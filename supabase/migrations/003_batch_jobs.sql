@@ -0,0 +1,34 @@
+-- Batch Scoring Jobs
+-- Run this in Supabase SQL Editor
+
+-- Batch Jobs (one row per /api/batch request)
+CREATE TABLE IF NOT EXISTS batch_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    fingerprint VARCHAR(64),
+    status VARCHAR(20) DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'partial', 'error')),
+    session_ids UUID[] NOT NULL DEFAULT '{}',
+    total_sessions INTEGER NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Link sessions back to the batch that created them
+ALTER TABLE scoring_sessions
+    ADD COLUMN IF NOT EXISTS batch_job_id UUID REFERENCES batch_jobs(id) ON DELETE SET NULL;
+
+-- Sessions are queued before Inngest picks them up
+ALTER TABLE scoring_sessions DROP CONSTRAINT IF EXISTS scoring_sessions_status_check;
+ALTER TABLE scoring_sessions
+    ADD CONSTRAINT scoring_sessions_status_check
+    CHECK (status IN ('uploading', 'queued', 'processing', 'scoring', 'completed', 'error'));
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_sessions_batch ON scoring_sessions(batch_job_id);
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_fingerprint ON batch_jobs(fingerprint);
+
+-- Update trigger
+CREATE TRIGGER batch_jobs_updated_at
+    BEFORE UPDATE ON batch_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
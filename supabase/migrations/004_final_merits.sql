@@ -0,0 +1,6 @@
+-- Kazarian Final Merits Determination
+-- Run this in Supabase SQL Editor
+
+-- Step 2 analysis stored alongside criteria_scores (NULL for non-Kazarian visa types)
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS final_merits JSONB;
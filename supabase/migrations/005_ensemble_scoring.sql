@@ -0,0 +1,6 @@
+-- Ensemble Scoring
+-- Run this in Supabase SQL Editor
+
+-- Score stability across independent evaluations (NULL for single-run scoring)
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS ensemble JSONB;
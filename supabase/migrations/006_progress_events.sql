@@ -0,0 +1,21 @@
+-- Scoring Progress Events
+-- Run this in Supabase SQL Editor
+
+-- Stage transitions streamed to the results page over SSE.
+-- The BIGSERIAL id doubles as the SSE event id for resuming a stream.
+CREATE TABLE IF NOT EXISTS session_progress_events (
+    id BIGSERIAL PRIMARY KEY,
+    session_id UUID REFERENCES scoring_sessions(id) ON DELETE CASCADE,
+    stage VARCHAR(50) NOT NULL,
+    progress INTEGER NOT NULL,
+    message TEXT,
+    file_name VARCHAR(500),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Report text generated so far, cleared once the results are saved
+ALTER TABLE scoring_sessions
+    ADD COLUMN IF NOT EXISTS partial_report TEXT;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_progress_events_session ON session_progress_events(session_id, id);
@@ -0,0 +1,6 @@
+-- RFE Response Issues
+-- Run this in Supabase SQL Editor
+
+-- Issue-by-issue assessment of an RFE response against the original notice
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS rfe_issues JSONB;
@@ -0,0 +1,20 @@
+-- Exhibit Index
+-- Run this in Supabase SQL Editor
+
+-- Exhibit table of contents and brief cross-reference check, one per session
+CREATE TABLE IF NOT EXISTS exhibit_indexes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID REFERENCES scoring_sessions(id) ON DELETE CASCADE UNIQUE,
+    exhibits JSONB NOT NULL DEFAULT '[]',
+    cited_labels TEXT[] NOT NULL DEFAULT '{}',
+    brief_files TEXT[] NOT NULL DEFAULT '{}',
+    issues JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Update trigger
+CREATE TRIGGER exhibit_indexes_updated_at
+    BEFORE UPDATE ON exhibit_indexes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
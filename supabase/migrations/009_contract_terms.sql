@@ -0,0 +1,6 @@
+-- Contract Terms
+-- Run this in Supabase SQL Editor
+
+-- Typed terms and requirement gaps extracted from contracts and deal memos
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS contract_terms JSONB;
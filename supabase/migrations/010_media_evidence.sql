@@ -0,0 +1,7 @@
+-- Media Evidence Tiers
+-- Run this in Supabase SQL Editor
+
+-- Each media/publication exhibit with its outlet and evidence tier;
+-- evidence_quality counts are computed from these
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS media_evidence JSONB;
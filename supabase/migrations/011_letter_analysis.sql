@@ -0,0 +1,6 @@
+-- Support Letter Analysis
+-- Run this in Supabase SQL Editor
+
+-- Per-letter credibility and groups of letters sharing template language
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS letter_analysis JSONB;
@@ -0,0 +1,6 @@
+-- Consistency Check
+-- Run this in Supabase SQL Editor
+
+-- Names, dates, amounts and titles stated inconsistently across the record
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS consistency_conflicts JSONB;
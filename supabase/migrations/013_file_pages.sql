@@ -0,0 +1,19 @@
+-- File Pages
+-- Run this in Supabase SQL Editor
+
+-- Extracted text per page, with the method that read it and a confidence
+-- estimate (0-1), so scoring findings can be traced back to a page
+CREATE TABLE IF NOT EXISTS file_pages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_id UUID REFERENCES uploaded_files(id) ON DELETE CASCADE,
+    session_id UUID REFERENCES scoring_sessions(id) ON DELETE CASCADE,
+    page_number INTEGER NOT NULL,
+    text TEXT NOT NULL DEFAULT '',
+    ocr_method VARCHAR(30) NOT NULL,
+    confidence NUMERIC(3, 2),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (file_id, page_number)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_file_pages_session ON file_pages(session_id);
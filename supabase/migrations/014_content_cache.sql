@@ -0,0 +1,42 @@
+-- Content Cache
+-- Run this in Supabase SQL Editor
+
+-- OCR output keyed by file content, so a file uploaded again in any
+-- session is not OCR'd again. extraction_version changes whenever the
+-- extraction method does, which retires the older entries.
+CREATE TABLE IF NOT EXISTS extraction_cache (
+    content_hash CHAR(64) NOT NULL,
+    extraction_version VARCHAR(50) NOT NULL,
+    extracted_text TEXT NOT NULL,
+    page_count INTEGER,
+    pages JSONB NOT NULL DEFAULT '[]',
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_hit_at TIMESTAMPTZ,
+    PRIMARY KEY (content_hash, extraction_version)
+);
+
+-- AI responses keyed by a hash of the prompt, model and temperature
+CREATE TABLE IF NOT EXISTS ai_response_cache (
+    cache_key CHAR(64) PRIMARY KEY,
+    prompt_hash CHAR(64) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    temperature NUMERIC(3, 2) NOT NULL,
+    sample INTEGER NOT NULL DEFAULT 0,
+    response JSONB NOT NULL,
+    provider VARCHAR(20) NOT NULL,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_hit_at TIMESTAMPTZ
+);
+
+-- File content hash, checked against the extraction cache before download
+ALTER TABLE uploaded_files
+    ADD COLUMN IF NOT EXISTS content_hash CHAR(64);
+
+-- Cache hits and misses for the run that produced the results
+ALTER TABLE scoring_results
+    ADD COLUMN IF NOT EXISTS cache_stats JSONB;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_files_content_hash ON uploaded_files(content_hash);
@@ -0,0 +1,22 @@
+-- AI Call Log
+-- Run this in Supabase SQL Editor
+
+-- One row per model call made for a session: which task made it, the
+-- provider and model that answered, how long it took and the tokens it
+-- used. Failed calls are logged too, so fallbacks show up in the trail.
+CREATE TABLE IF NOT EXISTS ai_calls (
+    id BIGSERIAL PRIMARY KEY,
+    session_id UUID REFERENCES scoring_sessions(id) ON DELETE CASCADE,
+    task VARCHAR(30) NOT NULL,
+    provider VARCHAR(20) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    success BOOLEAN NOT NULL DEFAULT TRUE,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_ai_calls_session ON ai_calls(session_id, id);
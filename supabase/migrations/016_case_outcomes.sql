@@ -0,0 +1,31 @@
+-- Case Outcomes and Score Calibration
+-- Run this in Supabase SQL Editor
+
+-- USCIS notices received for a scored petition. A case can have several,
+-- e.g. an RFE followed by an approval; the last approval or denial is
+-- its final decision.
+CREATE TABLE IF NOT EXISTS case_outcomes (
+    id BIGSERIAL PRIMARY KEY,
+    session_id UUID REFERENCES scoring_sessions(id) ON DELETE CASCADE,
+    decision VARCHAR(10) NOT NULL CHECK (decision IN ('approved', 'rfe', 'noid', 'denied')),
+    decision_date DATE NOT NULL,
+    receipt_date DATE,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Score-to-probability curves fitted from the outcomes, one per visa type
+-- and target, with the reliability report of predicted versus actual rates.
+-- intercept and slope stay NULL until there are enough decided cases.
+CREATE TABLE IF NOT EXISTS calibration_curves (
+    visa_type VARCHAR(10) NOT NULL,
+    target VARCHAR(10) NOT NULL CHECK (target IN ('approval', 'rfe')),
+    intercept DOUBLE PRECISION,
+    slope DOUBLE PRECISION,
+    reliability JSONB NOT NULL,
+    fitted_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (visa_type, target)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_case_outcomes_session ON case_outcomes(session_id, decision_date);
@@ -0,0 +1,11 @@
+-- EB-2 National Interest Waiver
+-- Run this in Supabase SQL Editor
+
+-- Allow EB-2 NIW sessions, scored on EB-2 eligibility and the three
+-- Matter of Dhanasar prongs
+ALTER TABLE scoring_sessions
+    DROP CONSTRAINT IF EXISTS scoring_sessions_visa_type_check;
+
+ALTER TABLE scoring_sessions
+    ADD CONSTRAINT scoring_sessions_visa_type_check
+    CHECK (visa_type IN ('P-1A', 'O-1A', 'O-1B', 'EB-1A', 'EB-2 NIW'));
@@ -0,0 +1,13 @@
+-- Visa Type Registry
+-- Run this in Supabase SQL Editor
+
+-- Visa types are now defined in app/lib/data/visa-registry.ts and validated
+-- by the API, so adding a classification no longer needs a schema change.
+ALTER TABLE scoring_sessions
+    DROP CONSTRAINT IF EXISTS scoring_sessions_visa_type_check;
+
+ALTER TABLE scoring_sessions
+    ALTER COLUMN visa_type TYPE VARCHAR(20);
+
+ALTER TABLE calibration_curves
+    ALTER COLUMN visa_type TYPE VARCHAR(20);
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { buildExhibitIndex } from '../../app/lib/exhibits/exhibit-indexer';
+import { ScoringDocument } from '../../app/lib/scoring/map-reduce-scorer';
+import type { CheckCase } from './run';
+
+// Enough text after a heading that it reads as an exhibit, not an index entry
+const BODY = 'The beneficiary led the research group that published the findings described here. '.repeat(4);
+
+function brief(text: string): ScoringDocument {
+  return { fileName: 'brief.pdf', category: 'legal_document', text, pageCount: 1 };
+}
+
+function exhibit(fileName: string, heading: string, pageCount: number = 1): ScoringDocument {
+  return { fileName, category: 'Document', text: `${heading}\n${BODY}`, pageCount };
+}
+
+function citedIn(text: string): string[] {
+  return buildExhibitIndex([brief(text)]).citedLabels;
+}
+
+export const exhibitIndexerChecks: CheckCase[] = [
+  {
+    name: 'exhibit-indexer: "Exhibits 3-5" cites three exhibits',
+    run: () => {
+      assert.deepEqual(citedIn('Her awards are documented at Exhibits 3-5.'), ['Exhibit 3', 'Exhibit 4', 'Exhibit 5']);
+    },
+  },
+  {
+    name: 'exhibit-indexer: "Exhibit 3-5" is one label',
+    run: () => {
+      assert.deepEqual(citedIn('See the award letter at Exhibit 3-5.'), ['Exhibit 3-5']);
+    },
+  },
+  {
+    name: 'exhibit-indexer: "Exs. A-1 through A-4" expands the range',
+    run: () => {
+      assert.deepEqual(citedIn('The press coverage (Exs. A-1 through A-4) is national.'), [
+        'Exhibit A-1',
+        'Exhibit A-2',
+        'Exhibit A-3',
+        'Exhibit A-4',
+      ]);
+    },
+  },
+  {
+    name: 'exhibit-indexer: a cited Exhibit resolves to the Tab with the same number',
+    run: () => {
+      const index = buildExhibitIndex([
+        brief('The contract is at Exhibit 12.'),
+        exhibit('tab12.pdf', 'TAB 12 - Employment Contract'),
+      ]);
+
+      assert.equal(index.exhibits.length, 1);
+      assert.equal(index.exhibits[0].label, 'Tab 12');
+      assert.equal(index.exhibits[0].citationCount, 1);
+      assert.deepEqual(index.issues, []);
+    },
+  },
+  {
+    name: 'exhibit-indexer: an index of exhibits is not read as exhibits',
+    run: () => {
+      const index = buildExhibitIndex([
+        {
+          fileName: 'packet.pdf',
+          category: 'Document',
+          text: [
+            'INDEX OF EXHIBITS',
+            'Exhibit 1: Award certificate',
+            'Exhibit 2: Press article',
+            '--- Page 2 ---',
+            'Exhibit 1: Award certificate',
+            BODY,
+            '--- Page 3 ---',
+            'Exhibit 2: Press article',
+            BODY,
+          ].join('\n'),
+          pageCount: 3,
+        },
+      ]);
+
+      assert.deepEqual(
+        index.exhibits.map((e) => [e.label, e.title, e.startPage, e.endPage]),
+        [
+          ['Exhibit 1', 'Award certificate', 2, 2],
+          ['Exhibit 2', 'Press article', 3, 3],
+        ]
+      );
+    },
+  },
+  {
+    name: 'exhibit-indexer: packet pages count every earlier file',
+    run: () => {
+      const index = buildExhibitIndex([
+        exhibit('exhibit-a.pdf', 'Exhibit A', 4),
+        exhibit('exhibit-b.pdf', 'Exhibit B', 3),
+      ]);
+
+      assert.deepEqual(
+        index.exhibits.map((e) => [e.label, e.packetStartPage, e.packetEndPage]),
+        [
+          ['Exhibit A', 1, 4],
+          ['Exhibit B', 5, 7],
+        ]
+      );
+    },
+  },
+];
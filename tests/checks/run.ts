@@ -0,0 +1,54 @@
+/**
+ * Case Checks
+ *
+ * Small input/output cases for the deterministic modules - the parts of
+ * the pipeline that make no AI calls and so are not covered by replaying
+ * the golden petitions. Each case throws (node:assert) when it fails.
+ *
+ *   npm run test:checks                  every case
+ *   npm run test:checks -- <filter>      cases whose name contains the filter
+ *   npm run test:checks -- --verbose     show the modules' own logging
+ */
+
+import { exhibitIndexerChecks } from './exhibit-indexer';
+import { scoreCalibrationChecks } from './score-calibration';
+
+export interface CheckCase {
+  name: string;
+  run: () => void;
+}
+
+const CHECKS: CheckCase[] = [...exhibitIndexerChecks, ...scoreCalibrationChecks];
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const filters = args.filter((a) => !a.startsWith('--'));
+  const selected = CHECKS.filter((c) => filters.length === 0 || filters.some((f) => c.name.includes(f)));
+
+  if (selected.length === 0) {
+    console.error(`No checks found${filters.length > 0 ? ` matching ${filters.join(', ')}` : ''}`);
+    process.exit(1);
+  }
+
+  const original = console.log;
+  let failed = 0;
+  for (const check of selected) {
+    if (!verbose) console.log = () => {};
+    try {
+      check.run();
+      console.log = original;
+      console.log(`PASS ${check.name}`);
+    } catch (error) {
+      console.log = original;
+      failed++;
+      console.log(`FAIL ${check.name}`);
+      console.log(`  - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`\n${selected.length - failed}/${selected.length} check(s) passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import {
+  labelOutcomes,
+  fitLogisticCurve,
+  predictFromCurve,
+  buildReliabilityReport,
+} from '../../app/lib/calibration/score-calibration';
+import type { CheckCase } from './run';
+
+export const scoreCalibrationChecks: CheckCase[] = [
+  {
+    name: 'score-calibration: an RFE followed by an approval is approved with an RFE issued',
+    run: () => {
+      // Recorded out of order - the decision dates decide
+      const labels = labelOutcomes([
+        { session_id: 's1', decision: 'approved', decision_date: '2025-05-20' },
+        { session_id: 's1', decision: 'rfe', decision_date: '2025-03-02' },
+        { session_id: 's2', decision: 'rfe', decision_date: '2025-04-11' },
+      ]);
+
+      assert.deepEqual(labels.get('s1'), { approved: true, rfeIssued: true });
+      assert.deepEqual(labels.get('s2'), { rfeIssued: true });
+    },
+  },
+  {
+    name: 'score-calibration: scores that separate the outcomes fit a finite slope',
+    run: () => {
+      const points = [
+        ...[30, 35, 40, 42, 45].map((score) => ({ score, positive: false })),
+        ...[60, 65, 70, 75, 80].map((score) => ({ score, positive: true })),
+      ];
+      const fit = fitLogisticCurve(points);
+
+      assert.ok(Number.isFinite(fit.intercept) && Number.isFinite(fit.slope), `fit ${JSON.stringify(fit)}`);
+      assert.ok(fit.slope > 0 && fit.slope < 10, `slope ${fit.slope}`);
+      assert.ok(predictFromCurve(fit, 30) < 50 && predictFromCurve(fit, 80) > 50);
+      assert.ok(predictFromCurve(fit, 80) < 100, 'the curve should not promise certainty');
+    },
+  },
+  {
+    name: 'score-calibration: reliability bins compare predicted with actual rates',
+    run: () => {
+      const report = buildReliabilityReport([
+        { score: 40, predicted: 15, positive: false },
+        { score: 45, predicted: 18, positive: true },
+        { score: 85, predicted: 95, positive: true },
+        { score: 90, predicted: 100, positive: true },
+      ]);
+
+      assert.deepEqual(
+        report.bins.map((b) => [b.from, b.to, b.cases, b.meanPredicted, b.actualRate]),
+        [
+          [10, 20, 2, 16.5, 50],
+          [90, 100, 2, 97.5, 100],
+        ]
+      );
+      assert.equal(report.positives, 3);
+      assert.equal(report.baseRate, 75);
+      assert.equal(report.calibrationError, 18);
+      assert.equal(report.brierCurve, undefined);
+    },
+  },
+];
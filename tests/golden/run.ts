@@ -0,0 +1,281 @@
+/**
+ * Golden Petition Regression Harness
+ *
+ * Scores each anonymized petition in fixtures/ through the full officer
+ * pipeline using the replay provider, so no API keys or network are
+ * needed, and checks the output against the ranges the case expects.
+ * A case fails when a recorded response no longer parses, a rating
+ * threshold moves, a criterion goes missing or a result leaves its range.
+ *
+ *   npm run test:golden                  every case
+ *   npm run test:golden -- <case> ...    the named cases
+ *   npm run test:golden -- --strict      also fail on stale recordings
+ *   npm run test:golden -- --rekey       accept the current prompts for stale recordings
+ *   npm run test:golden -- --record      record new responses from the live providers
+ *   npm run test:golden -- --verbose     show the pipeline's own logging
+ *
+ * Each fixture directory holds case.json (documents, options, expected
+ * ranges), the document text files and recordings.json.
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { runOfficerScoring, RawScoringOutput } from '../../app/lib/scoring/officer-scorer';
+import { combineDocuments, ScoringDocument } from '../../app/lib/scoring/map-reduce-scorer';
+import { countCriteriaMet } from '../../app/lib/scoring/final-merits';
+import {
+  AIRecording,
+  loadRecordings,
+  getReplayStats,
+  rekeyStaleRecordings,
+  startRecording,
+  stopRecording,
+} from '../../app/lib/ai/replay-provider';
+import { VisaType, DocumentType, ScoringOptions, VISA_CRITERIA } from '../../app/lib/types';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+// Prompts state the review date; pinning the clock keeps their hashes stable
+const REVIEW_DATE = '2025-06-02T12:00:00Z';
+
+interface GoldenCase {
+  description: string;
+  visaType: VisaType;
+  documentType: DocumentType;
+  beneficiaryName?: string;
+  documents: { file: string; category: string }[];
+  options?: ScoringOptions;
+  expect: {
+    ranges?: Record<string, [number, number]>; // Path in the summary -> inclusive range
+    values?: Record<string, string[]>; // Path in the summary -> allowed values
+    weaknesses?: string[]; // Patterns that must each match at least one weakness
+  };
+}
+
+interface CaseResult {
+  name: string;
+  failures: string[];
+  warnings: string[];
+  logs: string[];
+}
+
+const args = process.argv.slice(2);
+const flags = new Set(args.filter((a) => a.startsWith('--')));
+const selected = args.filter((a) => !a.startsWith('--'));
+const record = flags.has('--record');
+
+function pinClock(iso: string): void {
+  const RealDate = Date;
+  const fixed = new RealDate(iso).getTime();
+
+  class FixedDate extends RealDate {
+    constructor(...args: ConstructorParameters<typeof Date> | []) {
+      if (args.length === 0) {
+        super(fixed);
+      } else {
+        super(...(args as ConstructorParameters<typeof Date>));
+      }
+    }
+
+    static now(): number {
+      return fixed;
+    }
+  }
+
+  globalThis.Date = FixedDate as DateConstructor;
+}
+
+/**
+ * The values a case's expectations are checked against
+ */
+function summarize(output: RawScoringOutput): Record<string, unknown> {
+  return {
+    overallScore: output.overallScore,
+    overallRating: output.overallRating,
+    approvalProbability: output.approvalProbability,
+    rfeProbability: output.rfeProbability,
+    denialRisk: output.denialRisk,
+    criteriaMet: countCriteriaMet(output.criteriaScores),
+    criteria: Object.fromEntries(
+      output.criteriaScores.map((c) => [c.criterionNumber, { rating: c.rating, score: c.score }])
+    ),
+    finalMerits: output.finalMerits && { outcome: output.finalMerits.outcome, score: output.finalMerits.score },
+    evidenceQuality: output.evidenceQuality,
+    mediaItems: output.mediaEvidence?.length ?? 0,
+    letters: output.letterAnalysis?.letters.length ?? 0,
+    boilerplateGroups: output.letterAnalysis?.boilerplateGroups.length ?? 0,
+    contractGaps: output.contractTerms?.gaps.length ?? 0,
+    consistencyConflicts: output.consistencyConflicts?.length ?? 0,
+  };
+}
+
+function lookup(summary: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    summary
+  );
+}
+
+function checkOutput(output: RawScoringOutput, golden: GoldenCase): string[] {
+  const failures: string[] = [];
+
+  // Every regulatory criterion, once, in order, under its regulation name
+  const expected = VISA_CRITERIA[golden.visaType];
+  const actual = output.criteriaScores.map((c) => `${c.criterionNumber}:${c.criterionName}`);
+  const wanted = expected.map((c) => `${c.number}:${c.name}`);
+  if (actual.join('|') !== wanted.join('|')) {
+    failures.push(`criteria are [${actual.join(', ')}], expected [${wanted.join(', ')}]`);
+  }
+
+  const summary = summarize(output);
+
+  for (const [path, [min, max]] of Object.entries(golden.expect.ranges || {})) {
+    const value = lookup(summary, path);
+    if (typeof value !== 'number' || value < min || value > max) {
+      failures.push(`${path} is ${JSON.stringify(value)}, expected ${min}-${max}`);
+    }
+  }
+
+  for (const [path, allowed] of Object.entries(golden.expect.values || {})) {
+    const value = lookup(summary, path);
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      failures.push(`${path} is ${JSON.stringify(value)}, expected ${allowed.join(' or ')}`);
+    }
+  }
+
+  for (const pattern of golden.expect.weaknesses || []) {
+    if (!output.weaknesses.some((w) => new RegExp(pattern, 'i').test(w))) {
+      failures.push(`no weakness matches /${pattern}/`);
+    }
+  }
+
+  return failures;
+}
+
+async function runCase(name: string): Promise<CaseResult> {
+  const dir = join(FIXTURES_DIR, name);
+  const golden = JSON.parse(readFileSync(join(dir, 'case.json'), 'utf-8')) as GoldenCase;
+  const recordingsFile = join(dir, 'recordings.json');
+  const result: CaseResult = { name, failures: [], warnings: [], logs: [] };
+
+  const documents: ScoringDocument[] = golden.documents.map((d) => ({
+    fileName: d.file,
+    category: d.category,
+    text: readFileSync(join(dir, d.file), 'utf-8'),
+  }));
+
+  const recordings = existsSync(recordingsFile)
+    ? (JSON.parse(readFileSync(recordingsFile, 'utf-8')) as AIRecording[])
+    : [];
+  if (record) {
+    startRecording();
+  } else {
+    loadRecordings(recordings);
+  }
+
+  // The pipeline logs every step; keep it for cases that fail
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  if (!flags.has('--verbose')) {
+    const capture = (...parts: unknown[]) =>
+      result.logs.push(parts.map((p) => (p instanceof Error ? p.message : String(p))).join(' '));
+    console.log = capture;
+    console.warn = capture;
+    console.error = capture;
+  }
+
+  let output: RawScoringOutput | null = null;
+  try {
+    output = await runOfficerScoring({
+      sessionId: `golden-${name}`,
+      documentType: golden.documentType,
+      visaType: golden.visaType,
+      beneficiaryName: golden.beneficiaryName,
+      documentContent: combineDocuments(documents),
+      documents,
+      options: golden.options,
+    });
+  } catch (error) {
+    result.failures.push(`scoring failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    Object.assign(console, original);
+  }
+
+  if (record) {
+    const captured = stopRecording();
+    writeFileSync(recordingsFile, JSON.stringify(captured, null, 2) + '\n');
+    result.warnings.push(`recorded ${captured.length} response(s)`);
+  } else {
+    const stats = getReplayStats();
+    // Steps after the evaluation recover from errors, so a response that
+    // no longer parses shows up here rather than as a thrown error
+    if (stats.missing.length > 0) {
+      result.failures.push(`no recording left for: ${stats.missing.join(', ')}`);
+    }
+    if (stats.stale.length > 0) {
+      const message = `replayed for changed prompts: ${stats.stale.join(', ')}`;
+      if (flags.has('--rekey') && stats.missing.length === 0) {
+        rekeyStaleRecordings();
+        writeFileSync(recordingsFile, JSON.stringify(recordings, null, 2) + '\n');
+        result.warnings.push(`re-keyed ${message}`);
+      } else if (flags.has('--strict')) {
+        result.failures.push(message);
+      } else {
+        result.warnings.push(message);
+      }
+    }
+  }
+
+  if (output) {
+    result.failures.push(...checkOutput(output, golden));
+  }
+  return result;
+}
+
+async function main(): Promise<void> {
+  pinClock(REVIEW_DATE);
+
+  // Nothing is written to a database from a test run
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!record) {
+    // Every task goes to the recordings, and nothing can reach a live provider
+    for (const key of Object.keys(process.env).filter((k) => k.startsWith('AI_ROUTE_'))) {
+      delete process.env[key];
+    }
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.LOCAL_AI_BASE_URL;
+    process.env.AI_ROUTE = 'replay';
+  }
+
+  const cases = readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && (selected.length === 0 || selected.includes(d.name)))
+    .map((d) => d.name)
+    .sort();
+
+  if (cases.length === 0) {
+    console.error(`No golden cases found${selected.length > 0 ? ` matching ${selected.join(', ')}` : ''}`);
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const name of cases) {
+    const result = await runCase(name);
+
+    if (result.failures.length > 0) {
+      failed++;
+      console.log(`FAIL ${name}`);
+      result.failures.forEach((f) => console.log(`  - ${f}`));
+      result.logs.filter((l) => /fail|error/i.test(l)).forEach((l) => console.log(`    ${l.slice(0, 300)}`));
+    } else {
+      console.log(`PASS ${name}`);
+    }
+    result.warnings.forEach((w) => console.log(`  ! ${w}`));
+  }
+
+  console.log(`\n${cases.length - failed}/${cases.length} golden case(s) passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();